@@ -0,0 +1,85 @@
+import { useEffect, useState } from 'react';
+import type { ApolloUsageSummary } from '../lib/apolloCache';
+
+function formatBudget(used: number, limit: number | null): string {
+  return limit === null ? `${used} (no limit)` : `${used} / ${limit}`;
+}
+
+export default function ApolloUsagePanel() {
+  const [summary, setSummary] = useState<ApolloUsageSummary | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await fetch('/api/apollo/usage?days=14');
+        const data = await response.json();
+
+        if (response.ok) {
+          setSummary(data);
+        } else {
+          setError(`Error: ${data.error}`);
+        }
+      } catch (err) {
+        setError('Error loading Apollo usage.');
+      }
+    };
+
+    load();
+  }, []);
+
+  if (error) {
+    return <div className="mt-8 p-3 rounded-md bg-red-50 text-sm text-red-800">{error}</div>;
+  }
+
+  if (!summary) return null;
+
+  // Only show days with activity, newest first
+  const activeDays = summary.days
+    .filter(day => day.creditsUsed || day.cacheHits || day.cacheMisses || day.deferred)
+    .reverse();
+
+  return (
+    <div className="mt-8 p-3 rounded-md bg-white border border-gray-200 text-sm text-gray-800">
+      <p className="font-medium">Apollo credits</p>
+      <dl className="mt-2 space-y-1">
+        <div><dt className="inline font-medium">Today: </dt><dd className="inline">{formatBudget(summary.today.creditsUsed, summary.budget.daily)}</dd></div>
+        <div><dt className="inline font-medium">This month: </dt><dd className="inline">{formatBudget(summary.month.creditsUsed, summary.budget.monthly)}</dd></div>
+        <div>
+          <dt className="inline font-medium">Cache hit rate: </dt>
+          <dd className="inline">
+            {summary.cache.hitRate === null ? 'No lookups yet' : `${summary.cache.hitRate}%`} ({summary.cache.entries} cached)
+          </dd>
+        </div>
+        {summary.today.deferred > 0 && (
+          <div className="text-yellow-800">{summary.today.deferred} lookups deferred today because the budget was exhausted</div>
+        )}
+      </dl>
+
+      {activeDays.length > 0 && (
+        <table className="mt-3 w-full text-xs">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="font-normal">Date</th>
+              <th className="font-normal">Credits</th>
+              <th className="font-normal">Cache hits</th>
+              <th className="font-normal">Misses</th>
+              <th className="font-normal">Deferred</th>
+            </tr>
+          </thead>
+          <tbody>
+            {activeDays.map(day => (
+              <tr key={day.date}>
+                <td>{day.date}</td>
+                <td>{day.creditsUsed}</td>
+                <td>{day.cacheHits}</td>
+                <td>{day.cacheMisses}</td>
+                <td>{day.deferred}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+import { useEffect, useState } from 'react';
+import { Batch, BatchSummary, Job } from '../lib/types';
+
+const POLL_INTERVAL_MS = 3000;
+
+interface BatchStatus {
+  batch: Batch;
+  jobs: Job[];
+  summary: BatchSummary;
+}
+
+export default function BatchSubmit() {
+  const [text, setText] = useState('');
+  const [csv, setCsv] = useState<{ name: string; contents: string } | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [message, setMessage] = useState('');
+  const [status, setStatus] = useState<BatchStatus | null>(null);
+
+  const isBatchActive = !!status && status.summary.pending > 0;
+
+  // Poll the batch until every job has finished
+  useEffect(() => {
+    if (!status || !isBatchActive) return;
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/batches/${status.batch.id}`);
+        const data = await response.json();
+
+        if (response.ok) {
+          setStatus(data);
+        } else {
+          setMessage(`Error: ${data.error}`);
+        }
+      } catch (error) {
+        // Transient network error - try again on the next tick
+        setStatus({ ...status });
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearTimeout(timer);
+  }, [status, isBatchActive]);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) {
+      setCsv(null);
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = () => setCsv({ name: file.name, contents: String(reader.result || '') });
+    reader.onerror = () => setMessage('Error: Unable to read the selected file');
+    reader.readAsText(file);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSubmitting(true);
+    setMessage('');
+    setStatus(null);
+
+    try {
+      const response = await fetch('/api/process-batch', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(csv ? { csv: csv.contents } : { text })
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setStatus({ batch: data.batch, jobs: data.jobs, summary: data.summary });
+        setText('');
+      } else {
+        setMessage(`Error: ${data.error}`);
+      }
+    } catch (error) {
+      setMessage('Error submitting batch. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const jobsById = new Map((status?.jobs || []).map(job => [job.id, job]));
+
+  return (
+    <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
+      <div>
+        <label htmlFor="urls" className="sr-only">
+          Press Release URLs
+        </label>
+        <textarea
+          id="urls"
+          name="urls"
+          rows={8}
+          value={text}
+          disabled={!!csv}
+          onChange={(e) => setText(e.target.value)}
+          className="appearance-none rounded-md relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm disabled:bg-gray-100"
+          placeholder="Paste press release URLs, one per line"
+        />
+      </div>
+
+      <div className="text-sm text-gray-600">
+        <label htmlFor="csv" className="block mb-1">Or upload a CSV file of URLs</label>
+        <input id="csv" name="csv" type="file" accept=".csv,text/csv,text/plain" onChange={handleFileChange} />
+      </div>
+
+      <div>
+        <button
+          type="submit"
+          disabled={isSubmitting || isBatchActive || (!text.trim() && !csv)}
+          className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSubmitting || isBatchActive ? 'Processing...' : 'Submit Batch'}
+        </button>
+      </div>
+
+      {message && (
+        <div className="mt-4 p-3 rounded-md bg-red-50 text-red-800">
+          {message}
+        </div>
+      )}
+
+      {status && (
+        <div className="mt-4 p-3 rounded-md bg-gray-100 text-sm text-gray-800">
+          <p className="font-medium">
+            {status.summary.pending > 0 ? `Processing... ${status.summary.pending} remaining` : 'Batch complete'}
+          </p>
+          <p className="mt-1">
+            {status.summary.succeeded} succeeded ({status.summary.dealsFound} deals), {status.summary.failed} failed, {status.summary.duplicatesSkipped} duplicates skipped, {status.summary.invalid} invalid, {status.summary.notRelevant} not relevant
+          </p>
+
+          <ul className="mt-3 space-y-1 text-xs">
+            {status.batch.entries.map((entry, index) => {
+              const job = entry.jobId ? jobsById.get(entry.jobId) : undefined;
+              const outcome = job
+                ? job.status === 'saved'
+                  ? job.deals
+                    ? `Saved ${job.deals.filter(deal => !deal.error).length} of ${job.deals.length} deals: ${job.deals.map(deal => deal.result.companyName).join(', ')}`
+                    : job.dedup && ['skipped', 'merged', 'linked'].includes(job.dedup.decision)
+                      ? `Duplicate ${job.dedup.decision}: ${job.dedup.reason}`
+                      : job.result?.acquisition
+                        ? `Saved acquisition: ${job.result.acquisition.acquirer} acquires ${job.result.acquisition.target}`
+                        : job.result?.fundClose
+                          ? `Saved fund close: ${job.result.fundClose.fundName} (${job.result.fundClose.fundSize?.display || 'undisclosed size'})`
+                          : `Saved: ${job.result?.companyName} (${job.result?.amountRaised})`
+                  : job.status === 'skipped'
+                    ? `Skipped: ${job.skipReason}`
+                    : job.status === 'failed'
+                      ? `Failed: ${job.error || 'Unknown error'}`
+                      : job.status
+                : `Skipped: ${entry.reason}`;
+
+              return (
+                <li key={index} className="break-all">
+                  <span className="opacity-75">{entry.input}</span> — {outcome}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </form>
+  );
+}
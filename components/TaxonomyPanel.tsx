@@ -0,0 +1,48 @@
+import { useEffect, useState } from 'react';
+import type { Taxonomy } from '../lib/taxonomy';
+
+export default function TaxonomyPanel() {
+  const [taxonomy, setTaxonomy] = useState<Taxonomy | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await fetch('/api/taxonomy');
+        const data = await response.json();
+
+        if (response.ok) {
+          setTaxonomy(data.taxonomy);
+        } else {
+          setError(`Error: ${data.error}`);
+        }
+      } catch (err) {
+        setError('Error loading the category taxonomy.');
+      }
+    };
+
+    load();
+  }, []);
+
+  if (error) {
+    return <div className="mt-8 p-3 rounded-md bg-red-50 text-sm text-red-800">{error}</div>;
+  }
+
+  if (!taxonomy) return null;
+
+  return (
+    <details className="mt-8 p-3 rounded-md bg-white border border-gray-200 text-sm text-gray-800">
+      <summary className="font-medium cursor-pointer">Industry categories ({taxonomy.categories.length})</summary>
+      <dl className="mt-2 space-y-2">
+        {taxonomy.categories.map(category => (
+          <div key={category.id}>
+            <dt className="font-medium">
+              {category.label} <span className="font-normal text-gray-500">({category.id})</span>
+            </dt>
+            <dd className="text-gray-600">{category.description}</dd>
+          </div>
+        ))}
+      </dl>
+    </details>
+  );
+}
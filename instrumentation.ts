@@ -0,0 +1,15 @@
+// Runs once when the Next.js server starts. Jobs interrupted by a restart are
+// resumed and the feed watcher starts polling without waiting for an API call.
+export async function register(): Promise<void> {
+  // The job queue and feed watcher use Node APIs. The check has to wrap the
+  // imports so the edge build leaves them out.
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { getJobQueue } = await import('./lib/jobQueue');
+    const { getFeedWatcher } = await import('./lib/feedWatcher');
+
+    await getJobQueue().resumePending().catch(error => {
+      console.error('Failed to resume interrupted jobs:', error);
+    });
+    getFeedWatcher();
+  }
+}
@@ -0,0 +1,66 @@
+import { AnnouncementClassification, AnnouncementType, StructuredRelease } from './types';
+
+export const ANNOUNCEMENT_TYPES: AnnouncementType[] = ['funding', 'acquisition', 'fund_close', 'partnership', 'product_launch', 'other'];
+
+// Types with their own extraction schema and output tables
+export const EXTRACTED_TYPES: AnnouncementType[] = ['funding', 'acquisition', 'fund_close'];
+
+export const ANNOUNCEMENT_TYPE_LABELS: Record<AnnouncementType, string> = {
+  funding: 'Funding round',
+  acquisition: 'Acquisition',
+  fund_close: 'Fund close',
+  partnership: 'Partnership',
+  product_launch: 'Product launch',
+  other: 'Other'
+};
+
+// Listed most specific first: "Fund V closes" and "acquires" releases often
+// also use funding words, so ties go to the earlier type
+const SIGNALS: { type: Exclude<AnnouncementType, 'other'>; pattern: RegExp }[] = [
+  { type: 'fund_close', pattern: /\b(fundraise|(first|final|initial) close|closes? (of |on )?(its |their |a )?([\w$€£.,-]+ ){0,5}funds?|fund [ivx]{1,4}|oversubscribed fund|new fund|limited partners|lps)\b/i },
+  { type: 'acquisition', pattern: /\b(acquires?|acquired by|to acquire|acquisition of|completes acquisition|merges? with|merger|buys|takeover|majority stake)\b/i },
+  { type: 'funding', pattern: /\b(raises?|raised|secures?|secured|funding round|(pre-)?seed (round|funding)|series [a-h]\b|led by|venture debt|growth equity investment)\b/i },
+  { type: 'partnership', pattern: /\b(partners? with|partnership|strategic alliance|collaborat(es|ion) with|teams up)\b/i },
+  { type: 'product_launch', pattern: /\b(launch(es|ed)?|unveils?|introduces|now available|general availability|debuts)\b/i }
+];
+
+// How much a headline match counts for compared with a match in the body
+const HEADLINE_WEIGHT = 3;
+
+// Body text looked at; the opening paragraphs say what the release is about
+const BODY_LENGTH = 1500;
+
+export function headlineOf(content: string, structured: StructuredRelease | null): string {
+  return structured?.headline || content.match(/Title:\s*(.+?)(?:\s+(?:Published|Description|Content):|\n|$)/)?.[1] || '';
+}
+
+// Keyword scoring over the headline and opening text. decisive is set when
+// one type clearly wins; otherwise the model is asked. Releases with no
+// signal at all are treated as funding rounds, as before types existed.
+export function classifyAnnouncementByRules(content: string, structured: StructuredRelease | null = null): AnnouncementClassification & { decisive: boolean } {
+  const headline = headlineOf(content, structured);
+  const body = (structured ? [structured.subheadline, ...structured.paragraphs].join('\n') : content).substring(0, BODY_LENGTH);
+
+  const scores = SIGNALS
+    .map(({ type, pattern }, order) => ({
+      type,
+      order,
+      inHeadline: pattern.test(headline),
+      score: (pattern.test(headline) ? HEADLINE_WEIGHT : 0) + (pattern.test(body) ? 1 : 0)
+    }))
+    .sort((a, b) => b.score - a.score || a.order - b.order);
+
+  const [best, runnerUp] = scores;
+  if (best.score === 0) {
+    return { type: 'funding', confidence: 20, method: 'rules', reason: 'No announcement wording recognised', decisive: false };
+  }
+
+  const decisive = best.inHeadline && best.score > runnerUp.score;
+  return {
+    type: best.type,
+    confidence: decisive ? 80 : 40,
+    method: 'rules',
+    reason: `${best.inHeadline ? 'Headline' : 'Text'} reads like a ${ANNOUNCEMENT_TYPE_LABELS[best.type].toLowerCase()}`,
+    decisive
+  };
+}
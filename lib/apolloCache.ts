@@ -0,0 +1,197 @@
+import path from 'path';
+import { DATA_DIR, readJsonFile, updateJsonFile } from './jsonFile';
+import { normalizeCompanyName } from './dedup';
+import { ExecutiveRole } from './types';
+import type { ApolloContact } from './apolloService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface CacheEntry {
+  // null records a lookup that found nobody, so it isn't paid for again
+  contact: ApolloContact | null;
+  cachedAt: string;
+}
+
+type CacheFile = Record<string, CacheEntry>;
+
+export interface DailyUsage {
+  date: string;
+  creditsUsed: number;
+  cacheHits: number;
+  cacheMisses: number;
+  // Enrichments skipped because the credit budget was exhausted
+  deferred: number;
+}
+
+type UsageFile = Record<string, DailyUsage>;
+
+export interface CreditBudget {
+  daily: number | null;
+  monthly: number | null;
+}
+
+export interface ApolloUsageSummary {
+  days: DailyUsage[];
+  today: DailyUsage;
+  month: { month: string; creditsUsed: number };
+  budget: CreditBudget & { remainingToday: number | null; remainingThisMonth: number | null };
+  cache: { entries: number; hitRate: number | null };
+}
+
+function readLimit(name: string): number | null {
+  const value = process.env[name];
+  if (!value) return null;
+  const parsed = parseInt(value, 10);
+  return isNaN(parsed) || parsed < 0 ? null : parsed;
+}
+
+function readDays(name: string, fallback: number): number {
+  const parsed = parseFloat(process.env[name] || '');
+  return isNaN(parsed) || parsed < 0 ? fallback : parsed;
+}
+
+// Dates are bucketed in UTC so the daily budget resets at the same moment
+// regardless of where the server runs
+function utcDate(at: Date = new Date()): string {
+  return at.toISOString().substring(0, 10);
+}
+
+function emptyDay(date: string): DailyUsage {
+  return { date, creditsUsed: 0, cacheHits: 0, cacheMisses: 0, deferred: 0 };
+}
+
+// Persistent company+role -> contact cache. Found contacts are kept for
+// APOLLO_CACHE_TTL_DAYS (default 30), misses for APOLLO_NEGATIVE_CACHE_TTL_DAYS
+// (default 7) since a company may add people to Apollo later.
+export class ApolloCache {
+  private filePath: string;
+  private ttlMs: number;
+  private negativeTtlMs: number;
+
+  constructor(filePath?: string) {
+    this.filePath = filePath || process.env.APOLLO_CACHE_PATH || path.join(DATA_DIR, 'apollo-cache.json');
+    this.ttlMs = readDays('APOLLO_CACHE_TTL_DAYS', 30) * DAY_MS;
+    this.negativeTtlMs = readDays('APOLLO_NEGATIVE_CACHE_TTL_DAYS', 7) * DAY_MS;
+  }
+
+  // undefined means "not cached"; null is a cached miss
+  async get(companyName: string, role: ExecutiveRole): Promise<ApolloContact | null | undefined> {
+    const entries = await readJsonFile<CacheFile>(this.filePath, {});
+    const entry = entries[this.key(companyName, role)];
+    if (!entry) return undefined;
+
+    const ttl = entry.contact ? this.ttlMs : this.negativeTtlMs;
+    if (Date.now() - new Date(entry.cachedAt).getTime() > ttl) return undefined;
+
+    return entry.contact;
+  }
+
+  async set(companyName: string, role: ExecutiveRole, contact: ApolloContact | null): Promise<void> {
+    await updateJsonFile<CacheFile>(this.filePath, {}, entries => {
+      entries[this.key(companyName, role)] = { contact, cachedAt: new Date().toISOString() };
+    });
+  }
+
+  async size(): Promise<number> {
+    return Object.keys(await readJsonFile<CacheFile>(this.filePath, {})).length;
+  }
+
+  private key(companyName: string, role: ExecutiveRole): string {
+    return `${normalizeCompanyName(companyName)}|${role}`;
+  }
+}
+
+// Daily credit and cache counters plus enforcement of APOLLO_DAILY_CREDIT_LIMIT
+// and APOLLO_MONTHLY_CREDIT_LIMIT (unset means unlimited)
+export class ApolloUsage {
+  private filePath: string;
+  private budget: CreditBudget;
+
+  constructor(filePath?: string, budget?: CreditBudget) {
+    this.filePath = filePath || process.env.APOLLO_USAGE_PATH || path.join(DATA_DIR, 'apollo-usage.json');
+    this.budget = budget || {
+      daily: readLimit('APOLLO_DAILY_CREDIT_LIMIT'),
+      monthly: readLimit('APOLLO_MONTHLY_CREDIT_LIMIT')
+    };
+  }
+
+  // Reserves one credit if the budget allows it and returns the UTC day it was
+  // counted against, or null when the budget is spent. Checking and counting
+  // in one locked update keeps concurrent jobs from overspending together.
+  async reserveCredit(): Promise<string | null> {
+    return updateJsonFile<UsageFile, string | null>(this.filePath, {}, usage => {
+      const today = utcDate();
+      const day = usage[today] = usage[today] || emptyDay(today);
+      const monthUsed = this.monthCredits(usage, today.substring(0, 7));
+
+      if ((this.budget.daily !== null && day.creditsUsed >= this.budget.daily) ||
+          (this.budget.monthly !== null && monthUsed >= this.budget.monthly)) {
+        day.deferred++;
+        return null;
+      }
+
+      day.creditsUsed++;
+      return today;
+    });
+  }
+
+  // Gives back a reserved credit when the enrichment call didn't consume one.
+  // reservedOn is the day reserveCredit returned, which is not today when the
+  // lookup ran past midnight.
+  async releaseCredit(reservedOn: string): Promise<void> {
+    await this.update(day => { day.creditsUsed = Math.max(0, day.creditsUsed - 1); }, reservedOn);
+  }
+
+  async recordCacheHit(): Promise<void> {
+    await this.update(day => { day.cacheHits++; });
+  }
+
+  async recordCacheMiss(): Promise<void> {
+    await this.update(day => { day.cacheMisses++; });
+  }
+
+  async getSummary(cache: ApolloCache, days = 30): Promise<ApolloUsageSummary> {
+    const usage = await readJsonFile<UsageFile>(this.filePath, {});
+    const today = utcDate();
+    const month = today.substring(0, 7);
+
+    const recent: DailyUsage[] = [];
+    for (let i = days - 1; i >= 0; i--) {
+      const date = utcDate(new Date(Date.now() - i * DAY_MS));
+      recent.push(usage[date] || emptyDay(date));
+    }
+
+    const todayUsage = usage[today] || emptyDay(today);
+    const monthUsed = this.monthCredits(usage, month);
+    const hits = recent.reduce((sum, day) => sum + day.cacheHits, 0);
+    const lookups = hits + recent.reduce((sum, day) => sum + day.cacheMisses, 0);
+
+    return {
+      days: recent,
+      today: todayUsage,
+      month: { month, creditsUsed: monthUsed },
+      budget: {
+        ...this.budget,
+        remainingToday: this.budget.daily === null ? null : Math.max(0, this.budget.daily - todayUsage.creditsUsed),
+        remainingThisMonth: this.budget.monthly === null ? null : Math.max(0, this.budget.monthly - monthUsed)
+      },
+      cache: {
+        entries: await cache.size(),
+        hitRate: lookups > 0 ? Math.round((hits / lookups) * 1000) / 10 : null
+      }
+    };
+  }
+
+  private monthCredits(usage: UsageFile, month: string): number {
+    return Object.values(usage)
+      .filter(day => day.date.startsWith(month))
+      .reduce((sum, day) => sum + day.creditsUsed, 0);
+  }
+
+  private async update(change: (day: DailyUsage) => void, date: string = utcDate()): Promise<void> {
+    await updateJsonFile<UsageFile>(this.filePath, {}, usage => {
+      usage[date] = usage[date] || emptyDay(date);
+      change(usage[date]);
+    });
+  }
+}
@@ -1,4 +1,8 @@
-import axios from 'axios';
+import axios, { AxiosInstance } from 'axios';
+import { HttpTransport, getHttpTransport } from './httpTransport';
+import { FoundContact } from './types';
+import { ContactProvider, ContactQuery } from './contactProvider';
+import { ApolloCache, ApolloUsage } from './apolloCache';
 
 export interface ApolloContact {
   email: string;
@@ -20,15 +24,22 @@ export interface ApolloResult {
   };
 }
 
-export class ApolloService {
+export class ApolloService implements ContactProvider {
+  readonly name = 'apollo';
   private apiKey: string;
   private baseUrl = 'https://api.apollo.io/api/v1';
+  private http: AxiosInstance;
+  private cache: ApolloCache;
+  private usage: ApolloUsage;
 
-  constructor() {
+  constructor(transport: HttpTransport = getHttpTransport(), cache: ApolloCache = new ApolloCache(), usage: ApolloUsage = new ApolloUsage()) {
     if (!process.env.APOLLO_API_KEY) {
       throw new Error('APOLLO_API_KEY environment variable is required');
     }
     this.apiKey = process.env.APOLLO_API_KEY;
+    this.http = transport.http;
+    this.cache = cache;
+    this.usage = usage;
   }
 
   async findExecutiveContacts(companyName: string): Promise<ApolloResult> {
@@ -44,21 +55,21 @@ export class ApolloService {
 
     try {
       // Try to find CEO
-      const ceoResult = await this.findExecutiveByTitle(companyName, 'CEO');
+      const { contact: ceoResult, creditsUsed: ceoCredits } = await this.findExecutiveByTitle(companyName, 'CEO');
+      result.searchDetails.creditsUsed += ceoCredits;
       if (ceoResult) {
         result.ceoEmail = ceoResult.email;
         result.ceoName = `${ceoResult.firstName} ${ceoResult.lastName}`.trim();
-        result.searchDetails.creditsUsed += 1;
         result.searchDetails.totalResultsFound += 1;
         console.log(`Found CEO: ${result.ceoName} (${result.ceoEmail})`);
       }
 
       // Try to find CMO
-      const cmoResult = await this.findExecutiveByTitle(companyName, 'CMO');
+      const { contact: cmoResult, creditsUsed: cmoCredits } = await this.findExecutiveByTitle(companyName, 'CMO');
+      result.searchDetails.creditsUsed += cmoCredits;
       if (cmoResult) {
         result.cmoEmail = cmoResult.email;
         result.cmoName = `${cmoResult.firstName} ${cmoResult.lastName}`.trim();
-        result.searchDetails.creditsUsed += 1;
         result.searchDetails.totalResultsFound += 1;
         console.log(`Found CMO: ${result.cmoName} (${result.cmoEmail})`);
       }
@@ -72,24 +83,78 @@ export class ApolloService {
     }
   }
 
-  private async findExecutiveByTitle(companyName: string, title: 'CEO' | 'CMO'): Promise<ApolloContact | null> {
+  // Only searches the requested roles, so roles another provider already
+  // filled don't cost credits
+  async findExecutives(query: ContactQuery): Promise<FoundContact[]> {
+    console.log(`Searching Apollo for ${query.roles.join(', ')} at: ${query.companyName}`);
+    const contacts: FoundContact[] = [];
+
+    for (const role of query.roles) {
+      const { contact: found } = await this.findExecutiveByTitle(query.companyName, role);
+      if (!found) continue;
+
+      contacts.push({
+        role,
+        name: `${found.firstName} ${found.lastName}`.trim(),
+        email: found.email,
+        title: found.title || role,
+        confidence: found.confidence,
+        emailSource: 'apollo',
+        sourceUrl: null
+      });
+      console.log(`Found ${role}: ${found.firstName} ${found.lastName} (${found.email})`);
+    }
+
+    return contacts;
+  }
+
+  // Cached answers (including "nobody found") cost nothing; a fresh lookup
+  // reserves a credit from the budget before the paid enrichment call and
+  // skips enrichment without caching anything once the budget is spent.
+  private async findExecutiveByTitle(companyName: string, title: 'CEO' | 'CMO'): Promise<{ contact: ApolloContact | null; creditsUsed: number }> {
+    const cached = await this.cache.get(companyName, title);
+    if (cached !== undefined) {
+      console.log(`Apollo cache hit for ${title} at ${companyName}: ${cached ? cached.email : 'not found'}`);
+      await this.usage.recordCacheHit();
+      return { contact: cached, creditsUsed: 0 };
+    }
+    await this.usage.recordCacheMiss();
+
     try {
       // Step 1: Search for people with the specified title at the company
       const searchResults = await this.searchPeopleByTitle(companyName, title);
       
       if (searchResults.length === 0) {
         console.log(`No ${title} found for ${companyName}`);
-        return null;
+        await this.cache.set(companyName, title, null);
+        return { contact: null, creditsUsed: 0 };
+      }
+
+      const reservedOn = await this.usage.reserveCredit();
+      if (!reservedOn) {
+        console.log(`Apollo credit budget exhausted; deferring ${title} enrichment for ${companyName}`);
+        return { contact: null, creditsUsed: 0 };
       }
 
       // Step 2: Enrich the first result to get email
       const topCandidate = searchResults[0];
-      const enrichedContact = await this.enrichPerson(topCandidate.firstName, topCandidate.lastName, companyName);
-      
-      return enrichedContact;
+      let enrichedContact: ApolloContact | null;
+      try {
+        enrichedContact = await this.enrichPerson(topCandidate.firstName, topCandidate.lastName, companyName);
+      } catch (error) {
+        await this.usage.releaseCredit(reservedOn);
+        throw error;
+      }
+
+      // Only revealed emails consume a credit
+      if (!enrichedContact) await this.usage.releaseCredit(reservedOn);
+      await this.cache.set(companyName, title, enrichedContact);
+
+      return { contact: enrichedContact, creditsUsed: enrichedContact ? 1 : 0 };
     } catch (error) {
+      // API failures are not cached so the next submission tries again
       console.error(`Error finding ${title} for ${companyName}:`, error);
-      return null;
+      return { contact: null, creditsUsed: 0 };
     }
   }
 
@@ -101,7 +166,7 @@ export class ApolloService {
 
       console.log(`Searching for ${titleQueries.join(' OR ')} at ${companyName}`);
 
-      const response = await axios.post(`${this.baseUrl}/mixed_people/search`, {
+      const response = await this.http.post(`${this.baseUrl}/mixed_people/search`, {
   q_organization_name: companyName,
   person_titles: titleQueries,
   page: 1,
@@ -131,7 +196,7 @@ export class ApolloService {
       return [];
     } catch (error) {
       console.error(`People search error for ${title}:`, error);
-      return [];
+      throw error;
     }
   }
 
@@ -140,7 +205,7 @@ export class ApolloService {
       console.log(`Enriching contact: ${firstName} ${lastName} at ${companyName}`);
 
       // Use People Enrichment endpoint to get email
-      const response = await axios.post(`${this.baseUrl}/people/match`, {
+      const response = await this.http.post(`${this.baseUrl}/people/match`, {
   first_name: firstName,
   last_name: lastName,
   organization_name: companyName,
@@ -184,7 +249,7 @@ export class ApolloService {
       } else {
         console.error('Enrichment error:', error);
       }
-      return null;
+      throw error;
     }
   }
 
@@ -206,7 +271,7 @@ export class ApolloService {
   async testConnection(): Promise<boolean> {
     try {
       // Simple test to verify API key works
-      const response = await axios.post(`${this.baseUrl}/people/match`, {
+      const response = await this.http.post(`${this.baseUrl}/people/match`, {
   first_name: 'Test',
   last_name: 'User',
   organization_name: 'Test Company'
@@ -0,0 +1,35 @@
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { DATA_DIR, readJsonFile, updateJsonFile } from './jsonFile';
+import { Batch, BatchEntry } from './types';
+
+export class BatchStore {
+  private filePath: string;
+
+  constructor(filePath?: string) {
+    this.filePath = filePath || process.env.BATCH_STORE_PATH || path.join(DATA_DIR, 'batches.json');
+  }
+
+  newId(): string {
+    return randomUUID();
+  }
+
+  async save(id: string, entries: BatchEntry[]): Promise<Batch> {
+    const batch: Batch = {
+      id,
+      createdAt: new Date().toISOString(),
+      entries
+    };
+
+    await updateJsonFile<Batch[]>(this.filePath, [], batches => {
+      batches.push(batch);
+    });
+
+    return batch;
+  }
+
+  async get(id: string): Promise<Batch | null> {
+    const batches = await readJsonFile<Batch[]>(this.filePath, []);
+    return batches.find(batch => batch.id === id) || null;
+  }
+}
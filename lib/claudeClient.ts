@@ -0,0 +1,67 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { HttpTransport, getHttpTransport } from './httpTransport';
+import { ObjectSchema, ParsedResponse, parseWithRepair } from './llmJson';
+
+const MODEL = 'claude-3-5-sonnet-20241022';
+
+// Thin wrapper over the Messages API shared by the release extractor and the
+// website contact lookup: single-prompt calls plus schema-checked JSON answers.
+export class ClaudeClient {
+  private anthropic: Anthropic;
+
+  constructor(transport: HttpTransport = getHttpTransport()) {
+    this.anthropic = new Anthropic({
+      apiKey: process.env.ANTHROPIC_API_KEY!,
+      fetch: transport.fetch,
+      // Retries and Retry-After handling happen in the transport's request policy
+      maxRetries: 0,
+    });
+  }
+
+  async ask(prompt: string, maxTokens: number): Promise<string> {
+    if (!process.env.ANTHROPIC_API_KEY) {
+      throw new Error('ANTHROPIC_API_KEY is not set');
+    }
+
+    const response = await this.anthropic.messages.create({
+      model: MODEL,
+      max_tokens: maxTokens,
+      messages: [{
+        role: 'user',
+        content: prompt
+      }]
+    });
+
+    return response.content[0].type === 'text' ? response.content[0].text : '';
+  }
+
+  // Asks for a JSON answer and validates it against the schema, with one
+  // repair round trip when validation fails
+  async askForJson<T>(prompt: string, schema: ObjectSchema, maxTokens: number): Promise<ParsedResponse<T>> {
+    const responseText = await this.ask(prompt, maxTokens);
+    console.log('Claude response:', responseText);
+
+    return parseWithRepair<T>(responseText, schema, errors => this.requestRepair(prompt, responseText, errors, maxTokens));
+  }
+
+  // Sends the invalid answer back with the validation errors so the model
+  // only has to fix what was wrong instead of starting over
+  private async requestRepair(prompt: string, responseText: string, errors: string[], maxTokens: number): Promise<string> {
+    const response = await this.anthropic.messages.create({
+      model: MODEL,
+      max_tokens: maxTokens,
+      messages: [
+        { role: 'user', content: prompt },
+        { role: 'assistant', content: responseText || '{}' },
+        {
+          role: 'user',
+          content: `Your response did not pass validation:\n${errors.map(error => `- ${error}`).join('\n')}\n\nRespond with ONLY the corrected JSON object, keeping every field that was already valid.`
+        }
+      ]
+    });
+
+    const repaired = response.content[0].type === 'text' ? response.content[0].text : '';
+    console.log('Claude repair response:', repaired);
+    return repaired;
+  }
+}
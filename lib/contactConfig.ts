@@ -0,0 +1,57 @@
+import path from 'path';
+import { DATA_DIR } from './jsonFile';
+import { ContactProvider, ContactProviderChain } from './contactProvider';
+import { ApolloService } from './apolloService';
+import { WebsiteContactProvider } from './websiteContactProvider';
+import { CsvContactProvider } from './csvContactProvider';
+import { ClaudeClient } from './claudeClient';
+import { HttpTransport, getHttpTransport } from './httpTransport';
+
+export type ContactProviderType = 'csv' | 'apollo' | 'website';
+
+export const CONTACT_PROVIDER_TYPES: ContactProviderType[] = ['csv', 'apollo', 'website'];
+
+// CONTACT_PROVIDERS is a comma-separated list in lookup order. The default
+// checks the free local list first, then Apollo, then the company website.
+export function getConfiguredContactProviderTypes(): ContactProviderType[] {
+  const configured = (process.env.CONTACT_PROVIDERS || 'csv,apollo,website')
+    .split(',')
+    .map(type => type.trim().toLowerCase())
+    .filter(Boolean);
+
+  const unknown = configured.filter(type => !CONTACT_PROVIDER_TYPES.includes(type as ContactProviderType));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown contact provider(s): ${unknown.join(', ')}. Expected: ${CONTACT_PROVIDER_TYPES.join(', ')}`);
+  }
+
+  return Array.from(new Set(configured)) as ContactProviderType[];
+}
+
+export function createContactProviderChain(
+  transport: HttpTransport = getHttpTransport(),
+  claude: ClaudeClient = new ClaudeClient(transport),
+  types: ContactProviderType[] = getConfiguredContactProviderTypes()
+): ContactProviderChain {
+  const providers: ContactProvider[] = [];
+
+  for (const type of types) {
+    switch (type) {
+      case 'csv':
+        providers.push(new CsvContactProvider(process.env.KNOWN_CONTACTS_PATH || path.join(DATA_DIR, 'known-contacts.csv')));
+        break;
+      case 'apollo':
+        // Without a key Apollo is skipped rather than failing every lookup
+        if (process.env.APOLLO_API_KEY) {
+          providers.push(new ApolloService(transport));
+        } else {
+          console.log('APOLLO_API_KEY is not set; skipping the Apollo contact provider');
+        }
+        break;
+      case 'website':
+        providers.push(new WebsiteContactProvider(transport.http, claude));
+        break;
+    }
+  }
+
+  return new ContactProviderChain(providers);
+}
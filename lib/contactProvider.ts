@@ -0,0 +1,80 @@
+import { ExecutiveContact, ExecutiveRole, FoundContact } from './types';
+import { findReleaseDomains, withAssessment } from './emailQuality';
+
+export interface ContactQuery {
+  companyName: string;
+  // Roles still needed; providers may skip work for anything else
+  roles: ExecutiveRole[];
+  // Outbound links and text of the press release, used to find the company domain
+  releaseLinks: string[];
+  releaseText: string;
+}
+
+// Anything that can look up executives for a company
+export interface ContactProvider {
+  readonly name: string;
+  findExecutives(query: ContactQuery): Promise<FoundContact[]>;
+}
+
+// Prefers addresses on the company's domain, then ones without other issues
+function rank(contact: ExecutiveContact): number {
+  return (contact.emailStatus === 'mismatched-domain' ? 0 : 2) + (contact.emailIssues.length === 0 ? 1 : 0);
+}
+
+// Tries providers in order. Each role is filled by the first provider that
+// returns a usable contact for it (the most confident one if it returns
+// several), and the chain stops as soon as every requested role is filled.
+// Every email is assessed against the company domain found in the release;
+// invalid addresses are dropped and clean ones win over flagged ones. An
+// address on another domain doesn't fill the role: later providers are still
+// asked, and it is only used if none of them finds one on the company domain.
+export class ContactProviderChain {
+  private providers: ContactProvider[];
+
+  constructor(providers: ContactProvider[]) {
+    this.providers = providers;
+  }
+
+  getProviderNames(): string[] {
+    return this.providers.map(provider => provider.name);
+  }
+
+  async findExecutives(query: Omit<ContactQuery, 'roles'>, roles: ExecutiveRole[] = ['CEO', 'CMO']): Promise<ExecutiveContact[]> {
+    const found = new Map<ExecutiveRole, ExecutiveContact>();
+    const mismatched = new Map<ExecutiveRole, ExecutiveContact>();
+    const companyDomain = findReleaseDomains(query.companyName, query.releaseLinks, query.releaseText)[0] || null;
+
+    for (const provider of this.providers) {
+      const missing = roles.filter(role => !found.has(role));
+      if (missing.length === 0) break;
+
+      let contacts: ExecutiveContact[];
+      try {
+        contacts = (await provider.findExecutives({ ...query, roles: missing }))
+          .filter(contact => contact.email)
+          .map(contact => withAssessment(contact, companyDomain));
+      } catch (error) {
+        console.error(`Contact provider ${provider.name} failed:`, error);
+        continue;
+      }
+
+      for (const role of missing) {
+        const best = contacts
+          .filter(contact => contact.role === role && contact.emailStatus !== 'invalid')
+          .sort((a, b) => rank(b) - rank(a) || b.confidence - a.confidence)[0];
+        if (!best) continue;
+        if (best.emailStatus !== 'mismatched-domain') {
+          found.set(role, best);
+        } else if (!mismatched.has(role)) {
+          mismatched.set(role, best);
+        }
+      }
+
+      console.log(`Contact provider ${provider.name} filled: ${missing.filter(role => found.has(role)).join(', ') || 'nothing'}`);
+    }
+
+    return roles
+      .map(role => found.get(role) || mismatched.get(role))
+      .filter((contact): contact is ExecutiveContact => !!contact);
+  }
+}
@@ -0,0 +1,93 @@
+import { promises as fs } from 'fs';
+import { ExecutiveRole, FoundContact } from './types';
+import { ContactProvider, ContactQuery } from './contactProvider';
+import { normalizeCompanyName } from './dedup';
+import { splitCsvRow } from './urlUtils';
+
+interface KnownContact {
+  company: string;
+  domain: string;
+  role: ExecutiveRole;
+  name: string;
+  title: string;
+  email: string;
+}
+
+const REQUIRED_COLUMNS = ['company', 'role', 'email'];
+
+// Hand-maintained contacts, e.g. from past outreach. Expects a header row with
+// company, role (CEO or CMO) and email columns; domain, name and title are
+// optional. The file is re-read on every lookup so edits apply immediately.
+export class CsvContactProvider implements ContactProvider {
+  readonly name = 'csv';
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async findExecutives(query: ContactQuery): Promise<FoundContact[]> {
+    const contacts = await this.load();
+    if (contacts.length === 0) return [];
+
+    const company = normalizeCompanyName(query.companyName);
+    const releaseHosts = new Set(query.releaseLinks.map(link => {
+      try {
+        return new URL(link).hostname.toLowerCase().replace(/^www\./, '');
+      } catch {
+        return '';
+      }
+    }));
+
+    return contacts
+      .filter(contact => query.roles.includes(contact.role))
+      .filter(contact => normalizeCompanyName(contact.company) === company || (contact.domain && releaseHosts.has(contact.domain)))
+      .map(contact => ({
+        role: contact.role,
+        name: contact.name,
+        email: contact.email,
+        title: contact.title || contact.role,
+        confidence: 95,
+        emailSource: 'csv' as const,
+        sourceUrl: null
+      }));
+  }
+
+  private async load(): Promise<KnownContact[]> {
+    let csv: string;
+    try {
+      csv = await fs.readFile(this.filePath, 'utf8');
+    } catch (error: any) {
+      if (error && error.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const [headerRow, ...rows] = csv.split(/\r?\n/).filter(row => row.trim());
+    if (!headerRow) return [];
+
+    const header = splitCsvRow(headerRow).map(cell => cell.toLowerCase());
+    const missing = REQUIRED_COLUMNS.filter(column => !header.includes(column));
+    if (missing.length > 0) {
+      throw new Error(`Known contacts file ${this.filePath} is missing column(s): ${missing.join(', ')}`);
+    }
+
+    const contacts: KnownContact[] = [];
+    for (const row of rows) {
+      const cells = splitCsvRow(row);
+      const cell = (column: string) => cells[header.indexOf(column)] || '';
+      const role = cell('role').toUpperCase();
+      if ((role !== 'CEO' && role !== 'CMO') || !cell('email')) continue;
+
+      contacts.push({
+        company: cell('company'),
+        domain: cell('domain').toLowerCase().replace(/^www\./, ''),
+        role,
+        name: cell('name'),
+        title: cell('title'),
+        email: cell('email')
+      });
+    }
+
+    return contacts;
+  }
+}
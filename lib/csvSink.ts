@@ -0,0 +1,87 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { PRData } from './types';
+import { ResultSink, SinkContext, RESULT_COLUMNS, toResultRow } from './resultSink';
+import { RollupStore, rollupValues } from './rollups';
+
+// results.csv -> results-investors.csv
+export function rollupCsvPath(filePath: string, name: string): string {
+  const extension = path.extname(filePath);
+  return path.join(path.dirname(filePath), `${path.basename(filePath, extension)}-${name}${extension || '.csv'}`);
+}
+
+export class CsvSink implements ResultSink {
+  readonly name = 'csv';
+  readonly upserts = false;
+  private filePath: string;
+  private pending: Promise<unknown> = Promise.resolve();
+  private initialized = false;
+  private rollups = new RollupStore();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async initialize(): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    const header = RESULT_COLUMNS.join(',');
+    let existing: string;
+    try {
+      existing = await fs.readFile(this.filePath, 'utf8');
+    } catch {
+      await fs.writeFile(this.filePath, header + '\n', 'utf8');
+      return;
+    }
+
+    // Columns are only ever appended, so an older file just needs a new header line
+    const newline = existing.indexOf('\n');
+    const currentHeader = newline === -1 ? existing : existing.substring(0, newline);
+    if (currentHeader !== header) {
+      await fs.writeFile(this.filePath, header + (newline === -1 ? '\n' : existing.substring(newline)), 'utf8');
+    }
+  }
+
+  async write(data: PRData, context: SinkContext): Promise<void> {
+    const row = toResultRow(data, context);
+    const line = RESULT_COLUMNS.map(column => escapeCsv(String(row[column]))).join(',') + '\n';
+
+    // Serialize appends so rows from concurrent jobs never interleave
+    await this.serialize(async () => {
+      if (!this.initialized) {
+        await this.initialize();
+        this.initialized = true;
+      }
+      await fs.appendFile(this.filePath, line, 'utf8');
+      await this.writeRollups(data, context);
+    });
+  }
+
+  async refresh(data: PRData, context: SinkContext): Promise<void> {
+    await this.serialize(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await this.writeRollups(data, context);
+    });
+  }
+
+  private async serialize(task: () => Promise<void>): Promise<void> {
+    const next = this.pending.catch(() => undefined).then(task);
+    this.pending = next;
+    await next;
+  }
+
+  // Roll-ups are rebuilt in full next to the results file
+  private async writeRollups(data: PRData, context: SinkContext): Promise<void> {
+    for (const table of await this.rollups.record(data, context)) {
+      const csv = rollupValues(table, 'key').map(values => values.map(value => escapeCsv(String(value))).join(',')).join('\n');
+      await fs.writeFile(rollupCsvPath(this.filePath, table.name), csv + '\n', 'utf8');
+    }
+  }
+}
+
+function escapeCsv(value: string): string {
+  if (/[",\r\n]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
@@ -0,0 +1,376 @@
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { DATA_DIR, readJsonFile, updateJsonFile } from './jsonFile';
+import { parseMoney } from './money';
+import { DealRecord, DedupAction, DedupResult, ExecutiveRole, PRData } from './types';
+
+// Query parameters that only identify where a click came from. Generic names
+// such as "source" or "ref" are left alone: some sites route articles by them.
+const TRACKING_PARAMS = [
+  /^utm_/i,
+  /^mc_/i,
+  /^(fbclid|gclid|dclid|msclkid|yclid|_hsenc|_hsmi|mkt_tok|igshid)$/i
+];
+
+// "?amp" / "?amp=1" or "?outputType=amp", which some publishers use to
+// request the AMP rendering of a page
+function isAmpParam(key: string, value: string): boolean {
+  return /^amp$/i.test(key) || (/^(outputtype|output)$/i.test(key) && /^amp$/i.test(value));
+}
+
+export function canonicalizeUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return url.trim();
+  }
+
+  parsed.hash = '';
+  parsed.protocol = 'https:';
+
+  let host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+  // amp.example.com and example-com.cdn.ampproject.org both serve AMP copies
+  if (host.endsWith('.cdn.ampproject.org')) {
+    const [first, ...rest] = parsed.pathname.split('/').filter(Boolean);
+    const offset = first === 'c' || first === 'v' ? (rest[0] === 's' ? 2 : 1) : 0;
+    const segments = [first, ...rest].slice(offset);
+    host = (segments.shift() || host).replace(/^www\./, '');
+    parsed.pathname = '/' + segments.join('/');
+  }
+  host = host.replace(/^amp\./, '');
+  parsed.hostname = host;
+  parsed.port = '';
+
+  // Trailing /amp, /amp/ and .amp.html variants of the article path; an /amp/
+  // segment in the middle can be part of a real path
+  let pathname = parsed.pathname
+    .replace(/\/amp\/?$/i, '')
+    .replace(/\.amp(\.html?)?$/i, '$1');
+  pathname = pathname.replace(/\/+$/, '') || '/';
+  parsed.pathname = pathname;
+
+  const kept = Array.from(parsed.searchParams.entries())
+    .filter(([key, value]) => !TRACKING_PARAMS.some(pattern => pattern.test(key)) && !isAmpParam(key, value))
+    .sort(([a], [b]) => a.localeCompare(b));
+  parsed.search = '';
+  for (const [key, value] of kept) {
+    parsed.searchParams.append(key, value);
+  }
+
+  return parsed.toString();
+}
+
+const COMPANY_SUFFIXES = /\b(inc|incorporated|corp|corporation|co|company|ltd|limited|llc|plc|gmbh|ag|sa|sas|bv|pte|pvt|technologies|technology)\b/g;
+
+export function normalizeCompanyName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(COMPANY_SUFFIXES, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function normalizeInvestorName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\b(the|llc|lp|ltd|inc|management|partners|capital|ventures|fund)\b/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Identifies one investor firm: punctuation and legal suffixes are dropped,
+// but Capital, Ventures, Partners and the like stay, since "Index Capital"
+// and "Index Ventures" are different firms. normalizeInvestorName is looser
+// and only meant for matching deals.
+export function investorKey(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/\./g, '')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\b(the|llc|lp|llp|ltd|inc)\b/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// "$150M", "$150 million" and "USD 150,000,000" all normalize to "150000000USD"
+export function normalizeAmount(amount: string): string {
+  const money = parseMoney(amount, { defaultCurrency: 'USD' });
+  return money ? `${Math.round(money.amount)}${money.currency}` : '';
+}
+
+function isKnown(value: string): boolean {
+  return !!value && !['NOT FOUND', 'EMAIL NOT FOUND', 'EXTRACTION FAILED', 'UNKNOWN'].includes(value.toUpperCase());
+}
+
+// Acquisitions and fund closes get their own key space ("acquisition:<target>",
+// "fund:<firm>") so they never match a funding round of the same company
+export function dealFingerprint(data: Pick<PRData, 'companyName' | 'amountRaised' | 'leadInvestor' | 'acquisition' | 'fundClose'>): string {
+  if (data.acquisition) {
+    const { target, acquirer, dealValue } = data.acquisition;
+    return [
+      `acquisition:${normalizeCompanyName(target)}`,
+      dealValue ? normalizeAmount(dealValue.display) : '',
+      isKnown(acquirer) ? normalizeCompanyName(acquirer) : ''
+    ].join('|');
+  }
+  if (data.fundClose) {
+    const { firmName, fundName, fundSize } = data.fundClose;
+    return [
+      `fund:${normalizeInvestorName(firmName)}`,
+      fundSize ? normalizeAmount(fundSize.display) : '',
+      isKnown(fundName) ? normalizeInvestorName(fundName) : ''
+    ].join('|');
+  }
+
+  return [
+    normalizeCompanyName(data.companyName),
+    isKnown(data.amountRaised) ? normalizeAmount(data.amountRaised) : '',
+    isKnown(data.leadInvestor) ? normalizeInvestorName(data.leadInvestor) : ''
+  ].join('|');
+}
+
+function sameCompany(a: string, b: string): boolean {
+  return a.split('|')[0] === b.split('|')[0];
+}
+
+// Two extractions describe the same deal when the company matches and every
+// field known on both sides (amount, lead investor) agrees - with at least one
+// of them known, so a bare company name never merges two different rounds.
+function isSameDeal(a: string, b: string): boolean {
+  const [companyA, amountA, leadA] = a.split('|');
+  const [companyB, amountB, leadB] = b.split('|');
+
+  if (!companyA || companyA !== companyB) return false;
+
+  let compared = 0;
+  if (amountA && amountB) {
+    if (amountA !== amountB) return false;
+    compared++;
+  }
+  if (leadA && leadB) {
+    if (leadA !== leadB) return false;
+    compared++;
+  }
+
+  return compared > 0;
+}
+
+export function getDedupAction(): DedupAction {
+  const action = (process.env.DEDUP_ACTION || 'merge').toLowerCase();
+  if (action === 'skip' || action === 'merge' || action === 'link') {
+    return action;
+  }
+  throw new Error(`Invalid DEDUP_ACTION "${action}". Expected one of: skip, merge, link`);
+}
+
+export class DealRegistry {
+  private filePath: string;
+  private windowMs: number;
+
+  constructor(filePath?: string) {
+    this.filePath = filePath || process.env.DEAL_REGISTRY_PATH || path.join(DATA_DIR, 'deals.json');
+    this.windowMs = (parseInt(process.env.DEDUP_WINDOW_DAYS || '', 10) || 30) * 24 * 60 * 60 * 1000;
+  }
+
+  // Announcement dates are compared when both releases have one; otherwise
+  // fall back to when the existing deal was last seen.
+  private withinWindow(record: DealRecord, data: PRData, now: Date): boolean {
+    const existingDate = record.data.announcementDate;
+    if (existingDate && data.announcementDate) {
+      return Math.abs(new Date(existingDate).getTime() - new Date(data.announcementDate).getTime()) <= this.windowMs;
+    }
+    return now.getTime() - new Date(record.lastSeenAt).getTime() <= this.windowMs;
+  }
+
+  // Usually one deal; roundup articles have one per company
+  async findAllByUrl(url: string): Promise<DealRecord[]> {
+    const canonicalUrl = canonicalizeUrl(url);
+    const records = await readJsonFile<DealRecord[]>(this.filePath, []);
+    return records.filter(record => record.canonicalUrls.includes(canonicalUrl));
+  }
+
+  async get(id: string): Promise<DealRecord | null> {
+    const records = await readJsonFile<DealRecord[]>(this.filePath, []);
+    return records.find(record => record.id === id) || null;
+  }
+
+  async remove(id: string): Promise<void> {
+    await updateJsonFile<DealRecord[]>(this.filePath, [], records => {
+      const index = records.findIndex(record => record.id === id);
+      if (index !== -1) records.splice(index, 1);
+    });
+  }
+
+  // Checks the new extraction against known deals and records the outcome in
+  // one atomic update, so two sources of the same round processed at the
+  // same time can't both be treated as new. With `reprocess`, a source URL
+  // that was seen before replaces that deal's data and fingerprint instead
+  // of being skipped.
+  // With `sharedUrl` the article reports several deals, so a record from the
+  // same URL is only this deal if the company matches too.
+  async resolve(
+    data: PRData,
+    sourceUrl: string,
+    jobId: string,
+    options: { action?: DedupAction; reprocess?: boolean; sharedUrl?: boolean } = {}
+  ): Promise<{ result: DedupResult; record: DealRecord }> {
+    const action = options.action || getDedupAction();
+    const canonicalUrl = canonicalizeUrl(sourceUrl);
+    const fingerprint = dealFingerprint(data);
+    const now = new Date();
+
+    return updateJsonFile<DealRecord[], { result: DedupResult; record: DealRecord }>(this.filePath, [], records => {
+      const byUrl = records.find(record =>
+        record.canonicalUrls.includes(canonicalUrl) &&
+        (!options.sharedUrl || sameCompany(record.fingerprint, fingerprint))
+      );
+      const byDeal = byUrl || records.find(record =>
+        this.withinWindow(record, data, now) &&
+        isSameDeal(record.fingerprint, fingerprint)
+      );
+
+      if (!byDeal) {
+        const record: DealRecord = {
+          id: randomUUID(),
+          fingerprint,
+          canonicalUrls: [canonicalUrl],
+          sourceUrls: [sourceUrl],
+          jobIds: [jobId],
+          data: copyDealData(data),
+          firstSeenAt: now.toISOString(),
+          lastSeenAt: now.toISOString()
+        };
+        records.push(record);
+
+        return {
+          record,
+          result: { decision: 'new', canonicalUrl, fingerprint, dealId: record.id, reason: 'No matching deal found' }
+        };
+      }
+
+      const reason = byUrl
+        ? 'Same source URL already processed'
+        : `Matches deal from ${byDeal.sourceUrls[0]}`;
+
+      // The new extraction replaces the old one outright, so a corrected
+      // release can drop investors or amounts the first pass got wrong
+      if (byUrl && options.reprocess) {
+        if (byUrl.fingerprint !== fingerprint) {
+          byUrl.dealKey = byUrl.dealKey || byUrl.fingerprint;
+          byUrl.fingerprint = fingerprint;
+        }
+        byUrl.data = copyDealData(data);
+        byUrl.jobIds.push(jobId);
+        byUrl.lastSeenAt = now.toISOString();
+
+        return {
+          record: byUrl,
+          result: { decision: 'updated', canonicalUrl, fingerprint, dealId: byUrl.id, reason: 'Source URL re-processed' }
+        };
+      }
+
+      if (action === 'skip' || byUrl) {
+        return {
+          record: byDeal,
+          result: { decision: 'skipped', canonicalUrl, fingerprint, dealId: byDeal.id, reason }
+        };
+      }
+
+      byDeal.canonicalUrls.push(canonicalUrl);
+      byDeal.sourceUrls.push(sourceUrl);
+      byDeal.jobIds.push(jobId);
+      byDeal.lastSeenAt = now.toISOString();
+
+      if (action === 'link') {
+        return {
+          record: byDeal,
+          result: { decision: 'linked', canonicalUrl, fingerprint, dealId: byDeal.id, reason }
+        };
+      }
+
+      const added = mergeDealData(byDeal.data, data);
+      return {
+        record: byDeal,
+        result: {
+          decision: 'merged',
+          canonicalUrl,
+          fingerprint,
+          dealId: byDeal.id,
+          reason: added.length > 0 ? `${reason}; added investors: ${added.join(', ')}` : reason
+        }
+      };
+    });
+  }
+}
+
+// Replaces the existing record's contact for the role with the incoming one
+function adoptExecutive(existing: PRData, incoming: PRData, role: ExecutiveRole): void {
+  existing.executives = [
+    ...existing.executives.filter(contact => contact.role !== role),
+    ...(incoming.executives || []).filter(contact => contact.role === role)
+  ];
+}
+
+function copyDealData(data: PRData): PRData {
+  return { ...data, followOnInvestors: [...data.followOnInvestors], investors: [...(data.investors || [])] };
+}
+
+// Folds the incoming investors into the existing record and fills in fields
+// the existing record doesn't have. Returns the investors that were added.
+function mergeDealData(existing: PRData, incoming: PRData): string[] {
+  const known = new Set([existing.leadInvestor, ...existing.followOnInvestors].filter(isKnown).map(investorKey));
+  const added: string[] = [];
+
+  if (!isKnown(existing.leadInvestor) && isKnown(incoming.leadInvestor)) {
+    existing.leadInvestor = incoming.leadInvestor;
+    known.add(investorKey(incoming.leadInvestor));
+    added.push(incoming.leadInvestor);
+  }
+
+  for (const investor of [incoming.leadInvestor, ...incoming.followOnInvestors]) {
+    if (!isKnown(investor)) continue;
+    const key = investorKey(investor);
+    if (known.has(key)) continue;
+    known.add(key);
+    existing.followOnInvestors.push(investor);
+    added.push(investor);
+  }
+
+  // Deals stored before investors were resolved have no list
+  existing.investors = existing.investors || [];
+  const knownIds = new Set(existing.investors.map(investor => investor.id));
+  for (const investor of incoming.investors || []) {
+    if (knownIds.has(investor.id)) continue;
+    knownIds.add(investor.id);
+    existing.investors.push({ ...investor, role: investor.name === existing.leadInvestor ? 'lead' : 'follow-on' });
+  }
+
+  if (!isKnown(existing.amountRaised) && isKnown(incoming.amountRaised)) {
+    existing.amountRaised = incoming.amountRaised;
+    existing.amount = incoming.amount;
+    existing.amountUsd = incoming.amountUsd;
+  }
+  // Deals stored before executives were tracked have no list
+  existing.executives = existing.executives || [];
+  if (!isKnown(existing.ceoEmail) && isKnown(incoming.ceoEmail)) {
+    existing.ceoEmail = incoming.ceoEmail;
+    adoptExecutive(existing, incoming, 'CEO');
+  }
+  if (!isKnown(existing.cmoEmail) && isKnown(incoming.cmoEmail)) {
+    existing.cmoEmail = incoming.cmoEmail;
+    adoptExecutive(existing, incoming, 'CMO');
+  }
+  if (existing.roundType === 'Unknown') existing.roundType = incoming.roundType;
+  if (!existing.announcementDate) existing.announcementDate = incoming.announcementDate;
+  if (!existing.postMoneyValuation) existing.postMoneyValuation = incoming.postMoneyValuation;
+  if (!isKnown(existing.headquarters)) existing.headquarters = incoming.headquarters;
+  if (!isKnown(existing.useOfFunds)) existing.useOfFunds = incoming.useOfFunds;
+
+  return added;
+}
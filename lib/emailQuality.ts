@@ -0,0 +1,109 @@
+import { EmailStatus, ExecutiveContact, FoundContact } from './types';
+import { normalizeCompanyName } from './dedup';
+
+const EMAIL_PATTERN = /^[a-z0-9!#$%&'*+/=?^_`{|}~-]+(\.[a-z0-9!#$%&'*+/=?^_`{|}~-]+)*@([a-z0-9]([a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,}$/i;
+
+// Shared inboxes that never belong to a single executive
+const ROLE_MAILBOXES = [
+  'info', 'contact', 'hello', 'hi', 'press', 'pr', 'media', 'news', 'marketing', 'sales',
+  'support', 'help', 'admin', 'office', 'team', 'careers', 'jobs', 'hr', 'investors', 'ir',
+  'partners', 'enquiries', 'inquiries', 'general', 'webmaster', 'noreply', 'no-reply'
+];
+
+const FREE_MAIL_DOMAINS = [
+  'gmail.com', 'googlemail.com', 'yahoo.com', 'ymail.com', 'hotmail.com', 'outlook.com', 'live.com',
+  'msn.com', 'aol.com', 'icloud.com', 'me.com', 'mac.com', 'protonmail.com', 'proton.me',
+  'gmx.com', 'gmx.net', 'mail.com', 'yandex.com', 'zoho.com', 'qq.com', '163.com'
+];
+
+// Sources that vouch for the address; website emails were only seen on a page
+const PROVIDER_SOURCES = ['apollo', 'csv'];
+
+export function isFreeMailDomain(domain: string): boolean {
+  return FREE_MAIL_DOMAINS.includes(domain.toLowerCase());
+}
+
+export interface EmailAssessment {
+  status: EmailStatus;
+  // Problems worth a second look even when the status is fine
+  issues: string[];
+}
+
+// Domains linked from the release (or used in its email addresses) that
+// resemble the company name, best match first
+export function findReleaseDomains(companyName: string, releaseLinks: string[], releaseText: string): string[] {
+  const nameKey = normalizeCompanyName(companyName).replace(/\s+/g, '');
+  const firstWord = normalizeCompanyName(companyName).split(' ')[0] || '';
+
+  const score = (domain: string): number => {
+    const label = domain.split('.')[0].replace(/-/g, '');
+    if (!nameKey || !label) return 0;
+    if (label === nameKey) return 3;
+    if (label.length >= 4 && (nameKey.includes(label) || label.includes(nameKey))) return 2;
+    if (firstWord.length >= 3 && label.startsWith(firstWord)) return 1;
+    return 0;
+  };
+
+  const emailDomains = (releaseText.match(/[\w.+-]+@([a-z0-9-]+(?:\.[a-z0-9-]+)+)/gi) || [])
+    .map(email => email.split('@')[1].toLowerCase());
+  const linkDomains = releaseLinks.map(link => {
+    try {
+      return new URL(link).hostname.toLowerCase().replace(/^www\./, '');
+    } catch {
+      return '';
+    }
+  });
+
+  const domains = [...linkDomains, ...emailDomains]
+    .filter(domain => domain && score(domain) > 0)
+    .sort((a, b) => score(b) - score(a));
+
+  return Array.from(new Set(domains));
+}
+
+// Same site if either domain is the other or a subdomain of it
+// (jane@eu.acme.com for acme.com)
+function sameSite(emailDomain: string, companyDomain: string): boolean {
+  return emailDomain === companyDomain ||
+    emailDomain.endsWith(`.${companyDomain}`) ||
+    companyDomain.endsWith(`.${emailDomain}`);
+}
+
+// Checks an executive email's syntax, mailbox and domain. A syntactically
+// broken address is 'invalid'; one on a different domain than the company's
+// website is 'mismatched-domain'; otherwise the status says whether a
+// provider saw the address, it was found on the company site or it was built
+// from a name pattern.
+export function assessEmail(contact: FoundContact, companyDomain: string | null): EmailAssessment {
+  const email = contact.email.trim().toLowerCase();
+  if (!EMAIL_PATTERN.test(email)) {
+    return { status: 'invalid', issues: ['not a valid email address'] };
+  }
+
+  const [mailbox, domain] = email.split('@');
+  const issues: string[] = [];
+
+  if (ROLE_MAILBOXES.includes(mailbox.replace(/[._-]?\d+$/, ''))) {
+    issues.push(`role address (${mailbox}@)`);
+  }
+  if (isFreeMailDomain(domain)) {
+    issues.push(`free-mail domain (${domain})`);
+  }
+
+  const normalizedCompanyDomain = companyDomain ? companyDomain.toLowerCase().replace(/^www\./, '') : null;
+  if (normalizedCompanyDomain && !sameSite(domain, normalizedCompanyDomain)) {
+    issues.push(`domain does not match ${normalizedCompanyDomain}`);
+    return { status: 'mismatched-domain', issues };
+  }
+
+  let status: EmailStatus = 'pattern-guessed';
+  if (PROVIDER_SOURCES.includes(contact.emailSource)) status = 'verified-by-provider';
+  else if (contact.emailSource === 'website') status = 'found-on-site';
+
+  return { status, issues };
+}
+
+export function withAssessment(contact: FoundContact, companyDomain: string | null): ExecutiveContact {
+  const { status, issues } = assessEmail(contact, companyDomain);
+  return { ...contact, emailStatus: status, emailIssues: issues };
+}
@@ -0,0 +1,139 @@
+// Minimal MIME reader for press releases that arrive as .eml files: headers,
+// nested multipart bodies, base64 and quoted-printable transfer encodings and
+// RFC 2047 encoded-word headers. Attachments are ignored.
+
+export interface ParsedEmail {
+  subject: string;
+  from: string;
+  // ISO timestamp from the Date header, if it parses
+  date: string | null;
+  messageId: string;
+  html: string | null;
+  text: string | null;
+}
+
+interface MimePart {
+  headers: Map<string, string>;
+  body: string;
+}
+
+function splitHeaders(raw: string): MimePart {
+  const normalized = raw.replace(/\r\n/g, '\n');
+  const end = normalized.indexOf('\n\n');
+  const headerBlock = end === -1 ? normalized : normalized.substring(0, end);
+  const body = end === -1 ? '' : normalized.substring(end + 2);
+
+  const headers = new Map<string, string>();
+  // Folded header lines start with whitespace and continue the previous one
+  for (const line of headerBlock.replace(/\n[ \t]+/g, ' ').split('\n')) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    const name = line.substring(0, colon).trim().toLowerCase();
+    if (!headers.has(name)) headers.set(name, line.substring(colon + 1).trim());
+  }
+
+  return { headers, body };
+}
+
+// 'multipart/alternative; boundary="abc"' -> { value: 'multipart/alternative', params: { boundary: 'abc' } }
+function parseHeaderValue(value: string): { value: string; params: Record<string, string> } {
+  const [first, ...rest] = value.split(';');
+  const params: Record<string, string> = {};
+  for (const param of rest) {
+    const match = param.match(/^\s*([\w-]+)\s*=\s*"?([^"]*)"?\s*$/);
+    if (match) params[match[1].toLowerCase()] = match[2];
+  }
+  return { value: first.trim().toLowerCase(), params };
+}
+
+function decodeBytes(bytes: Buffer, charset: string): string {
+  const normalized = charset.toLowerCase().replace(/^(us-ascii|ascii)$/, 'utf-8');
+  try {
+    return new TextDecoder(normalized).decode(bytes);
+  } catch {
+    return bytes.toString('latin1');
+  }
+}
+
+function decodeQuotedPrintable(text: string): Buffer {
+  const unwrapped = text.replace(/=\r?\n/g, '');
+  const bytes: number[] = [];
+  for (let i = 0; i < unwrapped.length; i++) {
+    const hex = unwrapped.substring(i + 1, i + 3);
+    if (unwrapped[i] === '=' && /^[0-9a-f]{2}$/i.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      // Unencoded characters should be ASCII, but keep anything else intact
+      bytes.push(...Array.from(Buffer.from(unwrapped[i], 'utf8')));
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function decodeBody(part: MimePart): string {
+  const encoding = (part.headers.get('content-transfer-encoding') || '7bit').toLowerCase();
+  const charset = parseHeaderValue(part.headers.get('content-type') || '').params.charset || 'utf-8';
+
+  if (encoding === 'base64') {
+    return decodeBytes(Buffer.from(part.body.replace(/\s+/g, ''), 'base64'), charset);
+  }
+  if (encoding === 'quoted-printable') {
+    return decodeBytes(decodeQuotedPrintable(part.body), charset);
+  }
+  return part.body;
+}
+
+// "=?UTF-8?B?...?=" and "=?iso-8859-1?Q?...?=" words in headers
+export function decodeEncodedWords(value: string): string {
+  return value
+    .replace(/\?=\s+=\?/g, '?==?')
+    .replace(/=\?([^?]+)\?([bq])\?([^?]*)\?=/gi, (_, charset: string, encoding: string, encoded: string) => {
+      const bytes = encoding.toLowerCase() === 'b'
+        ? Buffer.from(encoded, 'base64')
+        : decodeQuotedPrintable(encoded.replace(/_/g, ' '));
+      return decodeBytes(bytes, charset);
+    });
+}
+
+// Depth-first list of the leaf parts, skipping attachments
+function leafParts(part: MimePart): MimePart[] {
+  const contentType = parseHeaderValue(part.headers.get('content-type') || 'text/plain');
+  const disposition = parseHeaderValue(part.headers.get('content-disposition') || '').value;
+  if (disposition === 'attachment') return [];
+
+  if (contentType.value.startsWith('multipart/') && contentType.params.boundary) {
+    const delimiter = `--${contentType.params.boundary}`;
+    return part.body
+      .split(delimiter)
+      .slice(1)
+      .filter(section => !section.startsWith('--'))
+      .flatMap(section => leafParts(splitHeaders(section.replace(/^\r?\n/, ''))));
+  }
+
+  if (contentType.value === 'message/rfc822') {
+    return leafParts(splitHeaders(part.body));
+  }
+
+  return [part];
+}
+
+export function parseEml(raw: string): ParsedEmail {
+  const message = splitHeaders(raw);
+  const parts = leafParts(message);
+  const typeOf = (part: MimePart) => parseHeaderValue(part.headers.get('content-type') || 'text/plain').value;
+
+  const html = parts.find(part => typeOf(part) === 'text/html');
+  const text = parts.find(part => typeOf(part) === 'text/plain');
+  const date = message.headers.get('date');
+  const parsedDate = date ? new Date(date) : null;
+
+  return {
+    subject: decodeEncodedWords(message.headers.get('subject') || ''),
+    from: decodeEncodedWords(message.headers.get('from') || ''),
+    date: parsedDate && !isNaN(parsedDate.getTime()) ? parsedDate.toISOString() : null,
+    messageId: (message.headers.get('message-id') || '').replace(/^<|>$/g, ''),
+    html: html ? decodeBody(html) : null,
+    text: text ? decodeBody(text) : null
+  };
+}
@@ -0,0 +1,127 @@
+import { ObjectSchema } from './llmJson';
+import { parseMoney } from './money';
+import { ROUND_TYPES } from './rounds';
+import { Taxonomy, categoryIds } from './taxonomy';
+import { ANNOUNCEMENT_TYPES } from './announcementType';
+
+const NOT_FOUND = 'NOT FOUND';
+
+// "$150M", "€40M", "₹250 crore", "CHF 8.5M" - a currency marker is required
+// so a bare number can't be mistaken for dollars
+function checkMoney(value: string): string | null {
+  if (value === NOT_FOUND) return null;
+  if (value.length > 30 || !parseMoney(value)) {
+    return `must be a money amount with a currency such as "$150M", "€40M" or "CHF 8.5M", or "${NOT_FOUND}" (got "${value}")`;
+  }
+  return null;
+}
+
+function checkDate(value: string): string | null {
+  if (value === NOT_FOUND || /^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  return `must be a YYYY-MM-DD date or "${NOT_FOUND}" (got "${value}")`;
+}
+
+function checkEmail(value: string): string | null {
+  return /^[^\s@]+@[^\s@]+\.[a-z]{2,}$/i.test(value) ? null : `must be an email address or null (got "${value}")`;
+}
+
+// { "<category id>": 0-100, ... } using only IDs from the taxonomy
+function checkCategoryScores(ids: string[]) {
+  return (value: Record<string, unknown>): string | null => {
+    const unknown = Object.keys(value).filter(id => !ids.includes(id));
+    if (unknown.length > 0) {
+      return `has unknown category IDs: ${unknown.join(', ')} (expected: ${ids.join(', ')})`;
+    }
+    const invalid = Object.entries(value).filter(([, score]) => typeof score !== 'number' || score < 0 || score > 100);
+    if (invalid.length > 0) {
+      return `scores must be numbers from 0 to 100 (got ${invalid.map(([id, score]) => `${id}: ${JSON.stringify(score)}`).join(', ')})`;
+    }
+    return null;
+  };
+}
+
+// Fields of one funding round in the extraction prompts' answers. Categories
+// come from the configured taxonomy, so the schema is built per taxonomy.
+export function dealSchema(taxonomy: Taxonomy): ObjectSchema {
+  const ids = categoryIds(taxonomy);
+  return {
+    companyName: { type: 'string' },
+    leadInvestor: { type: 'string' },
+    followOnInvestors: { type: 'string[]' },
+    amountRaised: { type: 'string', check: checkMoney },
+    roundType: { type: 'string', enum: ROUND_TYPES },
+    announcementDate: { type: 'string', check: checkDate },
+    postMoneyValuation: { type: 'string', check: checkMoney },
+    headquarters: { type: 'string' },
+    useOfFunds: { type: 'string' },
+    primaryCategory: { type: 'string', enum: ids },
+    categoryScores: { type: 'object', check: checkCategoryScores(ids) },
+    isScam: { type: 'boolean' },
+    confidence: { type: 'number', min: 0, max: 100 }
+  };
+}
+
+// A deal that quotes the sentence it was taken from
+function evidencedDealSchema(taxonomy: Taxonomy): ObjectSchema {
+  return { ...dealSchema(taxonomy), evidence: { type: 'string' } };
+}
+
+// Response format requested by the single-release prompt. Joint releases can
+// report rounds for other companies too; those come back in otherDeals.
+export function releaseSchema(taxonomy: Taxonomy): ObjectSchema {
+  return {
+    ...dealSchema(taxonomy),
+    evidence: { type: 'string', optional: true },
+    otherDeals: { type: 'object[]', optional: true, items: evidencedDealSchema(taxonomy) }
+  };
+}
+
+// Response format requested by the multi-deal prompt: one entry per deal,
+// each quoting the sentence it was taken from
+export function roundupSchema(taxonomy: Taxonomy): ObjectSchema {
+  return {
+    deals: { type: 'object[]', items: evidencedDealSchema(taxonomy) }
+  };
+}
+
+// Response format requested by the executive lookup prompt
+export const EXECUTIVE_SCHEMA: ObjectSchema = {
+  ceoName: { type: 'string', nullable: true },
+  ceoTitle: { type: 'string', nullable: true, optional: true },
+  ceoEmail: { type: 'string', nullable: true, check: checkEmail },
+  cmoName: { type: 'string', nullable: true },
+  cmoTitle: { type: 'string', nullable: true, optional: true },
+  cmoEmail: { type: 'string', nullable: true, check: checkEmail }
+};
+
+// Response format requested by the announcement type prompt
+export const ANNOUNCEMENT_TYPE_SCHEMA: ObjectSchema = {
+  type: { type: 'string', enum: ANNOUNCEMENT_TYPES },
+  confidence: { type: 'number', min: 0, max: 100 },
+  reason: { type: 'string' }
+};
+
+export const ACQUISITION_DEAL_TYPES = ['Acquisition', 'Merger', 'Majority stake', 'Minority stake', 'Asset purchase', 'Unknown'];
+
+// Response format requested by the acquisition extraction prompt
+export const ACQUISITION_SCHEMA: ObjectSchema = {
+  acquirer: { type: 'string' },
+  target: { type: 'string' },
+  dealValue: { type: 'string', check: checkMoney },
+  dealType: { type: 'string', enum: ACQUISITION_DEAL_TYPES },
+  announcementDate: { type: 'string', check: checkDate },
+  targetHeadquarters: { type: 'string' },
+  rationale: { type: 'string' },
+  confidence: { type: 'number', min: 0, max: 100 }
+};
+
+// Response format requested by the fund close extraction prompt
+export const FUND_CLOSE_SCHEMA: ObjectSchema = {
+  firmName: { type: 'string' },
+  fundName: { type: 'string' },
+  fundSize: { type: 'string', check: checkMoney },
+  limitedPartners: { type: 'string[]' },
+  strategy: { type: 'string' },
+  announcementDate: { type: 'string', check: checkDate },
+  confidence: { type: 'number', min: 0, max: 100 }
+};
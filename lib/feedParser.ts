@@ -0,0 +1,59 @@
+import * as cheerio from 'cheerio';
+import { FeedItem } from './types';
+
+// Summaries are only used for keyword filtering and the relevance prompt
+const MAX_SUMMARY_LENGTH = 500;
+
+function plainText(html: string): string {
+  // Descriptions are often escaped HTML inside the XML
+  const text = html.includes('<') ? cheerio.load(html).text() : html;
+  const collapsed = text.replace(/\s+/g, ' ').trim();
+  return collapsed.length > MAX_SUMMARY_LENGTH ? collapsed.substring(0, MAX_SUMMARY_LENGTH - 3) + '...' : collapsed;
+}
+
+function toIsoDate(value: string): string | null {
+  if (!value) return null;
+  const date = new Date(value.trim());
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+// Reads RSS 2.0, RSS 1.0 (RDF) and Atom documents. Items without a link are
+// dropped since there is nothing to process.
+export function parseFeed(xml: string): FeedItem[] {
+  const $ = cheerio.load(xml, { xmlMode: true });
+  const items: FeedItem[] = [];
+
+  $('item').each((_, element) => {
+    const item = $(element);
+    const link = item.children('link').first().text().trim() ||
+      item.children('guid[isPermaLink!="false"]').first().text().trim() ||
+      item.attr('rdf:about') || '';
+    if (!link) return;
+
+    items.push({
+      id: item.children('guid').first().text().trim() || link,
+      title: plainText(item.children('title').first().text()),
+      link,
+      summary: plainText(item.children('description').first().text() || item.children('content\\:encoded').first().text()),
+      publishedAt: toIsoDate(item.children('pubDate').first().text() || item.children('dc\\:date').first().text())
+    });
+  });
+
+  $('entry').each((_, element) => {
+    const entry = $(element);
+    const links = entry.children('link');
+    const alternate = links.filter((_, link) => !$(link).attr('rel') || $(link).attr('rel') === 'alternate').first();
+    const link = (alternate.attr('href') || links.first().attr('href') || '').trim();
+    if (!link) return;
+
+    items.push({
+      id: entry.children('id').first().text().trim() || link,
+      title: plainText(entry.children('title').first().text()),
+      link,
+      summary: plainText(entry.children('summary').first().text() || entry.children('content').first().text()),
+      publishedAt: toIsoDate(entry.children('published').first().text() || entry.children('updated').first().text())
+    });
+  });
+
+  return items;
+}
@@ -0,0 +1,151 @@
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { DATA_DIR, readJsonFile, updateJsonFile } from './jsonFile';
+import { isValidUrl } from './urlUtils';
+import { Feed, FeedFilter, FeedStats } from './types';
+
+export const FEED_FILTERS: FeedFilter[] = ['keywords', 'claude'];
+
+// Item IDs remembered per feed; well above what a feed lists at once
+const MAX_SEEN_ITEM_IDS = 500;
+
+// Newswires rate limit aggressive pollers
+const MIN_INTERVAL_MINUTES = 5;
+
+export type FeedInput = Pick<Feed, 'name' | 'url'> & Partial<Pick<Feed, 'enabled' | 'filter' | 'keywords' | 'intervalMinutes'>>;
+
+// Checks a create (partial = false) or update request body. Returns the
+// accepted fields, or an error message for the API to report.
+export function parseFeedInput(body: any, partial: boolean): { input: Partial<FeedInput> } | { error: string } {
+  if (!body || typeof body !== 'object') return { error: 'Expected a JSON body' };
+
+  const input: Partial<FeedInput> = {};
+  if (body.name !== undefined || !partial) {
+    if (typeof body.name !== 'string' || !body.name.trim()) return { error: 'name is required' };
+    input.name = body.name.trim();
+  }
+  if (body.url !== undefined || !partial) {
+    if (typeof body.url !== 'string' || !isValidUrl(body.url)) return { error: 'Invalid feed URL' };
+    input.url = body.url.trim();
+  }
+  if (body.enabled !== undefined) {
+    if (typeof body.enabled !== 'boolean') return { error: 'enabled must be true or false' };
+    input.enabled = body.enabled;
+  }
+  if (body.filter !== undefined) {
+    if (!FEED_FILTERS.includes(body.filter)) return { error: `filter must be one of: ${FEED_FILTERS.join(', ')}` };
+    input.filter = body.filter;
+  }
+  if (body.keywords !== undefined) {
+    if (!Array.isArray(body.keywords) || body.keywords.some((keyword: unknown) => typeof keyword !== 'string')) {
+      return { error: 'keywords must be an array of strings' };
+    }
+    input.keywords = body.keywords.map((keyword: string) => keyword.trim()).filter(Boolean);
+  }
+  if (body.intervalMinutes !== undefined) {
+    if (!Number.isInteger(body.intervalMinutes) || body.intervalMinutes < MIN_INTERVAL_MINUTES) {
+      return { error: `intervalMinutes must be a whole number of at least ${MIN_INTERVAL_MINUTES}` };
+    }
+    input.intervalMinutes = body.intervalMinutes;
+  }
+
+  return { input };
+}
+
+function emptyStats(): FeedStats {
+  return { polls: 0, failedPolls: 0, itemsSeen: 0, itemsMatched: 0, itemsQueued: 0, duplicatesSkipped: 0 };
+}
+
+// Feed definitions together with their cursors and stats
+export class FeedStore {
+  private filePath: string;
+
+  constructor(filePath?: string) {
+    this.filePath = filePath || process.env.FEED_STORE_PATH || path.join(DATA_DIR, 'feeds.json');
+  }
+
+  async list(): Promise<Feed[]> {
+    return readJsonFile<Feed[]>(this.filePath, []);
+  }
+
+  async get(id: string): Promise<Feed | null> {
+    const feeds = await this.list();
+    return feeds.find(feed => feed.id === id) || null;
+  }
+
+  async create(input: FeedInput): Promise<Feed> {
+    const feed: Feed = {
+      id: randomUUID(),
+      name: input.name,
+      url: input.url,
+      enabled: input.enabled ?? true,
+      filter: input.filter || 'keywords',
+      keywords: input.keywords || [],
+      intervalMinutes: input.intervalMinutes || 30,
+      createdAt: new Date().toISOString(),
+      seenItemIds: [],
+      stats: emptyStats()
+    };
+
+    await updateJsonFile<Feed[]>(this.filePath, [], feeds => {
+      feeds.push(feed);
+    });
+
+    return feed;
+  }
+
+  async update(id: string, changes: Partial<FeedInput>): Promise<Feed | null> {
+    return updateJsonFile<Feed[], Feed | null>(this.filePath, [], feeds => {
+      const feed = feeds.find(candidate => candidate.id === id);
+      if (!feed) return null;
+
+      // A new URL is a different feed as far as the cursor is concerned
+      if (changes.url && changes.url !== feed.url) {
+        feed.seenItemIds = [];
+        delete feed.lastSeenAt;
+      }
+      Object.assign(feed, changes);
+      return feed;
+    });
+  }
+
+  async remove(id: string): Promise<boolean> {
+    return updateJsonFile<Feed[], boolean>(this.filePath, [], feeds => {
+      const index = feeds.findIndex(feed => feed.id === id);
+      if (index === -1) return false;
+      feeds.splice(index, 1);
+      return true;
+    });
+  }
+
+  // Moves the cursor past the items just seen and adds the poll to the stats
+  async recordPoll(
+    id: string,
+    poll: { itemIds: string[]; newestAt: string | null; seen: number; matched: number; queued: number; duplicates: number; error?: string }
+  ): Promise<void> {
+    await updateJsonFile<Feed[]>(this.filePath, [], feeds => {
+      const feed = feeds.find(candidate => candidate.id === id);
+      if (!feed) return;
+
+      const now = new Date().toISOString();
+      feed.seenItemIds = Array.from(new Set([...poll.itemIds, ...feed.seenItemIds])).slice(0, MAX_SEEN_ITEM_IDS);
+      if (poll.newestAt && (!feed.lastSeenAt || poll.newestAt > feed.lastSeenAt)) {
+        feed.lastSeenAt = poll.newestAt;
+      }
+
+      feed.stats.polls++;
+      feed.stats.itemsSeen += poll.seen;
+      feed.stats.itemsMatched += poll.matched;
+      feed.stats.itemsQueued += poll.queued;
+      feed.stats.duplicatesSkipped += poll.duplicates;
+      feed.stats.lastPolledAt = now;
+      if (poll.queued > 0) feed.stats.lastQueuedAt = now;
+      if (poll.error) {
+        feed.stats.failedPolls++;
+        feed.stats.lastError = poll.error;
+      } else {
+        delete feed.stats.lastError;
+      }
+    });
+  }
+}
@@ -0,0 +1,192 @@
+import { AxiosInstance } from 'axios';
+import { FeedStore } from './feedStore';
+import { parseFeed } from './feedParser';
+import { HttpTransport, getHttpTransport } from './httpTransport';
+import { ClaudeClient } from './claudeClient';
+import { getJobQueue } from './jobQueue';
+import { canonicalizeUrl } from './dedup';
+import { isValidUrl } from './urlUtils';
+import { Feed, FeedItem, FeedPollResult, Job } from './types';
+
+// The parts of the job queue the watcher needs
+export interface FeedQueue {
+  enqueue(url: string, options: { feedId?: string }): Promise<Job>;
+  processedUrls(): Promise<Set<string>>;
+}
+
+// How often the background timer looks for feeds that are due
+const CHECK_INTERVAL_MS = 60 * 1000;
+
+// "Acme raises $25M", "secures €10 million in Series A funding"
+const FUNDING_ACTION = /\b(raises?|raised|raising|secures?|secured|closes?|closed|lands?|landed|bags?|nabs?)\b.{0,60}?(\bfunding\b|\bround\b|\bfinancing\b|\binvestment\b|\bseed\b|\bseries [a-h]\b|\bmillion\b|\bbillion\b|[$€£¥]\s?\d)/i;
+const FUNDING_ROUND = /\b((pre-)?seed|series [a-h]|growth|funding|financing|venture) (round|funding|financing)\b|\bled by\b/i;
+
+export function isFundingItem(item: FeedItem, extraKeywords: string[] = []): boolean {
+  const text = `${item.title} ${item.summary}`;
+  if (FUNDING_ACTION.test(text) || FUNDING_ROUND.test(text)) return true;
+  const lower = text.toLowerCase();
+  return extraKeywords.some(keyword => keyword && lower.includes(keyword.toLowerCase()));
+}
+
+// Polls RSS/Atom feeds and queues funding announcements into the same job
+// pipeline as /api/process-pr. Each feed is polled at most every
+// intervalMinutes; items already seen on an earlier poll, and URLs that were
+// already processed, are skipped.
+export class FeedWatcher {
+  private feeds: FeedStore;
+  private queue: FeedQueue;
+  private http: AxiosInstance;
+  private claude: ClaudeClient;
+  private timer: NodeJS.Timeout | null = null;
+  private polling: Promise<FeedPollResult[]> | null = null;
+
+  constructor(feeds: FeedStore = new FeedStore(), queue: FeedQueue = getJobQueue(), transport: HttpTransport = getHttpTransport()) {
+    this.feeds = feeds;
+    this.queue = queue;
+    this.http = transport.http;
+    this.claude = new ClaudeClient(transport);
+  }
+
+  // Starts the background timer; FEED_WATCHER=false leaves polling to
+  // POST /api/feeds/poll (e.g. from cron)
+  start(): void {
+    if (this.timer || process.env.FEED_WATCHER === 'false') return;
+    this.timer = setInterval(() => {
+      this.pollDue().catch(error => console.error('Feed polling failed:', error));
+    }, CHECK_INTERVAL_MS);
+    // Don't keep the process alive just for feed polling
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  // Polls every enabled feed whose interval has passed, one at a time. A call
+  // made while a previous round is still running waits for that round.
+  async pollDue(now = new Date()): Promise<FeedPollResult[]> {
+    if (this.polling) return this.polling;
+
+    this.polling = (async () => {
+      const feeds = await this.feeds.list();
+      const due = feeds.filter(feed => feed.enabled && (
+        !feed.stats.lastPolledAt ||
+        now.getTime() - Date.parse(feed.stats.lastPolledAt) >= feed.intervalMinutes * 60 * 1000
+      ));
+
+      const results: FeedPollResult[] = [];
+      for (const feed of due) {
+        results.push(await this.poll(feed));
+      }
+      return results;
+    })();
+
+    try {
+      return await this.polling;
+    } finally {
+      this.polling = null;
+    }
+  }
+
+  async poll(feed: Feed): Promise<FeedPollResult> {
+    const result: FeedPollResult = { feedId: feed.id, itemsSeen: 0, newItems: 0, matched: 0, queued: [], duplicates: [] };
+
+    let items: FeedItem[];
+    try {
+      items = await this.fetchItems(feed.url);
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : String(error);
+      console.error(`Unable to poll feed ${feed.name} (${feed.url}):`, result.error);
+      await this.feeds.recordPoll(feed.id, { itemIds: [], newestAt: null, seen: 0, matched: 0, queued: 0, duplicates: 0, error: result.error });
+      return result;
+    }
+
+    // Skip items seen on an earlier poll and anything older than the newest
+    // item seen so far
+    const seenIds = new Set(feed.seenItemIds);
+    const fresh = items.filter(item =>
+      !seenIds.has(item.id) &&
+      !(feed.lastSeenAt && item.publishedAt && item.publishedAt < feed.lastSeenAt)
+    );
+
+    const keywordMatches = fresh.filter(item => isFundingItem(item, feed.keywords) && isValidUrl(item.link));
+    const matches = feed.filter === 'claude' ? await this.confirmRelevance(keywordMatches) : keywordMatches;
+
+    const processed = await this.queue.processedUrls();
+    for (const item of matches) {
+      const canonicalUrl = canonicalizeUrl(item.link);
+      if (processed.has(canonicalUrl)) {
+        result.duplicates.push(item.link);
+        continue;
+      }
+      processed.add(canonicalUrl);
+
+      const job = await this.queue.enqueue(item.link, { feedId: feed.id });
+      result.queued.push({ url: item.link, jobId: job.id });
+    }
+
+    result.itemsSeen = items.length;
+    result.newItems = fresh.length;
+    result.matched = matches.length;
+
+    const dates = items.map(item => item.publishedAt).filter((date): date is string => !!date).sort();
+    await this.feeds.recordPoll(feed.id, {
+      itemIds: items.map(item => item.id),
+      newestAt: dates.length > 0 ? dates[dates.length - 1] : null,
+      seen: fresh.length,
+      matched: matches.length,
+      queued: result.queued.length,
+      duplicates: result.duplicates.length
+    });
+
+    console.log(`Polled feed ${feed.name}: ${fresh.length} new item(s), ${matches.length} matched, ${result.queued.length} queued`);
+    return result;
+  }
+
+  private async fetchItems(url: string): Promise<FeedItem[]> {
+    const response = await this.http.get(url, {
+      timeout: 15000,
+      responseType: 'text',
+      headers: { 'Accept': 'application/rss+xml, application/atom+xml, application/xml;q=0.9, text/xml;q=0.9, */*;q=0.5' }
+    });
+
+    const items = parseFeed(String(response.data));
+    if (items.length === 0 && !/<(rss|feed|rdf:RDF)\b/i.test(String(response.data))) {
+      throw new Error('Response is not an RSS or Atom feed');
+    }
+    return items;
+  }
+
+  // Asks the model which keyword matches really announce a funding round (as
+  // opposed to, say, a fund's market commentary). Falls back to the keyword
+  // matches when the model is unavailable.
+  private async confirmRelevance(items: FeedItem[]): Promise<FeedItem[]> {
+    if (items.length === 0) return items;
+
+    const prompt = `Which of these news items announce that a company raised a funding round (seed, venture, growth or debt)? Ignore fund launches, market commentary, acquisitions and event announcements.
+
+${items.map((item, index) => `${index + 1}. ${item.title}\n   ${item.summary}`).join('\n')}
+
+Respond ONLY with a JSON object: {"relevant": ["<item number>", ...]}`;
+
+    try {
+      const { value } = await this.claude.askForJson<{ relevant: string[] }>(prompt, { relevant: { type: 'string[]' } }, 300);
+      const relevant = new Set(value.relevant.map(number => parseInt(number, 10) - 1));
+      return items.filter((_, index) => relevant.has(index));
+    } catch (error) {
+      console.log('Relevance check failed, using keyword matches:', error instanceof Error ? error.message : error);
+      return items;
+    }
+  }
+}
+
+let sharedWatcher: FeedWatcher | null = null;
+
+export function getFeedWatcher(): FeedWatcher {
+  if (!sharedWatcher) {
+    sharedWatcher = new FeedWatcher();
+    sharedWatcher.start();
+  }
+  return sharedWatcher;
+}
@@ -1,8 +1,78 @@
 import { google } from 'googleapis';
 import { PRData } from './types';
+import { ResultSink, SinkContext, isSameDealRow, findExecutive, formatContactSources, formatEmailStatus, formatInvestorIds, formatRiskFlags, formatSecondaryLabels } from './resultSink';
+import { RollupStore, RollupTable, rollupValues } from './rollups';
+import { ANNOUNCEMENT_TYPE_LABELS } from './announcementType';
 
-export class GoogleSheetsService {
+interface SheetColumn {
+  header: string;
+  value: (data: PRData, context: SinkContext) => string | number;
+  // Kept as first written when an existing row is updated
+  preserveOnUpdate?: boolean;
+}
+
+// New columns go at the end so rows written by earlier versions stay aligned
+const SHEET_COLUMNS: SheetColumn[] = [
+  { header: 'Company Name', value: data => data.companyName },
+  { header: 'CEO Email', value: data => data.ceoEmail },
+  { header: 'CMO Email', value: data => data.cmoEmail },
+  { header: 'Lead Investor', value: data => data.leadInvestor },
+  { header: 'Follow-on Investors', value: data => data.followOnInvestors.join(', ') },
+  { header: 'Amount Raised', value: data => data.amountRaised },
+  { header: 'Classification', value: data => data.classification },
+  { header: 'Flags', value: data => formatRiskFlags(data) },
+  { header: 'Date Processed', value: (_, context) => context.processedAt, preserveOnUpdate: true },
+  { header: 'Amount (Numeric)', value: data => data.amount ? data.amount.amount : '' },
+  { header: 'Currency', value: data => data.amount ? data.amount.currency : '' },
+  { header: 'Amount (USD)', value: data => data.amountUsd ?? '' },
+  { header: 'Round Type', value: data => data.roundType },
+  { header: 'Announcement Date', value: data => data.announcementDate || '' },
+  { header: 'Post-Money Valuation', value: data => data.postMoneyValuation ? data.postMoneyValuation.display : '' },
+  { header: 'Headquarters', value: data => data.headquarters },
+  { header: 'Use of Funds', value: data => data.useOfFunds },
+  { header: 'Source URLs', value: (_, context) => (context.sourceUrls || [context.sourceUrl]).join('\n') },
+  { header: 'Deal Key', value: (_, context) => context.dealKey || '', preserveOnUpdate: true },
+  { header: 'Last Updated', value: () => new Date().toISOString() },
+  { header: 'Contact Sources', value: data => formatContactSources(data.executives || []) },
+  { header: 'CEO Name', value: data => findExecutive(data, 'CEO')?.name || '' },
+  { header: 'CEO Title', value: data => findExecutive(data, 'CEO')?.title || '' },
+  { header: 'CEO Email Status', value: data => formatEmailStatus(findExecutive(data, 'CEO')) },
+  { header: 'CMO Name', value: data => findExecutive(data, 'CMO')?.name || '' },
+  { header: 'CMO Title', value: data => findExecutive(data, 'CMO')?.title || '' },
+  { header: 'CMO Email Status', value: data => formatEmailStatus(findExecutive(data, 'CMO')) },
+  { header: 'Risk Score', value: data => data.riskScore ?? '' },
+  { header: 'Secondary Labels', value: data => formatSecondaryLabels(data) },
+  { header: 'Investor IDs', value: data => formatInvestorIds(data) },
+  { header: 'Source Type', value: data => data.sourceType || 'url' },
+  { header: 'Announcement Type', value: data => ANNOUNCEMENT_TYPE_LABELS[data.announcementType || 'funding'] },
+  { header: 'Evidence', value: data => data.evidence || '' }
+];
+
+const SOURCE_URLS_COLUMN = SHEET_COLUMNS.findIndex(column => column.header === 'Source URLs');
+const DEAL_KEY_COLUMN = SHEET_COLUMNS.findIndex(column => column.header === 'Deal Key');
+const LAST_UPDATED_COLUMN = SHEET_COLUMNS.findIndex(column => column.header === 'Last Updated');
+
+// 1 -> A, 26 -> Z, 27 -> AA
+function columnLetter(position: number): string {
+  let letters = '';
+  for (let n = position; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+const LAST_COLUMN = columnLetter(SHEET_COLUMNS.length);
+
+// Locating a row and then writing it must not interleave with another job
+// doing the same, or both could append a row for the same deal.
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+export class GoogleSheetsService implements ResultSink {
+  readonly name = 'google-sheets';
+  readonly upserts = true;
   private sheets: any;
+  private rollups = new RollupStore();
+  private rollupTabsCreated = false;
 
   constructor() {
     const auth = new google.auth.GoogleAuth({
@@ -17,60 +87,136 @@ export class GoogleSheetsService {
     this.sheets = google.sheets({ version: 'v4', auth });
   }
 
-  async appendData(data: PRData): Promise<void> {
-    const values = [[
-      data.companyName,
-      data.ceoEmail,
-      data.cmoEmail,
-      data.leadInvestor,
-      data.followOnInvestors.join(', '),
-      data.amountRaised,
-      data.classification,
-      data.isScam ? 'FLAGGED AS SUSPICIOUS' : '',
-      new Date().toISOString()
-    ]];
-
-    await this.sheets.spreadsheets.values.append({
+  async initialize(): Promise<void> {
+    await this.initializeSheet();
+  }
+
+  async write(data: PRData, context: SinkContext): Promise<void> {
+    await this.upsertData(data, context);
+  }
+
+  // Updates the deal's existing row (matched by source URL or deal key) or
+  // appends a new one. Returns the 1-based row number that was written.
+  async upsertData(data: PRData, context: SinkContext): Promise<number> {
+    const next = writeQueue.catch(() => undefined).then(async () => {
+      const existingRow = await this.findRow(context);
+
+      const rowNumber = existingRow
+        ? await this.updateRow(existingRow.rowNumber, existingRow.values, data, context)
+        : await this.appendData(data, context);
+
+      // Set or clear the highlight so a re-processed row reflects its latest flag
+      if (data.isScam || existingRow) {
+        await this.flagSuspiciousRow(rowNumber, data.isScam);
+      }
+
+      // The deal itself is saved; stale roll-ups are fixed by the next write
+      try {
+        await this.writeRollupTabs(await this.rollups.record(data, context));
+      } catch (error) {
+        console.error('Unable to update roll-up tabs:', error);
+      }
+
+      return rowNumber;
+    });
+
+    writeQueue = next;
+    return next;
+  }
+
+  async appendData(data: PRData, context: SinkContext): Promise<number> {
+    const values = [SHEET_COLUMNS.map(column => column.value(data, context))];
+
+    const response = await this.sheets.spreadsheets.values.append({
       spreadsheetId: process.env.GOOGLE_SHEET_ID,
-      range: 'Sheet1!A:I',
+      range: `Sheet1!A:${LAST_COLUMN}`,
       valueInputOption: 'USER_ENTERED',
+      insertDataOption: 'INSERT_ROWS',
       requestBody: { values }
     });
 
-    // Add conditional formatting for scam flagging
-    if (data.isScam) {
-      await this.flagSuspiciousRow();
+    // e.g. "Sheet1!A12:T12" - the row the API actually wrote to
+    const updatedRange: string = response.data.updates?.updatedRange || '';
+    const match = updatedRange.match(/![A-Z]+(\d+)/);
+    if (!match) {
+      throw new Error(`Unable to determine appended row from range "${updatedRange}"`);
     }
+
+    return parseInt(match[1], 10);
   }
 
-  private async flagSuspiciousRow(): Promise<void> {
-    // Get the last row number
+  private async findRow(context: SinkContext): Promise<{ rowNumber: number; values: string[] } | null> {
     const response = await this.sheets.spreadsheets.values.get({
       spreadsheetId: process.env.GOOGLE_SHEET_ID,
-      range: 'Sheet1!A:A'
+      range: `Sheet1!A:${LAST_COLUMN}`
+    });
+
+    const rows: string[][] = (response.data.values || []).map((row: unknown[]) => row.map(cell => String(cell ?? '')));
+
+    // Row 1 holds the headers
+    for (let i = 1; i < rows.length; i++) {
+      const row = rows[i];
+      const dealKey = row[DEAL_KEY_COLUMN] || '';
+      const sourceUrls = (row[SOURCE_URLS_COLUMN] || '').split(/\s+/).filter(Boolean);
+
+      if (isSameDealRow({ dealKey, sourceUrls }, context)) {
+        return { rowNumber: i + 1, values: row };
+      }
+    }
+
+    return null;
+  }
+
+  // Writes only the cells whose value changed
+  private async updateRow(rowNumber: number, current: string[], data: PRData, context: SinkContext): Promise<number> {
+    const updates = SHEET_COLUMNS
+      .map((column, index) => ({ column, index, value: column.value(data, context) }))
+      .filter(({ column, index, value }) => {
+        if (index === LAST_UPDATED_COLUMN) return false;
+        if (column.preserveOnUpdate && current[index]) return false;
+        return String(value) !== (current[index] ?? '');
+      });
+
+    if (updates.length === 0) {
+      return rowNumber;
+    }
+
+    const lastUpdated = SHEET_COLUMNS[LAST_UPDATED_COLUMN].value(data, context);
+    updates.push({ column: SHEET_COLUMNS[LAST_UPDATED_COLUMN], index: LAST_UPDATED_COLUMN, value: lastUpdated });
+
+    await this.sheets.spreadsheets.values.batchUpdate({
+      spreadsheetId: process.env.GOOGLE_SHEET_ID,
+      requestBody: {
+        valueInputOption: 'USER_ENTERED',
+        data: updates.map(({ index, value }) => ({
+          range: `Sheet1!${columnLetter(index + 1)}${rowNumber}`,
+          values: [[value]]
+        }))
+      }
     });
-    
-    const rowCount = response.data.values?.length || 1;
-    
-    // Apply yellow background to the last row
+
+    console.log(`Updated ${updates.length - 1} changed cell(s) in row ${rowNumber}`);
+    return rowNumber;
+  }
+
+  private async flagSuspiciousRow(rowNumber: number, suspicious: boolean): Promise<void> {
+    // Yellow background for suspicious rows, white to clear a previous flag
     await this.sheets.spreadsheets.batchUpdate({
       spreadsheetId: process.env.GOOGLE_SHEET_ID,
       requestBody: {
         requests: [{
           repeatCell: {
             range: {
-              startRowIndex: rowCount - 1,
-              endRowIndex: rowCount,
+              startRowIndex: rowNumber - 1,
+              endRowIndex: rowNumber,
               startColumnIndex: 0,
-              endColumnIndex: 9
+              endColumnIndex: SHEET_COLUMNS.length
             },
             cell: {
               userEnteredFormat: {
-                backgroundColor: {
-                  red: 1.0,
-                  green: 1.0,
-                  blue: 0.8
-                }
+                backgroundColor: suspicious
+                  ? { red: 1.0, green: 1.0, blue: 0.8 }
+                  : { red: 1.0, green: 1.0, blue: 1.0 }
               }
             },
             fields: 'userEnteredFormat.backgroundColor'
@@ -80,23 +226,50 @@ export class GoogleSheetsService {
     });
   }
 
+  // Replaces the contents of the Investors, Companies and Classifications
+  // tabs, adding any tab that doesn't exist yet
+  private async writeRollupTabs(tables: RollupTable[]): Promise<void> {
+    if (!this.rollupTabsCreated) {
+      const spreadsheet = await this.sheets.spreadsheets.get({
+        spreadsheetId: process.env.GOOGLE_SHEET_ID,
+        fields: 'sheets.properties.title'
+      });
+      const titles = new Set((spreadsheet.data.sheets || []).map((sheet: any) => sheet.properties?.title));
+      const missing = tables.filter(table => !titles.has(table.title));
+
+      if (missing.length > 0) {
+        await this.sheets.spreadsheets.batchUpdate({
+          spreadsheetId: process.env.GOOGLE_SHEET_ID,
+          requestBody: {
+            requests: missing.map(table => ({ addSheet: { properties: { title: table.title } } }))
+          }
+        });
+      }
+      this.rollupTabsCreated = true;
+    }
+
+    // Clear first so rows that no longer exist (e.g. a deal later flagged as
+    // suspicious) don't linger below the new ones
+    await this.sheets.spreadsheets.values.batchClear({
+      spreadsheetId: process.env.GOOGLE_SHEET_ID,
+      requestBody: { ranges: tables.map(table => `${table.title}!A:${columnLetter(table.columns.length)}`) }
+    });
+    await this.sheets.spreadsheets.values.batchUpdate({
+      spreadsheetId: process.env.GOOGLE_SHEET_ID,
+      requestBody: {
+        valueInputOption: 'USER_ENTERED',
+        data: tables.map(table => ({ range: `${table.title}!A1`, values: rollupValues(table) }))
+      }
+    });
+  }
+
   async initializeSheet(): Promise<void> {
-    const headers = [
-      'Company Name',
-      'CEO Email', 
-      'CMO Email',
-      'Lead Investor',
-      'Follow-on Investors',
-      'Amount Raised',
-      'Classification',
-      'Flags',
-      'Date Processed'
-    ];
+    const headers = SHEET_COLUMNS.map(column => column.header);
 
     try {
       await this.sheets.spreadsheets.values.update({
         spreadsheetId: process.env.GOOGLE_SHEET_ID,
-        range: 'Sheet1!A1:I1',
+        range: `Sheet1!A1:${LAST_COLUMN}1`,
         valueInputOption: 'USER_ENTERED',
         requestBody: { values: [headers] }
       });
@@ -0,0 +1,261 @@
+import fs from 'fs';
+import path from 'path';
+import axios, { AxiosAdapter, AxiosError, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { RequestPolicy } from './requestPolicy';
+
+export type TransportMode = 'live' | 'record' | 'replay';
+
+export type FetchFunction = (input: string | URL | Request, init?: RequestInit) => Promise<Response>;
+
+// One request/response pair in a cassette. Request headers are never stored
+// since they carry API keys.
+export interface RecordedExchange {
+  request: { method: string; url: string; body?: unknown };
+  response?: {
+    status: number;
+    headers?: Record<string, string>;
+    body?: unknown;
+    // Binary bodies such as PDFs
+    bodyBase64?: string;
+    // Path relative to the cassette file, for fixtures such as saved HTML pages
+    bodyFile?: string;
+  };
+  // Network-level failure such as a timeout (code ECONNABORTED) or DNS error (ENOTFOUND)
+  error?: { code: string; message: string };
+}
+
+export interface Cassette {
+  exchanges: RecordedExchange[];
+}
+
+// Only headers the app actually looks at are recorded
+const RECORDED_HEADERS = ['content-type', 'retry-after', 'location'];
+
+// Every outbound call - page fetches, Apollo and the Anthropic SDK - goes
+// through a transport. In live mode it is a plain pass-through; record mode
+// also saves each exchange to a cassette file and replay mode answers from
+// the cassette without touching the network. In every mode requests go
+// through a RequestPolicy for rate limiting, retries and circuit breaking.
+export class HttpTransport {
+  readonly mode: TransportMode;
+  readonly http: AxiosInstance;
+  readonly fetch: FetchFunction;
+  private cassettePath: string | null;
+  private cassette: Cassette;
+  private used = new Set<number>();
+
+  constructor(mode: TransportMode = 'live', cassettePath: string | null = null, cassette?: Cassette, policy: RequestPolicy = new RequestPolicy()) {
+    if (mode !== 'live' && !cassettePath && !cassette) {
+      throw new Error(`HTTP transport in ${mode} mode needs a cassette path`);
+    }
+
+    this.mode = mode;
+    this.cassettePath = cassettePath;
+    this.cassette = cassette || (mode === 'replay' ? loadCassette(cassettePath!) : { exchanges: [] });
+
+    if (mode === 'live') {
+      this.http = axios.create({ adapter: policy.wrapAdapter(axios.getAdapter(axios.defaults.adapter)) });
+      this.fetch = policy.wrapFetch((input, init) => fetch(input, init));
+    } else if (mode === 'record') {
+      this.http = axios.create({ adapter: policy.wrapAdapter(this.recordingAdapter()) });
+      this.fetch = policy.wrapFetch(this.recordingFetch());
+    } else {
+      this.http = axios.create({ adapter: policy.wrapAdapter(this.replayAdapter()) });
+      this.fetch = policy.wrapFetch(this.replayFetch());
+    }
+  }
+
+  // Replays an in-memory list of exchanges, mainly for tests
+  static fromExchanges(exchanges: RecordedExchange[], policy?: RequestPolicy): HttpTransport {
+    return new HttpTransport('replay', null, { exchanges }, policy);
+  }
+
+  // Exchanges that were recorded but never requested during replay
+  unusedExchanges(): RecordedExchange[] {
+    return this.cassette.exchanges.filter((_, index) => !this.used.has(index));
+  }
+
+  private take(method: string, url: string): RecordedExchange {
+    const index = this.cassette.exchanges.findIndex((exchange, i) =>
+      !this.used.has(i) && exchange.request.method === method && exchange.request.url === url
+    );
+    if (index === -1) {
+      throw new Error(`No recorded response for ${method} ${url}${this.cassettePath ? ` in ${this.cassettePath}` : ''}`);
+    }
+    this.used.add(index);
+    return this.cassette.exchanges[index];
+  }
+
+  // binary is set for requests made with responseType 'arraybuffer', which
+  // get a Buffer whatever form the body was recorded in
+  private responseBody(exchange: RecordedExchange, binary = false): unknown {
+    const response = exchange.response!;
+    if (response.bodyFile) {
+      if (!this.cassettePath) throw new Error('bodyFile fixtures need a cassette path');
+      const file = fs.readFileSync(path.resolve(path.dirname(this.cassettePath), response.bodyFile));
+      return binary ? file : file.toString('utf8');
+    }
+    if (response.bodyBase64 !== undefined) {
+      const bytes = Buffer.from(response.bodyBase64, 'base64');
+      return binary ? bytes : bytes.toString('utf8');
+    }
+    if (binary && response.body !== undefined) {
+      return Buffer.from(typeof response.body === 'string' ? response.body : JSON.stringify(response.body), 'utf8');
+    }
+    return response.body;
+  }
+
+  private record(exchange: RecordedExchange): void {
+    this.cassette.exchanges.push(exchange);
+    fs.mkdirSync(path.dirname(this.cassettePath!), { recursive: true });
+    fs.writeFileSync(this.cassettePath!, JSON.stringify(this.cassette, null, 2) + '\n', 'utf8');
+  }
+
+  private replayAdapter(): AxiosAdapter {
+    return async (config: InternalAxiosRequestConfig) => {
+      const method = (config.method || 'get').toUpperCase();
+      const exchange = this.take(method, axios.getUri(config));
+
+      if (exchange.error) {
+        throw new AxiosError(exchange.error.message, exchange.error.code, config);
+      }
+
+      // Status checks are left to the request policy wrapping this adapter
+      const response: AxiosResponse = {
+        data: this.responseBody(exchange, config.responseType === 'arraybuffer'),
+        status: exchange.response!.status,
+        statusText: '',
+        headers: exchange.response!.headers || {},
+        config,
+        request: {}
+      };
+      return response;
+    };
+  }
+
+  private recordingAdapter(): AxiosAdapter {
+    const live = axios.getAdapter(axios.defaults.adapter);
+
+    return async (config: InternalAxiosRequestConfig) => {
+      const request = {
+        method: (config.method || 'get').toUpperCase(),
+        url: axios.getUri(config),
+        body: parseBody(config.data)
+      };
+
+      try {
+        const response = await live(config);
+        const headers = pickHeaders(response.headers);
+        this.record({ request, response: { status: response.status, headers, ...recordedBody(response.data, headers) } });
+        return response;
+      } catch (error) {
+        if (axios.isAxiosError(error)) {
+          const headers = error.response ? pickHeaders(error.response.headers) : {};
+          this.record(error.response
+            ? { request, response: { status: error.response.status, headers, ...recordedBody(error.response.data, headers) } }
+            : { request, error: { code: error.code || 'ERR_NETWORK', message: error.message } });
+        }
+        throw error;
+      }
+    };
+  }
+
+  private replayFetch(): FetchFunction {
+    return async (input, init) => {
+      const exchange = this.take((init?.method || 'GET').toUpperCase(), requestUrl(input));
+
+      if (exchange.error) {
+        // fetch reports network failures as a TypeError
+        throw new TypeError(exchange.error.message);
+      }
+
+      const body = this.responseBody(exchange);
+      return new Response(typeof body === 'string' ? body : JSON.stringify(body), {
+        status: exchange.response!.status,
+        headers: exchange.response!.headers || { 'content-type': 'application/json' }
+      });
+    };
+  }
+
+  private recordingFetch(): FetchFunction {
+    return async (input, init) => {
+      const request = {
+        method: (init?.method || 'GET').toUpperCase(),
+        url: requestUrl(input),
+        body: typeof init?.body === 'string' ? parseBody(init.body) : undefined
+      };
+
+      let response: Response;
+      try {
+        response = await fetch(input, init);
+      } catch (error) {
+        this.record({ request, error: { code: 'ERR_NETWORK', message: error instanceof Error ? error.message : String(error) } });
+        throw error;
+      }
+
+      const text = await response.clone().text();
+      const headers: Record<string, string> = {};
+      response.headers.forEach((value, key) => { headers[key] = value; });
+      this.record({ request, response: { status: response.status, headers: pickHeaders(headers), body: parseBody(text) } });
+      return response;
+    };
+  }
+}
+
+function loadCassette(cassettePath: string): Cassette {
+  try {
+    return JSON.parse(fs.readFileSync(cassettePath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Unable to read HTTP cassette ${cassettePath}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+function requestUrl(input: string | URL | Request): string {
+  if (typeof input === 'string') return input;
+  return input instanceof URL ? input.href : input.url;
+}
+
+function parseBody(data: unknown): unknown {
+  if (typeof data !== 'string') return data;
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+}
+
+// Binary responses are kept readable in the cassette when they are text
+// (HTML fetched as an arraybuffer) and base64-encoded otherwise
+function recordedBody(data: unknown, headers: Record<string, string>): { body?: unknown; bodyBase64?: string } {
+  if (!Buffer.isBuffer(data) && !(data instanceof ArrayBuffer)) return { body: data };
+  const bytes = Buffer.from(data as Buffer);
+  return /^(text\/|application\/(json|xml|xhtml\+xml|rss\+xml|atom\+xml))/i.test(headers['content-type'] || '')
+    ? { body: bytes.toString('utf8') }
+    : { bodyBase64: bytes.toString('base64') };
+}
+
+function pickHeaders(headers: unknown): Record<string, string> {
+  const picked: Record<string, string> = {};
+  // axios hands back an AxiosHeaders instance
+  const source = (headers && typeof (headers as any).toJSON === 'function' ? (headers as any).toJSON() : headers || {}) as Record<string, unknown>;
+  for (const [key, value] of Object.entries(source)) {
+    if (RECORDED_HEADERS.includes(key.toLowerCase()) && value !== undefined) {
+      picked[key.toLowerCase()] = String(value);
+    }
+  }
+  return picked;
+}
+
+let transport: HttpTransport | null = null;
+
+// HTTP_TRANSPORT=live|record|replay, HTTP_CASSETTE=<path to cassette JSON>
+export function getHttpTransport(): HttpTransport {
+  if (!transport) {
+    const mode = (process.env.HTTP_TRANSPORT || 'live').toLowerCase();
+    if (mode !== 'live' && mode !== 'record' && mode !== 'replay') {
+      throw new Error(`Invalid HTTP_TRANSPORT "${mode}". Expected one of: live, record, replay`);
+    }
+    transport = new HttpTransport(mode, process.env.HTTP_CASSETTE || null);
+  }
+  return transport;
+}
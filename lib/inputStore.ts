@@ -0,0 +1,65 @@
+import path from 'path';
+import { createHash } from 'crypto';
+import { DATA_DIR, readJsonFile, writeJsonFile } from './jsonFile';
+import { isValidUrl } from './urlUtils';
+import { isPdf } from './pdfText';
+import { ReleaseInput } from './types';
+
+export const INPUT_TYPES: ReleaseInput['type'][] = ['text', 'html', 'eml', 'pdf'];
+
+// Well above any press release, including emails with inline images and
+// base64-encoded PDFs
+export const MAX_INPUT_BYTES = 8 * 1024 * 1024;
+
+// Checks the "input" field of a /api/process-pr request. Returns the release,
+// or an error message for the API to report.
+export function parseReleaseInput(body: any): { input: ReleaseInput } | { error: string } {
+  if (!body || typeof body !== 'object') return { error: 'Expected a JSON object' };
+  if (!INPUT_TYPES.includes(body.type)) return { error: `type must be one of: ${INPUT_TYPES.join(', ')}` };
+  if (typeof body.content !== 'string' || !body.content.trim()) return { error: 'content is required' };
+  if (Buffer.byteLength(body.content, 'utf8') > MAX_INPUT_BYTES) {
+    return { error: `content is larger than ${MAX_INPUT_BYTES / 1024 / 1024}MB` };
+  }
+  if (body.type === 'pdf' && !isPdf(Buffer.from(body.content, 'base64'))) {
+    return { error: 'content must be a base64-encoded PDF' };
+  }
+  if (body.url !== undefined && body.url !== '' && (typeof body.url !== 'string' || !isValidUrl(body.url))) {
+    return { error: 'Invalid URL provided' };
+  }
+
+  const input: ReleaseInput = { type: body.type, content: body.content };
+  if (typeof body.fileName === 'string' && body.fileName.trim()) input.fileName = body.fileName.trim();
+  if (body.url) input.url = body.url.trim();
+  return { input };
+}
+
+// Pasted or uploaded releases can be large, so each one gets its own file
+// instead of living in jobs.json
+export class InputStore {
+  private dir: string;
+
+  constructor(dir?: string) {
+    this.dir = dir || process.env.INPUT_STORE_DIR || path.join(DATA_DIR, 'inputs');
+  }
+
+  async save(jobId: string, input: ReleaseInput): Promise<void> {
+    await writeJsonFile(this.pathFor(jobId), input);
+  }
+
+  async get(jobId: string): Promise<ReleaseInput | null> {
+    return readJsonFile<ReleaseInput | null>(this.pathFor(jobId), null);
+  }
+
+  private pathFor(jobId: string): string {
+    return path.join(this.dir, `${path.basename(jobId)}.json`);
+  }
+}
+
+// Stands in for the URL of a release that has none, e.g. "eml:3f2a9c0d1b7e4a65".
+// Identical content gets the same identifier, so resubmitting it is caught
+// by the usual duplicate checks.
+export function inputIdentifier(input: ReleaseInput): string {
+  if (input.url) return input.url;
+  const digest = createHash('sha256').update(input.content.replace(/\r\n/g, '\n').trim()).digest('hex');
+  return `${input.type}:${digest.substring(0, 16)}`;
+}
@@ -0,0 +1,260 @@
+import fs from 'fs';
+import path from 'path';
+import { InvestorMatch, InvestorRef } from './types';
+import { investorKey } from './dedup';
+
+export interface InvestorEntry {
+  // Stable canonical ID stored with each deal
+  id: string;
+  // Display name used in results
+  name: string;
+  // Other names for the same firm: abbreviations, former names and regional
+  // vehicles that belong to it. Matched after investorKey.
+  aliases: string[];
+}
+
+export interface InvestorDirectory {
+  version: number;
+  investors: InvestorEntry[];
+}
+
+export interface ResolvedInvestors {
+  leadInvestor: string;
+  followOnInvestors: string[];
+  investors: InvestorRef[];
+}
+
+const DEFAULT_DIRECTORY_PATH = path.join(process.cwd(), 'config', 'investors.json');
+
+// Unlisted names at least this similar to a listed one are treated as a
+// misspelling of it
+const FUZZY_MATCH_THRESHOLD = 0.85;
+// Shorter names are too easy to confuse ("Accel" vs "Axcel")
+const FUZZY_MIN_LENGTH = 6;
+
+interface IndexedDirectory {
+  directory: InvestorDirectory;
+  byKey: Map<string, InvestorEntry>;
+}
+
+function defaultDirectoryPath(): string {
+  return process.env.INVESTOR_ALIASES_PATH || DEFAULT_DIRECTORY_PATH;
+}
+
+let cachedDirectory: { filePath: string; indexed: IndexedDirectory } | null = null;
+
+// Loads the investor alias dictionary from INVESTOR_ALIASES_PATH (default
+// config/investors.json). A missing or invalid file is an error.
+export function loadInvestorDirectory(filePath: string = defaultDirectoryPath()): InvestorDirectory {
+  return loadIndexed(filePath).directory;
+}
+
+function loadIndexed(filePath: string): IndexedDirectory {
+  if (cachedDirectory && cachedDirectory.filePath === filePath) {
+    return cachedDirectory.indexed;
+  }
+
+  let directory: InvestorDirectory;
+  try {
+    directory = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Unable to read investor aliases ${filePath}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const problems = validateInvestorDirectory(directory);
+  if (problems.length > 0) {
+    throw new Error(`Invalid investor aliases ${filePath}: ${problems.join('; ')}`);
+  }
+
+  const indexed = indexDirectory(directory);
+  cachedDirectory = { filePath, indexed };
+  return indexed;
+}
+
+export function validateInvestorDirectory(directory: InvestorDirectory): string[] {
+  if (!directory || !Array.isArray(directory.investors)) {
+    return ['investors must be an array'];
+  }
+
+  const problems: string[] = [];
+  const ids = new Set<string>();
+  const owners = new Map<string, string>();
+  for (const entry of directory.investors) {
+    if (!entry.id || !/^[a-z0-9-]+$/.test(entry.id)) {
+      problems.push(`investor id "${entry.id}" must be lowercase letters, digits and dashes`);
+    } else if (ids.has(entry.id)) {
+      problems.push(`duplicate investor id "${entry.id}"`);
+    }
+    ids.add(entry.id);
+    if (!entry.name) problems.push(`investor "${entry.id}" has no name`);
+    if (!Array.isArray(entry.aliases)) {
+      problems.push(`investor "${entry.id}" aliases must be an array`);
+      continue;
+    }
+
+    // Two firms sharing a name would make resolution depend on file order
+    for (const name of [entry.name, ...entry.aliases]) {
+      const key = investorKey(name || '');
+      const owner = owners.get(key);
+      if (owner && owner !== entry.id) {
+        problems.push(`"${name}" is listed for both "${owner}" and "${entry.id}"`);
+      }
+      owners.set(key, entry.id);
+    }
+  }
+
+  return problems;
+}
+
+function indexDirectory(directory: InvestorDirectory): IndexedDirectory {
+  const byKey = new Map<string, InvestorEntry>();
+  for (const entry of directory.investors) {
+    for (const name of [entry.name, ...entry.aliases]) {
+      const key = investorKey(name);
+      if (key) byKey.set(key, entry);
+    }
+  }
+  return { directory, byKey };
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function similarity(a: string, b: string): number {
+  return 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+}
+
+// "Andreessen Horowitz (a16z)" -> ["Andreessen Horowitz", "a16z"]
+function nameVariants(name: string): string[] {
+  const inner = name.match(/\(([^)]+)\)/)?.[1];
+  const outer = name.replace(/\([^)]*\)/g, ' ').replace(/\s+/g, ' ').trim();
+  return [outer, inner].filter((variant): variant is string => !!variant && variant.trim().length > 0);
+}
+
+function lookup(name: string, indexed: IndexedDirectory): { entry: InvestorEntry; match: InvestorMatch } | null {
+  const variants = nameVariants(name);
+  for (const variant of variants) {
+    const entry = indexed.byKey.get(investorKey(variant));
+    if (entry) return { entry, match: 'alias' };
+  }
+
+  // Misspellings and small variations of a listed name. Only the best match
+  // counts, and only if it's clearly better than any other firm.
+  for (const variant of variants) {
+    const key = investorKey(variant);
+    if (key.length < FUZZY_MIN_LENGTH) continue;
+
+    const scores = new Map<InvestorEntry, number>();
+    for (const [candidate, entry] of Array.from(indexed.byKey.entries())) {
+      if (candidate.length < FUZZY_MIN_LENGTH) continue;
+      scores.set(entry, Math.max(scores.get(entry) || 0, similarity(key, candidate)));
+    }
+    const [best, runnerUp] = Array.from(scores.entries()).sort((a, b) => b[1] - a[1]);
+    if (best && best[1] >= FUZZY_MATCH_THRESHOLD && (!runnerUp || best[1] > runnerUp[1])) {
+      return { entry: best[0], match: 'fuzzy' };
+    }
+  }
+
+  return null;
+}
+
+function isKnown(value: string): boolean {
+  return !!value && !/^(not found|extraction failed|unknown|none)$/i.test(value.trim());
+}
+
+// Splits "Accel and Index Ventures" or "a16z, Sequoia & YC" into single
+// firms. A name that is itself listed ("Kleiner Perkins Caufield & Byers")
+// is kept whole, and "and"/"&" only split when a side resolves to a listed
+// investor, so unlisted names like "Smith & Jones Capital" survive.
+export function splitInvestorNames(raw: string, directory?: InvestorDirectory): string[] {
+  return splitNames(raw, directory ? indexDirectory(directory) : loadIndexed(defaultDirectoryPath()));
+}
+
+function splitNames(raw: string, indexed: IndexedDirectory): string[] {
+  const names: string[] = [];
+
+  for (const part of raw.replace(/\b(?:among others|and others)\b/gi, '').split(/\s*[,;]\s*/)) {
+    const cleaned = part.replace(/^\s*(?:and|&)\s+/i, '').trim();
+    if (!cleaned) continue;
+    if (lookup(cleaned, indexed)) {
+      names.push(cleaned);
+      continue;
+    }
+
+    const pieces = cleaned.split(/\s+(?:and|&|\+)\s+/i).map(piece => piece.trim()).filter(Boolean);
+    if (pieces.length > 1 && pieces.some(piece => lookup(piece, indexed))) {
+      names.push(...pieces);
+    } else {
+      names.push(cleaned);
+    }
+  }
+
+  return names;
+}
+
+function toRef(raw: string, role: InvestorRef['role'], indexed: IndexedDirectory): InvestorRef {
+  const found = lookup(raw, indexed);
+  if (found) {
+    return { id: found.entry.id, name: found.entry.name, role, raw, match: found.match };
+  }
+
+  const name = nameVariants(raw)[0] || raw.trim();
+  const key = investorKey(name) || name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+  return { id: key.replace(/\s+/g, '-'), name, role, raw, match: 'unlisted' };
+}
+
+// Listed firms are the same firm by ID, unlisted ones by name
+function firmIdentity(ref: InvestorRef): string {
+  return ref.match === 'unlisted' ? `unlisted:${investorKey(ref.name)}` : ref.id;
+}
+
+// Turns the extracted lead and follow-on strings into canonical investors:
+// combined strings are split, aliases and misspellings map to the listed
+// firm, and each firm appears once. When the lead string names several firms
+// the first is the lead and the rest are treated as co-leads (follow-ons).
+export function resolveInvestors(leadInvestor: string, followOnInvestors: string[], directory?: InvestorDirectory): ResolvedInvestors {
+  const indexed = directory ? indexDirectory(directory) : loadIndexed(defaultDirectoryPath());
+  const split = (raw: string) => isKnown(raw) ? splitNames(raw, indexed) : [];
+
+  const investors: InvestorRef[] = [];
+  const seen = new Set<string>();
+  const add = (raw: string, role: InvestorRef['role']) => {
+    const ref = toRef(raw, role, indexed);
+    const identity = firmIdentity(ref);
+    if (seen.has(identity)) return;
+    seen.add(identity);
+    // A different firm whose ID is already taken gets a numbered one
+    const ids = new Set(investors.map(investor => investor.id));
+    const id = ref.id;
+    for (let n = 2; ids.has(ref.id); n++) {
+      ref.id = `${id}-${n}`;
+    }
+    investors.push(ref);
+  };
+
+  const [lead, ...coLeads] = split(leadInvestor);
+  if (lead) add(lead, 'lead');
+  for (const raw of [...coLeads, ...followOnInvestors.flatMap(split)]) {
+    add(raw, 'follow-on');
+  }
+
+  const leadRef = investors.find(ref => ref.role === 'lead');
+  return {
+    leadInvestor: leadRef ? leadRef.name : leadInvestor,
+    followOnInvestors: investors.filter(ref => ref.role === 'follow-on').map(ref => ref.name),
+    investors
+  };
+}
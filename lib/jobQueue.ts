@@ -0,0 +1,372 @@
+import { PRExtractor } from './prExtractor';
+import { ResultSink, SinkContext } from './resultSink';
+import { createResultSinks } from './sinkConfig';
+import { JobStore, TERMINAL_STATUSES } from './jobStore';
+import { BatchStore } from './batchStore';
+import { DealRegistry, canonicalizeUrl } from './dedup';
+import { InputStore, inputIdentifier } from './inputStore';
+import { ANNOUNCEMENT_TYPE_LABELS, EXTRACTED_TYPES } from './announcementType';
+import { isValidUrl } from './urlUtils';
+import { Batch, BatchEntry, BatchSummary, Job, JobDeal, PRData, ReleaseInput } from './types';
+
+export const MAX_BATCH_SIZE = 500;
+
+interface DealOutcome extends JobDeal {
+  errors: string[];
+}
+
+export class JobQueue {
+  private store: JobStore;
+  private batches: BatchStore;
+  private deals: DealRegistry;
+  private inputs: InputStore;
+  private running = new Set<string>();
+  private waiting: Job[] = [];
+  private maxConcurrent: number;
+  private resumed = false;
+
+  constructor(
+    store: JobStore = new JobStore(),
+    batches: BatchStore = new BatchStore(),
+    deals: DealRegistry = new DealRegistry(),
+    inputs: InputStore = new InputStore()
+  ) {
+    this.store = store;
+    this.batches = batches;
+    this.deals = deals;
+    this.inputs = inputs;
+    this.maxConcurrent = Math.max(1, parseInt(process.env.JOB_CONCURRENCY || '', 10) || 3);
+  }
+
+  async enqueue(url: string, options: { batchId?: string; feedId?: string; reprocess?: boolean } = {}): Promise<Job> {
+    await this.resumePending();
+
+    const job = await this.store.create(url, options);
+
+    // Process in background (don't wait for completion)
+    this.start(job);
+
+    return job;
+  }
+
+  // Pasted text, an HTML file or an .eml message. The content is stored
+  // beside the job so an interrupted job can be resumed after a restart.
+  async enqueueInput(input: ReleaseInput, options: { reprocess?: boolean } = {}): Promise<Job> {
+    await this.resumePending();
+
+    const job = await this.store.create(inputIdentifier(input), {
+      ...options,
+      sourceType: input.type,
+      sourceName: input.fileName
+    });
+    await this.inputs.save(job.id, input);
+
+    this.start(job);
+
+    return job;
+  }
+
+  async enqueueBatch(inputs: string[]): Promise<Batch> {
+    if (inputs.length > MAX_BATCH_SIZE) {
+      throw new Error(`Batch too large: ${inputs.length} URLs (maximum ${MAX_BATCH_SIZE})`);
+    }
+
+    await this.resumePending();
+
+    const batchId = this.batches.newId();
+    const entries: BatchEntry[] = [];
+    const seen = new Set<string>();
+
+    const alreadyProcessed = await this.processedUrls();
+
+    for (const input of inputs) {
+      const url = input.trim();
+
+      if (!url || !isValidUrl(url)) {
+        entries.push({ input, outcome: 'invalid', reason: 'Invalid URL' });
+        continue;
+      }
+
+      const canonicalUrl = canonicalizeUrl(url);
+      if (seen.has(canonicalUrl)) {
+        entries.push({ input, url, outcome: 'duplicate', reason: 'Duplicate within batch' });
+        continue;
+      }
+      seen.add(canonicalUrl);
+
+      if (alreadyProcessed.has(canonicalUrl)) {
+        entries.push({ input, url, outcome: 'duplicate', reason: 'Already processed' });
+        continue;
+      }
+
+      const job = await this.enqueue(url, { batchId });
+      entries.push({ input, url, outcome: 'queued', jobId: job.id });
+    }
+
+    return this.batches.save(batchId, entries);
+  }
+
+  // Canonical URLs already saved or still in progress; these are not
+  // processed again
+  async processedUrls(): Promise<Set<string>> {
+    const existing = await this.store.list();
+    return new Set(existing.filter(job => job.status !== 'failed').map(job => canonicalizeUrl(job.url)));
+  }
+
+  async getBatch(id: string): Promise<{ batch: Batch; jobs: Job[]; summary: BatchSummary } | null> {
+    const batch = await this.batches.get(id);
+    if (!batch) return null;
+
+    const jobs = await this.store.list({ batchId: id });
+    const summary: BatchSummary = {
+      total: batch.entries.length,
+      pending: jobs.filter(job => !TERMINAL_STATUSES.includes(job.status)).length,
+      succeeded: jobs.filter(job => job.status === 'saved' && !isDuplicateJob(job)).length,
+      failed: jobs.filter(job => job.status === 'failed').length,
+      duplicatesSkipped: batch.entries.filter(entry => entry.outcome === 'duplicate').length +
+        jobs.filter(isDuplicateJob).length,
+      invalid: batch.entries.filter(entry => entry.outcome === 'invalid').length,
+      notRelevant: jobs.filter(job => job.status === 'skipped').length,
+      dealsFound: jobs
+        .filter(job => job.status === 'saved')
+        .reduce((sum, job) => sum + (job.deals ? job.deals.filter(deal => !deal.error).length : 1), 0)
+    };
+
+    return { batch, jobs, summary };
+  }
+
+  getStore(): JobStore {
+    return this.store;
+  }
+
+  // Jobs that were queued or in-flight when the server stopped are picked up
+  // again when the server starts (instrumentation.ts), or the first time the
+  // queue is used.
+  async resumePending(): Promise<void> {
+    if (this.resumed) return;
+    this.resumed = true;
+
+    const jobs = await this.store.list();
+    const pending = jobs
+      .filter(job => !TERMINAL_STATUSES.includes(job.status) && !this.running.has(job.id))
+      .reverse(); // Oldest first
+
+    for (const job of pending) {
+      console.log(`Resuming interrupted job ${job.id} (${job.status}) for ${job.url}`);
+      await this.store.setStatus(job.id, 'queued');
+      this.start(job);
+    }
+  }
+
+  // At most maxConcurrent jobs run at once; the rest wait in "queued"
+  private start(job: Job): void {
+    if (this.running.size >= this.maxConcurrent) {
+      this.waiting.push(job);
+      return;
+    }
+
+    this.running.add(job.id);
+    this.process(job).finally(() => {
+      this.running.delete(job.id);
+
+      const next = this.waiting.shift();
+      if (next) {
+        this.start(next);
+      }
+    });
+  }
+
+  private async process(job: Job): Promise<void> {
+    try {
+      // A source URL we've already turned into a deal isn't fetched again
+      // unless the submitter asked for it to be re-processed
+      const known = job.reprocess ? [] : await this.deals.findAllByUrl(job.url);
+      if (known.length > 0) {
+        console.log(`[job ${job.id}] Skipping - already processed as deal ${known.map(record => record.id).join(', ')}`);
+        const previous = known.map(record => ({
+          result: record.data,
+          dedup: {
+            decision: 'skipped' as const,
+            canonicalUrl: canonicalizeUrl(job.url),
+            fingerprint: record.fingerprint,
+            dealId: record.id,
+            reason: 'Same source URL already processed'
+          }
+        }));
+        await this.store.setStatus(job.id, 'saved', {
+          ...previous[0],
+          ...(previous.length > 1 ? { deals: previous } : {})
+        });
+        return;
+      }
+
+      const source = job.sourceType ? await this.inputs.get(job.id) : job.url;
+      if (!source) {
+        throw new Error('Submitted content is no longer available');
+      }
+
+      const extractor = new PRExtractor();
+      const sinks = createResultSinks();
+
+      // Extract data with detailed logging
+      console.log(`[job ${job.id}] About to start extraction...`);
+      const found = await extractor.extractDeals(source, stage => {
+        this.store.setStatus(job.id, stage).catch(error => {
+          console.error(`[job ${job.id}] Failed to record stage ${stage}:`, error);
+        });
+      });
+      const prData = found[0];
+      console.log(`[job ${job.id}] Extraction completed with ${found.length} deal(s):`, found);
+
+      if (prData.companyName === 'EXTRACTION FAILED') {
+        await this.store.setStatus(job.id, 'failed', {
+          result: prData,
+          error: prData.extractionErrors[0] || 'Extraction failed',
+          errors: prData.extractionErrors
+        });
+        return;
+      }
+
+      // Partnerships, product launches and the like aren't saved anywhere
+      if (!EXTRACTED_TYPES.includes(prData.announcementType)) {
+        const skipReason = `Not a funding announcement: ${ANNOUNCEMENT_TYPE_LABELS[prData.announcementType]} (${prData.announcementReason})`;
+        console.log(`[job ${job.id}] ${skipReason}`);
+        await this.store.setStatus(job.id, 'skipped', {
+          result: prData,
+          skipReason,
+          errors: prData.extractionErrors
+        });
+        return;
+      }
+
+      if (found.length === 1) {
+        const outcome = await this.saveDeal(job, prData, sinks, false);
+        const { error, ...saved } = outcome;
+        await this.store.setStatus(job.id, error ? 'failed' : 'saved', error ? { ...saved, error } : saved);
+        if (error) return;
+      } else {
+        // Each deal is deduplicated and written on its own; the job only
+        // fails when none of them could be saved
+        const outcomes: DealOutcome[] = [];
+        for (const deal of found) {
+          outcomes.push(await this.saveDeal(job, deal, sinks, true));
+        }
+        const saved = outcomes.filter(outcome => !outcome.error);
+        const first = saved[0] || outcomes[0];
+
+        await this.store.setStatus(job.id, saved.length > 0 ? 'saved' : 'failed', {
+          result: first.result,
+          dedup: first.dedup,
+          deals: outcomes.map(({ result, dedup, error }) => ({ result, dedup, ...(error ? { error } : {}) })),
+          errors: Array.from(new Set(outcomes.flatMap(outcome => outcome.errors))),
+          ...(saved.length > 0 ? {} : { error: first.error })
+        });
+        if (saved.length === 0) return;
+      }
+
+      console.log('Successfully processed PR:', job.url);
+    } catch (error) {
+      console.error(`[job ${job.id}] Background processing error:`, error);
+      console.error('Error details:', {
+        message: error instanceof Error ? error.message : 'Unknown error',
+        stack: error instanceof Error ? error.stack : 'No stack trace'
+      });
+
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      await this.store.setStatus(job.id, 'failed', {
+        error: message,
+        errors: [...job.errors, message]
+      }).catch(storeError => {
+        console.error(`[job ${job.id}] Failed to record failure:`, storeError);
+      });
+    }
+  }
+
+  // Deduplicates one deal and writes it to the sinks. sharedUrl is set for
+  // articles with several deals, which all have the same source URL.
+  private async saveDeal(job: Job, prData: PRData, sinks: ResultSink[], sharedUrl: boolean): Promise<DealOutcome> {
+    const { result: dedup, record } = await this.deals.resolve(prData, job.url, job.id, { reprocess: job.reprocess, sharedUrl });
+    console.log(`[job ${job.id}] Dedup decision for ${prData.companyName}: ${dedup.decision} (${dedup.reason})`);
+
+    if (dedup.decision === 'skipped') {
+      return { result: prData, dedup, errors: prData.extractionErrors };
+    }
+
+    // New deals go to every sink; changes to a known deal only to sinks that
+    // can update its existing row, so append-only logs don't get duplicates.
+    // Those still refresh their roll-ups with the changed deal.
+    const targets = dedup.decision === 'new' ? sinks : sinks.filter(sink => sink.upserts);
+    const refreshed = sinks.filter(sink => !targets.includes(sink) && sink.refresh);
+    const context = {
+      sourceUrl: job.url,
+      sourceUrls: record.sourceUrls,
+      dealKey: record.dealKey || record.fingerprint,
+      sharedUrl,
+      jobId: job.id,
+      processedAt: new Date().toISOString()
+    };
+
+    console.log(`[job ${job.id}] About to save to ${targets.map(sink => sink.name).join(', ') || 'no sinks'}...`);
+    const sinkErrors = await this.writeToSinks(targets, record.data, context);
+    const errors = [...prData.extractionErrors, ...sinkErrors, ...await this.refreshSinks(refreshed, record.data, context)];
+
+    if (targets.length > 0 && sinkErrors.length === targets.length) {
+      if (dedup.decision === 'new') {
+        // Nothing was written, so a retry of this URL must not count as a duplicate
+        await this.deals.remove(record.id);
+      }
+      return { result: record.data, dedup, errors, error: sinkErrors[0] };
+    }
+
+    return { result: record.data, dedup, errors };
+  }
+
+  // Every target sink gets the result; one failing sink doesn't stop the others
+  private async writeToSinks(sinks: ResultSink[], prData: PRData, context: SinkContext): Promise<string[]> {
+    const errors: string[] = [];
+
+    for (const sink of sinks) {
+      try {
+        await sink.initialize();
+        await sink.write(prData, context);
+        console.log(`[job ${context.jobId}] Successfully saved to ${sink.name}`);
+      } catch (error) {
+        console.error(`[job ${context.jobId}] Failed to save to ${sink.name}:`, error);
+        errors.push(`${sink.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    return errors;
+  }
+
+  private async refreshSinks(sinks: ResultSink[], prData: PRData, context: SinkContext): Promise<string[]> {
+    const errors: string[] = [];
+
+    for (const sink of sinks) {
+      try {
+        await sink.refresh!(prData, context);
+        console.log(`[job ${context.jobId}] Refreshed roll-ups in ${sink.name}`);
+      } catch (error) {
+        console.error(`[job ${context.jobId}] Failed to refresh ${sink.name}:`, error);
+        errors.push(`${sink.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    return errors;
+  }
+}
+
+// Deals that were recognised as another source of an existing record
+export function isDuplicateJob(job: Job): boolean {
+  return !!job.dedup && ['skipped', 'merged', 'linked'].includes(job.dedup.decision);
+}
+
+let sharedQueue: JobQueue | null = null;
+
+// API routes share one queue per server process so in-flight jobs are tracked once.
+export function getJobQueue(): JobQueue {
+  if (!sharedQueue) {
+    sharedQueue = new JobQueue();
+  }
+  return sharedQueue;
+}
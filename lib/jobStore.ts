@@ -0,0 +1,109 @@
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { DATA_DIR, readJsonFile, updateJsonFile } from './jsonFile';
+import { Job, JobStatus, SourceType } from './types';
+
+export const JOB_STATUSES: JobStatus[] = ['queued', 'fetching', 'extracting', 'enriching', 'saved', 'skipped', 'failed'];
+
+export const TERMINAL_STATUSES: JobStatus[] = ['saved', 'skipped', 'failed'];
+
+export class JobStore {
+  private filePath: string;
+
+  constructor(filePath?: string) {
+    this.filePath = filePath || process.env.JOB_STORE_PATH || path.join(DATA_DIR, 'jobs.json');
+  }
+
+  async create(
+    url: string,
+    options: { batchId?: string; feedId?: string; reprocess?: boolean; sourceType?: SourceType; sourceName?: string } = {}
+  ): Promise<Job> {
+    const now = new Date().toISOString();
+    const job: Job = {
+      id: randomUUID(),
+      url,
+      status: 'queued',
+      createdAt: now,
+      updatedAt: now,
+      history: [{ status: 'queued', at: now }],
+      errors: []
+    };
+
+    if (options.batchId) {
+      job.batchId = options.batchId;
+    }
+
+    if (options.feedId) {
+      job.feedId = options.feedId;
+    }
+
+    if (options.reprocess) {
+      job.reprocess = true;
+    }
+
+    if (options.sourceType && options.sourceType !== 'url') {
+      job.sourceType = options.sourceType;
+    }
+
+    if (options.sourceName) {
+      job.sourceName = options.sourceName;
+    }
+
+    await updateJsonFile<Job[]>(this.filePath, [], jobs => {
+      jobs.push(job);
+    });
+
+    return job;
+  }
+
+  async get(id: string): Promise<Job | null> {
+    const jobs = await this.readAll();
+    return jobs.find(job => job.id === id) || null;
+  }
+
+  async list(options: { status?: JobStatus; batchId?: string; limit?: number } = {}): Promise<Job[]> {
+    let jobs = await this.readAll();
+
+    if (options.status) {
+      jobs = jobs.filter(job => job.status === options.status);
+    }
+
+    if (options.batchId) {
+      jobs = jobs.filter(job => job.batchId === options.batchId);
+    }
+
+    // Newest first
+    jobs.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    return options.limit ? jobs.slice(0, options.limit) : jobs;
+  }
+
+  async setStatus(id: string, status: JobStatus, patch: Partial<Pick<Job, 'result' | 'dedup' | 'error' | 'errors' | 'skipReason' | 'deals'>> = {}): Promise<Job> {
+    return updateJsonFile<Job[], Job>(this.filePath, [], jobs => {
+      const job = jobs.find(j => j.id === id);
+      if (!job) {
+        throw new Error(`Job not found: ${id}`);
+      }
+
+      const now = new Date().toISOString();
+      Object.assign(job, patch);
+      job.updatedAt = now;
+
+      if (job.status !== status) {
+        job.status = status;
+        job.history.push({ status, at: now });
+      }
+
+      if (TERMINAL_STATUSES.includes(status)) {
+        job.completedAt = now;
+      }
+
+      return job;
+    });
+  }
+
+  private async readAll(): Promise<Job[]> {
+    const jobs = await readJsonFile<Job[]>(this.filePath, []);
+    return Array.isArray(jobs) ? jobs : [];
+  }
+}
@@ -0,0 +1,48 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Local persistence lives under ./data unless overridden per store.
+export const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), 'data');
+
+// Writes are serialized per file so concurrent updates from background jobs
+// never interleave a read-modify-write cycle.
+const writeLocks = new Map<string, Promise<unknown>>();
+
+export async function readJsonFile<T>(filePath: string, fallback: T): Promise<T> {
+  try {
+    const raw = await fs.readFile(filePath, 'utf8');
+    return JSON.parse(raw) as T;
+  } catch (error: any) {
+    if (error && error.code === 'ENOENT') {
+      return fallback;
+    }
+    throw error;
+  }
+}
+
+export async function writeJsonFile(filePath: string, data: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+  // Write to a temp file first so a crash mid-write can't corrupt the store
+  const tempPath = `${filePath}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf8');
+  await fs.rename(tempPath, filePath);
+}
+
+export async function updateJsonFile<T, R = void>(
+  filePath: string,
+  fallback: T,
+  change: (data: T) => R
+): Promise<R> {
+  const previous = writeLocks.get(filePath) || Promise.resolve();
+
+  const next = previous.catch(() => undefined).then(async () => {
+    const data = await readJsonFile<T>(filePath, fallback);
+    const result = change(data);
+    await writeJsonFile(filePath, data);
+    return result;
+  });
+
+  writeLocks.set(filePath, next);
+  return next;
+}
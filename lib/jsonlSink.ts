@@ -0,0 +1,50 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { PRData } from './types';
+import { ResultSink, SinkContext } from './resultSink';
+import { writeJsonFile } from './jsonFile';
+import { RollupStore } from './rollups';
+
+// Append-only log: one JSON document per line, never rewritten. The
+// roll-ups alongside it are derived and replaced on every write, and on a
+// refresh when a known deal changes.
+export class JsonlSink implements ResultSink {
+  readonly name = 'jsonl';
+  readonly upserts = false;
+  private filePath: string;
+  private rollups = new RollupStore();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async initialize(): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+  }
+
+  async write(data: PRData, context: SinkContext): Promise<void> {
+    const record = {
+      processedAt: context.processedAt,
+      sourceUrl: context.sourceUrl,
+      dealKey: context.dealKey,
+      jobId: context.jobId,
+      ...data
+    };
+
+    await this.initialize();
+    // A single appendFile call per line keeps each record intact
+    await fs.appendFile(this.filePath, JSON.stringify(record) + '\n', 'utf8');
+    await this.writeRollups(data, context);
+  }
+
+  async refresh(data: PRData, context: SinkContext): Promise<void> {
+    await this.initialize();
+    await this.writeRollups(data, context);
+  }
+
+  // results.jsonl -> results.rollups.json
+  private async writeRollups(data: PRData, context: SinkContext): Promise<void> {
+    const rollups = await this.rollups.record(data, context);
+    await writeJsonFile(this.filePath.replace(/\.jsonl$/, '') + '.rollups.json', Object.fromEntries(rollups.map(table => [table.name, table.rows])));
+  }
+}
@@ -0,0 +1,161 @@
+// Parsing and validation for JSON answers from the LLM. Models often wrap the
+// object in a ```json fence or add a sentence after it, and occasionally get a
+// field wrong; both are fixable without throwing the whole extraction away.
+
+// 'object' is any plain JSON object; use check to validate its contents.
+// 'object[]' items are validated against the field's items schema.
+export type FieldType = 'string' | 'number' | 'boolean' | 'string[]' | 'object' | 'object[]';
+
+export interface FieldSchema {
+  type: FieldType;
+  nullable?: boolean;
+  // Missing optional fields are left undefined for the caller to default
+  optional?: boolean;
+  enum?: readonly string[];
+  min?: number;
+  max?: number;
+  items?: ObjectSchema;
+  // Returns a description of the problem, or null when the value is fine
+  check?: (value: any) => string | null;
+}
+
+export type ObjectSchema = Record<string, FieldSchema>;
+
+export interface ParsedResponse<T> {
+  value: T;
+  // Human-readable notes on what had to be fixed, empty for a clean response
+  repairs: string[];
+}
+
+// Finds the first complete JSON object in the text, skipping code fences and
+// any prose before or after it.
+export function extractJsonObject(text: string): string | null {
+  const unfenced = text.replace(/```(?:json)?/gi, '');
+  const start = unfenced.indexOf('{');
+  if (start === -1) return null;
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  for (let i = start; i < unfenced.length; i++) {
+    const char = unfenced[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') inString = true;
+    else if (char === '{') depth++;
+    else if (char === '}' && --depth === 0) return unfenced.substring(start, i + 1);
+  }
+
+  return null;
+}
+
+export function validateAgainstSchema(value: unknown, schema: ObjectSchema): string[] {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return ['response must be a JSON object'];
+  }
+
+  const errors: string[] = [];
+  const record = value as Record<string, unknown>;
+
+  for (const [field, rules] of Object.entries(schema)) {
+    const fieldValue = record[field];
+
+    if (fieldValue === undefined) {
+      if (!rules.optional) errors.push(`${field} is missing`);
+      continue;
+    }
+    if (fieldValue === null) {
+      if (!rules.nullable) errors.push(`${field} must not be null`);
+      continue;
+    }
+
+    const typeError = checkType(field, fieldValue, rules.type);
+    if (typeError) {
+      errors.push(typeError);
+      continue;
+    }
+
+    if (rules.enum && !rules.enum.includes(fieldValue as string)) {
+      errors.push(`${field} must be one of: ${rules.enum.join(', ')} (got "${fieldValue}")`);
+    }
+    if (rules.min !== undefined && (fieldValue as number) < rules.min) {
+      errors.push(`${field} must be at least ${rules.min} (got ${fieldValue})`);
+    }
+    if (rules.max !== undefined && (fieldValue as number) > rules.max) {
+      errors.push(`${field} must be at most ${rules.max} (got ${fieldValue})`);
+    }
+    const problem = rules.check?.(fieldValue);
+    if (problem) errors.push(`${field} ${problem}`);
+
+    if (rules.items) {
+      (fieldValue as unknown[]).forEach((item, index) => {
+        errors.push(...validateAgainstSchema(item, rules.items!).map(error => `${field}[${index}]: ${error}`));
+      });
+    }
+  }
+
+  return errors;
+}
+
+function checkType(field: string, value: unknown, type: FieldType): string | null {
+  switch (type) {
+    case 'string[]':
+      return Array.isArray(value) && value.every(item => typeof item === 'string')
+        ? null
+        : `${field} must be an array of strings`;
+    case 'number':
+      return typeof value === 'number' && isFinite(value) ? null : `${field} must be a number`;
+    case 'object':
+      return typeof value === 'object' && !Array.isArray(value) ? null : `${field} must be a JSON object`;
+    case 'object[]':
+      return Array.isArray(value) ? null : `${field} must be an array of JSON objects`;
+    default:
+      return typeof value === type ? null : `${field} must be a ${type}`;
+  }
+}
+
+function parseAndValidate(responseText: string, schema: ObjectSchema): { value: unknown; errors: string[]; unwrapped: boolean } {
+  const json = extractJsonObject(responseText);
+  if (!json) {
+    return { value: null, errors: ['response does not contain a JSON object'], unwrapped: false };
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (error) {
+    return { value: null, errors: [`response is not valid JSON: ${error instanceof Error ? error.message : error}`], unwrapped: false };
+  }
+
+  return { value, errors: validateAgainstSchema(value, schema), unwrapped: json !== responseText.trim() };
+}
+
+// Parses the response against the schema. When it fails, `repair` is called
+// once with the validation errors and must return the model's corrected
+// response; a second failure throws.
+export async function parseWithRepair<T>(
+  responseText: string,
+  schema: ObjectSchema,
+  repair: (errors: string[]) => Promise<string>
+): Promise<ParsedResponse<T>> {
+  const repairs: string[] = [];
+
+  const first = parseAndValidate(responseText, schema);
+  if (first.errors.length === 0) {
+    if (first.unwrapped) repairs.push('Extracted JSON from surrounding text in LLM response');
+    return { value: first.value as T, repairs };
+  }
+
+  console.log('LLM response failed validation, requesting repair:', first.errors);
+  const second = parseAndValidate(await repair(first.errors), schema);
+  if (second.errors.length > 0) {
+    throw new Error(`LLM response failed validation after repair: ${second.errors.join('; ')}`);
+  }
+
+  repairs.push(`Repaired LLM response (${first.errors.join('; ')})`);
+  return { value: second.value as T, repairs };
+}
@@ -0,0 +1,254 @@
+import fs from 'fs';
+import path from 'path';
+import { Money } from './types';
+
+// Longest tokens first so "US$" wins over "$" and "Rs." over "Rs"
+const CURRENCY_PREFIXES: [string, string][] = [
+  ['US$', 'USD'], ['CA$', 'CAD'], ['AU$', 'AUD'], ['HK$', 'HKD'], ['NZ$', 'NZD'], ['SG$', 'SGD'],
+  ['C$', 'CAD'], ['A$', 'AUD'], ['S$', 'SGD'], ['R$', 'BRL'], ['Rs.', 'INR'], ['Rs', 'INR'],
+  ['$', 'USD'], ['€', 'EUR'], ['£', 'GBP'], ['₹', 'INR'], ['¥', 'JPY'], ['₩', 'KRW'], ['₦', 'NGN'], ['₪', 'ILS']
+];
+
+const ISO_CODES = [
+  'USD', 'EUR', 'GBP', 'INR', 'CHF', 'CAD', 'AUD', 'JPY', 'CNY', 'RMB', 'SGD', 'HKD', 'NZD', 'SEK', 'NOK', 'DKK',
+  'BRL', 'KRW', 'NGN', 'ILS', 'AED', 'SAR', 'ZAR', 'MXN', 'PLN', 'IDR', 'KES'
+];
+
+const CURRENCY_WORDS: [RegExp, string][] = [
+  [/^(us )?dollars?$/i, 'USD'],
+  [/^euros?$/i, 'EUR'],
+  [/^(pounds?( sterling)?|sterling)$/i, 'GBP'],
+  [/^rupees?$/i, 'INR'],
+  [/^swiss francs?$/i, 'CHF'],
+  [/^yen$/i, 'JPY']
+];
+
+const UNIT_MULTIPLIERS: [RegExp, number][] = [
+  [/^(trillions?|tn|t)$/i, 1e12],
+  [/^(billions?|bn|b|mrd|milliards?)$/i, 1e9],
+  [/^(crores?|cr)$/i, 1e7],
+  [/^(millions?|mn|mln|mio|mm|m)$/i, 1e6],
+  [/^(lakhs?|lacs?)$/i, 1e5],
+  [/^(thousands?|k)$/i, 1e3]
+];
+
+const SYMBOLS: Record<string, string> = { USD: '$', EUR: '€', GBP: '£', INR: '₹', JPY: '¥' };
+
+const escape = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const PREFIX_PATTERN = [...CURRENCY_PREFIXES.map(([token]) => escape(token)), ...ISO_CODES].join('|');
+const UNIT_PATTERN = 'trillions?|tn|billions?|bn|mrd|milliards?|crores?|cr|millions?|mn|mln|mio|mm|lakhs?|lacs?|thousands?|[tbmk]';
+const SUFFIX_PATTERN = [...ISO_CODES, '€', '£', '₹', 'swiss francs?', 'us dollars?', 'dollars?', 'euros?', 'pounds? sterling', 'pounds?', 'sterling', 'rupees?', 'yen'].join('|');
+
+const MONEY_PATTERN = new RegExp(
+  `(?:(?<![a-z])(${PREFIX_PATTERN})\\s?)?` +
+  `(\\d(?:[\\d.,\\u00a0\\u202f]*\\d)?)` +
+  `(?:\\s?(${UNIT_PATTERN})(?![a-z])\\.?)?` +
+  `(?:\\s?(${SUFFIX_PATTERN})(?![a-z]))?`,
+  'gi'
+);
+
+// Phrases that tell us a money mention is the round itself rather than, say, revenue
+const FUNDING_CONTEXT = /\b(rais(e|ed|es|ing)|funding|round|investment|financing|secur(e|ed|es)|closed?|series [a-z]|seed)\b/i;
+const FUNDING_CONTEXT_ALL = new RegExp(FUNDING_CONTEXT.source, 'gi');
+
+export interface ParseMoneyOptions {
+  // Used when the text has an amount and a unit ("25M", "1.2 billion") but no
+  // currency marker; a bare number such as a year is never money
+  defaultCurrency?: string;
+}
+
+interface MoneyMention {
+  money: Money;
+  start: number;
+  end: number;
+}
+
+export function parseMoney(text: string, options: ParseMoneyOptions = {}): Money | null {
+  if (!text) return null;
+
+  MONEY_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = MONEY_PATTERN.exec(text)) !== null) {
+    const money = toMoney(match, options);
+    if (money) return money;
+  }
+
+  return null;
+}
+
+// Scans article text for the amount raised: in the first sentence with
+// funding language, the mention closest to it ("revenue of $5M ... raised
+// €12M" is €12M); otherwise the first money mention at all.
+export function findMoneyInText(text: string): Money | null {
+  if (!text) return null;
+
+  const mentions: MoneyMention[] = [];
+  MONEY_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = MONEY_PATTERN.exec(text)) !== null) {
+    const money = toMoney(match, {});
+    if (money) mentions.push({ money, start: match.index, end: match.index + match[0].length });
+  }
+
+  for (const mention of mentions) {
+    const sentence = sentenceAround(text, mention.start, mention.end);
+    if (!FUNDING_CONTEXT.test(text.substring(sentence.start, sentence.end))) continue;
+
+    const keywords = Array.from(text.substring(sentence.start, sentence.end).matchAll(FUNDING_CONTEXT_ALL))
+      .map(keyword => ({ start: sentence.start + keyword.index!, end: sentence.start + keyword.index! + keyword[0].length }));
+    const distance = (candidate: MoneyMention) => Math.min(...keywords.map(keyword =>
+      Math.max(keyword.start - candidate.end, candidate.start - keyword.end, 0)
+    ));
+
+    // Ties go to the earlier mention
+    return mentions
+      .filter(candidate => candidate.start >= sentence.start && candidate.end <= sentence.end)
+      .reduce((best, candidate) => distance(candidate) < distance(best) ? candidate : best)
+      .money;
+  }
+
+  return mentions[0]?.money || null;
+}
+
+// Bounds of the sentence containing text[start, end), looking at most 150
+// characters back and 100 ahead
+function sentenceAround(text: string, start: number, end: number): { start: number; end: number } {
+  const beforeStart = Math.max(0, start - 150);
+  const before = text.substring(beforeStart, start);
+  const after = text.substring(end, end + 100);
+  const sentenceStart = before.search(/[.!?]\s(?!.*[.!?]\s)/);
+  const sentenceEnd = after.search(/[.!?](\s|$)/);
+
+  return {
+    start: sentenceStart === -1 ? beforeStart : beforeStart + sentenceStart + 2,
+    end: sentenceEnd === -1 ? end + after.length : end + sentenceEnd
+  };
+}
+
+function toMoney(match: RegExpExecArray, options: ParseMoneyOptions): Money | null {
+  const [, prefix, rawNumber, unit, suffix] = match;
+
+  const value = parseNumber(rawNumber);
+  if (value === null) return null;
+
+  const multiplier = unit ? unitMultiplier(unit) : 1;
+
+  // Indian units imply rupees even without a currency marker
+  const impliedCurrency = unit && /^(crores?|cr|lakhs?|lacs?)$/i.test(unit) ? 'INR' : undefined;
+  const currency = currencyFromPrefix(prefix) || currencyFromSuffix(suffix) || impliedCurrency || (unit ? options.defaultCurrency : undefined);
+  if (!currency) return null;
+
+  // A bare single letter ("5 m") only counts as a unit next to a currency marker
+  if (!prefix && !suffix && unit && unit.length === 1 && !options.defaultCurrency) return null;
+
+  const amount = Math.round(value * multiplier * 100) / 100;
+  return { amount, currency, display: formatMoney(amount, currency) };
+}
+
+// Handles "1,500,000", "1.500.000", "8,5", "8.5" and "1.234.567,89".
+export function parseNumber(raw: string): number | null {
+  let value = raw.replace(/[\s\u00a0\u202f]/g, '');
+  const lastComma = value.lastIndexOf(',');
+  const lastDot = value.lastIndexOf('.');
+
+  if (lastComma !== -1 && lastDot !== -1) {
+    // Whichever separator comes last is the decimal point
+    if (lastComma > lastDot) {
+      value = value.replace(/\./g, '').replace(',', '.');
+    } else {
+      value = value.replace(/,/g, '');
+    }
+  } else if (lastComma !== -1) {
+    const groups = value.split(',');
+    // "1,500" / "1,500,000" are thousands; "8,5" / "12,75" are European decimals
+    const isThousands = groups.slice(1).every(group => group.length === 3);
+    value = isThousands ? groups.join('') : groups.slice(0, -1).join('') + '.' + groups[groups.length - 1];
+  } else if (lastDot !== -1) {
+    const groups = value.split('.');
+    // "1.500.000" is European thousands; a single dot is a decimal point
+    if (groups.length > 2 && groups.slice(1).every(group => group.length === 3)) {
+      value = groups.join('');
+    }
+  }
+
+  const parsed = parseFloat(value);
+  return isFinite(parsed) ? parsed : null;
+}
+
+function unitMultiplier(unit: string): number {
+  const found = UNIT_MULTIPLIERS.find(([pattern]) => pattern.test(unit));
+  return found ? found[1] : 1;
+}
+
+function currencyFromPrefix(prefix?: string): string | undefined {
+  if (!prefix) return undefined;
+  const upper = prefix.toUpperCase();
+  const symbol = CURRENCY_PREFIXES.find(([token]) => token.toUpperCase() === upper);
+  if (symbol) return symbol[1];
+  return normalizeCode(upper);
+}
+
+function currencyFromSuffix(suffix?: string): string | undefined {
+  if (!suffix) return undefined;
+  const word = CURRENCY_WORDS.find(([pattern]) => pattern.test(suffix));
+  if (word) return word[1];
+  const symbol = CURRENCY_PREFIXES.find(([token]) => token === suffix);
+  if (symbol) return symbol[1];
+  return normalizeCode(suffix.toUpperCase());
+}
+
+function normalizeCode(code: string): string | undefined {
+  if (code === 'RMB') return 'CNY';
+  return ISO_CODES.includes(code) ? code : undefined;
+}
+
+// Rupee amounts are shown the way Indian releases state them ("₹250 crore")
+export function formatMoney(amount: number, currency: string): string {
+  const units: [number, string][] = currency === 'INR'
+    ? [[1e7, ' crore'], [1e5, ' lakh'], [1e3, 'K']]
+    : [[1e12, 'T'], [1e9, 'B'], [1e6, 'M'], [1e3, 'K']];
+  const [divisor, suffix] = units.find(([size]) => amount >= size) || [1, ''];
+  const scaled = parseFloat((amount / divisor).toFixed(2));
+  const symbol = SYMBOLS[currency];
+
+  return symbol ? `${symbol}${scaled}${suffix}` : `${currency} ${scaled}${suffix}`;
+}
+
+interface FxRateTable {
+  asOf?: string;
+  // USD value of one unit of each currency
+  usdPerUnit: Record<string, number>;
+}
+
+const DEFAULT_FX_RATES_PATH = path.join(process.cwd(), 'config', 'fx-rates.json');
+
+let cachedRates: { filePath: string; table: FxRateTable | null } | null = null;
+
+// Rates come from a local file (FX_RATES_PATH) rather than a live service, so
+// conversions are reproducible and work offline.
+export function loadFxRates(filePath: string = process.env.FX_RATES_PATH || DEFAULT_FX_RATES_PATH): FxRateTable | null {
+  if (cachedRates && cachedRates.filePath === filePath) {
+    return cachedRates.table;
+  }
+
+  let table: FxRateTable | null = null;
+  try {
+    table = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    console.log(`FX rate table not available at ${filePath}; USD conversion disabled`);
+  }
+
+  cachedRates = { filePath, table };
+  return table;
+}
+
+export function convertToUsd(money: Money | null, rates: FxRateTable | null = loadFxRates()): number | null {
+  if (!money) return null;
+  if (money.currency === 'USD') return money.amount;
+
+  const rate = rates?.usdPerUnit[money.currency];
+  if (!rate) return null;
+
+  return Math.round(money.amount * rate);
+}
@@ -0,0 +1,285 @@
+import * as cheerio from 'cheerio';
+import { StructuredRelease } from './types';
+
+interface NewswireParser {
+  source: string;
+  hosts: RegExp;
+  headline: string[];
+  subheadline: string[];
+  body: string[];
+  published: string[];
+  contact: string[];
+}
+
+// Selectors are tried in order; the first one that yields content wins. The
+// meta-tag fallbacks in parseNewswireHtml cover layout changes on any wire.
+const PARSERS: NewswireParser[] = [
+  {
+    source: 'Business Wire',
+    hosts: /(^|\.)businesswire\.com$/,
+    headline: ['.bw-release-main h1', 'h1.epr-headline', 'h1'],
+    subheadline: ['.bw-release-subhead', '.bw-release-subheadline', 'h2.subhead'],
+    body: ['.bw-release-story', '[itemprop="articleBody"]', 'article'],
+    published: ['.bw-release-timestamp time[datetime]', 'time[datetime]'],
+    contact: ['.bw-release-contact']
+  },
+  {
+    source: 'PR Newswire',
+    hosts: /(^|\.)prnewswire\.(com|co\.uk)$/,
+    headline: ['.release-header h1', 'header h1', 'h1'],
+    subheadline: ['.release-header h2', '.subtitle', 'header h2'],
+    body: ['.release-body', 'section.release-body', '[itemprop="articleBody"]', 'article'],
+    published: ['.release-header .mb-no', 'p.mb-no', 'time[datetime]'],
+    contact: []
+  },
+  {
+    source: 'GlobeNewswire',
+    hosts: /(^|\.)globenewswire\.com$/,
+    headline: ['h1.article-headline', '.main-title-container h1', 'h1'],
+    subheadline: ['.article-sub-headline', 'h2.article-sub-headline'],
+    body: ['#main-body-container', '.main-body-container', '[itemprop="articleBody"]', 'article'],
+    published: ['.article-published time[datetime]', 'time[datetime]', '[itemprop="datePublished"]'],
+    contact: ['#contact-container', '.contact-container']
+  },
+  {
+    source: 'Accesswire',
+    hosts: /(^|\.)accesswire\.com$/,
+    headline: ['#articleHeader h1', '.article-header h1', 'h1'],
+    subheadline: ['#articleHeader h2', '.article-header h2'],
+    body: ['#articlebody', '.articlebody', '.article-body', 'article'],
+    published: ['#articleHeader time[datetime]', 'time[datetime]', '.article-date'],
+    contact: ['.contact-info']
+  },
+  {
+    source: 'EIN Presswire',
+    hosts: /(^|\.)einpresswire\.com$|(^|\.)einnews\.com$/,
+    headline: ['h1.article-title', '.article h1', 'h1'],
+    subheadline: ['.article .subtitle', 'h2.subtitle', 'p.subtitle'],
+    body: ['.article_column .article-content', '.article-content', 'div.article', 'article'],
+    published: ['.article_column time[datetime]', 'time[datetime]', '.press-release-date'],
+    contact: ['.contact-block', '.article-contacts']
+  }
+];
+
+const ABOUT_HEADING = /^about\s+([^:]{2,60}?)\s*:?$/i;
+const ABOUT_INLINE = /^about\s+([^:]{2,60}?)\s*(?::|\s[-–—])\s+(.+)$/i;
+// A heading may end in an abbreviated legal suffix, but not a full stop
+const LEGAL_SUFFIX_END = /\b(inc|ltd|corp|co|llc|plc|l\.p|s\.a|n\.v)\.$/i;
+// "About 200 enterprises ...", "About half of ..." are body sentences
+const QUANTITY_WORD = /^(\d|(a|an|one|two|three|four|five|six|seven|eight|nine|ten|twenty|thirty|forty|fifty|hundreds?|thousands?|millions?|dozens?|half|several|many|once|twice)\b)/i;
+const CONTACT_HEADING = /^(media|press|investor|company)?\s*(relations\s+)?contacts?(\s+information)?\s*:?$/i;
+const CONTACT_INLINE = /^(media|press|investor)\s+contacts?\s*:\s*(.+)$/i;
+const SOURCE_LINE = /^SOURCE\s+(.+)$/;
+const END_MARKER = /^(#{3}|-{3}|\*{3})$/;
+
+// Business Wire / GlobeNewswire style: "SAN FRANCISCO--(BUSINESS WIRE)--" or
+// PR Newswire style: "NEW YORK, March 5, 2024 /PRNewswire/ --"
+const DATELINE = /^(.{2,120}?(?:--\s*\((?:BUSINESS WIRE|GLOBE NEWSWIRE)\)\s*--|\/\s*(?:PRNewswire|PRNewswire-PRWeb|ACCESSWIRE|EINPresswire|GLOBE NEWSWIRE)[^/]*\/\s*(?:--|–|—)?|\((?:GLOBE NEWSWIRE|ACCESSWIRE|EIN Presswire|EINPresswire)\)\s*(?:--|–|—)))\s*/i;
+
+export function findNewswireParser(url: string): NewswireParser | null {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+  return PARSERS.find(parser => parser.hosts.test(hostname)) || null;
+}
+
+export function parseNewswireHtml(url: string, html: string): StructuredRelease | null {
+  const parser = findNewswireParser(url);
+  if (!parser) return null;
+
+  const $ = cheerio.load(html);
+  $('script, style, nav, footer, aside, .advertisement, .ad, .social-share, .cookie-banner').remove();
+
+  const body = firstMatch($, parser.body, el => el.text().trim().length > 200);
+  if (!body) {
+    console.log(`${parser.source} parser found no release body; using generic extraction`);
+    return null;
+  }
+
+  const headline = textOf(firstMatch($, parser.headline)) ||
+    $('meta[property="og:title"]').attr('content') || $('title').text().trim();
+  const subheadline = textOf(firstMatch($, parser.subheadline));
+
+  const publishedEl = firstMatch($, parser.published);
+  const publishedAt = normalizeTimestamp(
+    publishedEl?.attr('datetime') ||
+    $('meta[property="article:published_time"]').attr('content') ||
+    $('meta[name="date"]').attr('content') ||
+    $('meta[name="DC.date.issued"]').attr('content') ||
+    textOf(publishedEl)
+  );
+
+  const blocks = collectBlocks($, body);
+  const release = splitSections(blocks);
+
+  const contactEl = firstMatch($, parser.contact);
+  if (contactEl && !release.mediaContact) {
+    release.mediaContact = collapse(contactEl.text());
+  }
+
+  return {
+    source: parser.source,
+    headline: collapse(headline),
+    subheadline,
+    publishedAt,
+    ...release
+  };
+}
+
+// Renders the structured release as labelled sections for the LLM prompt.
+// The short sections come before the body so prompt truncation only ever
+// cuts the tail of the body, never the boilerplate that names the company.
+export function formatStructuredRelease(release: StructuredRelease): string {
+  const sections = [
+    `Source: ${release.source}`,
+    `Headline: ${release.headline}`,
+    release.subheadline ? `Subheadline: ${release.subheadline}` : '',
+    `Published: ${release.publishedAt || 'unknown'}`,
+    release.dateline ? `Dateline: ${release.dateline}` : '',
+    ...release.boilerplates.map(b => `About ${b.company} (company boilerplate):\n${b.text}`),
+    release.mediaContact ? `Media Contact:\n${release.mediaContact}` : '',
+    `Body:\n${release.paragraphs.join('\n\n')}`
+  ];
+
+  return sections.filter(Boolean).join('\n\n');
+}
+
+function firstMatch($: cheerio.CheerioAPI, selectors: string[], accept?: (el: cheerio.Cheerio<cheerio.Element>) => boolean): cheerio.Cheerio<cheerio.Element> | null {
+  for (const selector of selectors) {
+    const el = $(selector).first() as cheerio.Cheerio<cheerio.Element>;
+    if (el.length > 0 && el.text().trim() && (!accept || accept(el))) {
+      return el;
+    }
+  }
+  return null;
+}
+
+function textOf(el: cheerio.Cheerio<cheerio.Element> | null): string {
+  return el ? collapse(el.text()) : '';
+}
+
+function collapse(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+// Block-level text in document order; nested blocks are not double counted
+function collectBlocks($: cheerio.CheerioAPI, body: cheerio.Cheerio<cheerio.Element>): string[] {
+  const blockTags = 'p, h2, h3, h4, h5, li, pre, blockquote, table';
+  const blocks: string[] = [];
+
+  body.find(blockTags).each((_, el) => {
+    if ($(el).parents(blockTags).length > 0) return;
+    const text = el.tagName === 'table'
+      ? $(el).find('tr').map((__, row) => collapse($(row).text())).get().join('\n')
+      : collapse($(el).text());
+    if (text) blocks.push(text);
+  });
+
+  // Some wires put the release in bare text separated by <br>
+  if (blocks.length === 0) {
+    return body.text().split(/\n\s*\n/).map(collapse).filter(Boolean);
+  }
+
+  return blocks;
+}
+
+type Section = 'body' | 'about' | 'contact';
+
+// Dateline, body paragraphs, "About" boilerplates and media contact from a
+// release's text blocks in document order. Also used for PDF releases.
+export function splitSections(blocks: string[]): Pick<StructuredRelease, 'dateline' | 'paragraphs' | 'boilerplates' | 'mediaContact'> {
+  const paragraphs: string[] = [];
+  const boilerplates: StructuredRelease['boilerplates'] = [];
+  const contact: string[] = [];
+  let dateline = '';
+  let section: Section = 'body';
+
+  for (let block of blocks) {
+    if (END_MARKER.test(block)) {
+      section = 'contact';
+      continue;
+    }
+
+    if (!dateline && paragraphs.length === 0) {
+      const match = block.match(DATELINE);
+      if (match) {
+        dateline = collapse(match[1].replace(/(--|–|—)\s*$/, ''));
+        block = block.substring(match[0].length).trim();
+        if (!block) continue;
+      }
+    }
+
+    const aboutHeading = block.length <= 90 ? block.match(ABOUT_HEADING) : null;
+    const headingCompany = aboutHeading && boilerplateCompany(aboutHeading[1]);
+    if (headingCompany) {
+      boilerplates.push({ company: headingCompany, text: '' });
+      section = 'about';
+      continue;
+    }
+    const aboutInline = block.match(ABOUT_INLINE);
+    const inlineCompany = aboutInline && boilerplateCompany(aboutInline[1]);
+    if (aboutInline && inlineCompany) {
+      boilerplates.push({ company: inlineCompany, text: aboutInline[2].trim() });
+      section = 'about';
+      continue;
+    }
+
+    if (CONTACT_HEADING.test(block)) {
+      section = 'contact';
+      continue;
+    }
+    const contactInline = block.match(CONTACT_INLINE);
+    if (contactInline) {
+      contact.push(contactInline[2]);
+      section = 'contact';
+      continue;
+    }
+
+    const sourceLine = block.match(SOURCE_LINE);
+    if (sourceLine) {
+      contact.push(`Source: ${sourceLine[1]}`);
+      section = 'contact';
+      continue;
+    }
+
+    if (section === 'about') {
+      const current = boilerplates[boilerplates.length - 1];
+      current.text = current.text ? `${current.text}\n${block}` : block;
+    } else if (section === 'contact') {
+      contact.push(block);
+    } else {
+      paragraphs.push(block);
+    }
+  }
+
+  return {
+    dateline,
+    paragraphs,
+    boilerplates: boilerplates.filter(b => b.text),
+    mediaContact: contact.join('\n')
+  };
+}
+
+// The company named by an "About <Company>" heading, or null when the text is
+// a sentence that merely starts with "About"
+function boilerplateCompany(name: string): string | null {
+  const company = name.trim();
+  if (/[.!?]\s/.test(company)) return null;
+  if (company.endsWith('.') && !LEGAL_SUFFIX_END.test(company)) return null;
+  if (QUANTITY_WORD.test(company)) return null;
+  // "About Acme Robotics", "About the Company"
+  if (!/^(the\s+)?[A-Z]/.test(company)) return null;
+  return company.replace(/\.$/, '');
+}
+
+function normalizeTimestamp(value: string | undefined): string | null {
+  if (!value) return null;
+
+  // PR Newswire shows "Mar 05, 2024, 08:00 ET"
+  const cleaned = value.replace(/\b(ET|EST|EDT)\b/, '').replace(/,\s*$/, '').trim();
+  const parsed = new Date(cleaned);
+  return isNaN(parsed.getTime()) ? null : parsed.toISOString();
+}
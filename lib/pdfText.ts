@@ -0,0 +1,178 @@
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import { splitSections } from './newswireParsers';
+import { StructuredRelease } from './types';
+
+export interface PdfBlock {
+  text: string;
+  // Set in a larger font than the body text
+  heading: boolean;
+  page: number;
+}
+
+export interface PdfText {
+  // Document info dictionary; often empty or the file name
+  title: string;
+  createdAt: string | null;
+  blocks: PdfBlock[];
+  // Link annotations, in page order
+  links: string[];
+}
+
+interface Line {
+  text: string;
+  x: number;
+  y: number;
+  size: number;
+  page: number;
+}
+
+// Text this much larger than the body size is treated as a heading
+const HEADING_RATIO = 1.15;
+// Vertical gap, in multiples of the font size, that starts a new paragraph
+const PARAGRAPH_GAP = 1.6;
+const PAGE_NUMBER = /^(page\s+)?\d{1,3}(\s*(of|\/)\s*\d{1,3})?$/i;
+
+export function isPdf(data: Uint8Array, contentType = ''): boolean {
+  return /application\/(x-)?pdf/i.test(contentType) || Buffer.from(data.subarray(0, 5)).toString('latin1') === '%PDF-';
+}
+
+// "D:20240305090000-05'00'" -> "2024-03-05T14:00:00.000Z"
+export function parsePdfDate(value: string | undefined): string | null {
+  const match = value?.match(/^(?:D:)?(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?(Z|[+-])?(\d{2})?'?(\d{2})?/);
+  if (!match) return null;
+
+  const [, year, month = '01', day = '01', hour = '00', minute = '00', second = '00', sign, offsetHours = '00', offsetMinutes = '00'] = match;
+  const offset = sign === '+' || sign === '-' ? `${sign}${offsetHours}:${offsetMinutes}` : 'Z';
+  const date = new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}${offset}`);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+// Items that share a baseline, left to right, with spaces where the gap
+// between two items is wider than a narrow glyph
+function toLines(items: TextItem[], page: number): Line[] {
+  const sorted = items
+    .filter(item => item.str.trim())
+    .map(item => ({ item, x: item.transform[4], y: item.transform[5], size: Math.hypot(item.transform[2], item.transform[3]) || item.height }))
+    .sort((a, b) => b.y - a.y || a.x - b.x);
+
+  const lines: { y: number; size: number; parts: typeof sorted }[] = [];
+  for (const part of sorted) {
+    const line = lines.find(candidate => Math.abs(candidate.y - part.y) <= Math.max(candidate.size, part.size) * 0.4);
+    if (line) {
+      line.parts.push(part);
+      line.size = Math.max(line.size, part.size);
+    } else {
+      lines.push({ y: part.y, size: part.size, parts: [part] });
+    }
+  }
+
+  return lines
+    .sort((a, b) => b.y - a.y)
+    .map(line => {
+      const parts = line.parts.sort((a, b) => a.x - b.x);
+      let text = '';
+      let end = -Infinity;
+      for (const { item, x, size } of parts) {
+        if (text && x - end > size * 0.15 && !/\s$/.test(text) && !/^\s/.test(item.str)) text += ' ';
+        text += item.str;
+        end = x + item.width;
+      }
+      return { text: text.replace(/\s+/g, ' ').trim(), x: parts[0].x, y: line.y, size: line.size, page };
+    })
+    .filter(line => !PAGE_NUMBER.test(line.text));
+}
+
+// Font size covering the most characters
+function bodySize(lines: Line[]): number {
+  const counts = new Map<number, number>();
+  for (const line of lines) {
+    const size = Math.round(line.size * 2) / 2;
+    counts.set(size, (counts.get(size) || 0) + line.text.length);
+  }
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] || 0;
+}
+
+// Lines into paragraphs and headings. A paragraph ends at a heading, a wider
+// gap than the line spacing, or a page break after a finished sentence.
+function toBlocks(lines: Line[]): PdfBlock[] {
+  const body = bodySize(lines);
+  const blocks: PdfBlock[] = [];
+  let previous: Line | null = null;
+
+  for (const line of lines) {
+    const heading = line.size >= body * HEADING_RATIO;
+    const current = blocks[blocks.length - 1];
+
+    const continues = previous && current && current.heading === heading && (
+      previous.page === line.page
+        ? previous.y - line.y <= Math.max(previous.size, line.size) * PARAGRAPH_GAP && Math.abs(previous.size - line.size) < 0.5
+        : !heading && !/[.!?:"”]$/.test(current.text)
+    );
+
+    if (continues) {
+      // Rejoin words hyphenated across lines ("autono-" + "mous")
+      current.text = /[a-z]-$/.test(current.text) && /^[a-z]/.test(line.text)
+        ? current.text.slice(0, -1) + line.text
+        : `${current.text} ${line.text}`;
+    } else {
+      blocks.push({ text: line.text, heading, page: line.page });
+    }
+    previous = line;
+  }
+
+  return blocks;
+}
+
+export async function extractPdfText(data: Uint8Array): Promise<PdfText> {
+  // The legacy build runs in Node without a DOM or a worker file
+  const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
+  const document = await pdfjs.getDocument({
+    data: new Uint8Array(data),
+    isEvalSupported: false,
+    disableFontFace: true,
+    useSystemFonts: false,
+    verbosity: 0
+  }).promise;
+
+  try {
+    const lines: Line[] = [];
+    const links: string[] = [];
+
+    for (let number = 1; number <= document.numPages; number++) {
+      const page = await document.getPage(number);
+      const content = await page.getTextContent();
+      lines.push(...toLines(content.items.filter((item): item is TextItem => 'str' in item), number));
+
+      for (const annotation of await page.getAnnotations()) {
+        if (annotation.subtype === 'Link' && typeof annotation.url === 'string') links.push(annotation.url);
+      }
+    }
+
+    const { info } = await document.getMetadata() as { info: Record<string, any> };
+    return {
+      title: typeof info?.Title === 'string' ? info.Title.trim() : '',
+      createdAt: parsePdfDate(info?.CreationDate),
+      blocks: toBlocks(lines),
+      links: Array.from(new Set(links))
+    };
+  } finally {
+    await document.destroy();
+  }
+}
+
+// Same sections as the newswire parsers produce: the first heading is the
+// headline, headings before the first paragraph are the subheadline and the
+// rest is split into body, "About" boilerplates and media contact.
+export function structurePdfRelease(pdf: PdfText): StructuredRelease {
+  const firstParagraph = pdf.blocks.findIndex(block => !block.heading);
+  const leading = pdf.blocks.slice(0, firstParagraph === -1 ? pdf.blocks.length : firstParagraph).filter(block => block.heading);
+  const rest = pdf.blocks.slice(leading.length);
+
+  return {
+    source: 'PDF',
+    headline: leading[0]?.text || pdf.title,
+    subheadline: leading.slice(1).map(block => block.text).join(' '),
+    publishedAt: pdf.createdAt,
+    ...splitSections(rest.map(block => block.text))
+  };
+}
@@ -1,108 +1,418 @@
-import axios from 'axios';
+import axios, { AxiosInstance } from 'axios';
 import * as cheerio from 'cheerio';
-import Anthropic from '@anthropic-ai/sdk';
-import { PRData } from './types';
-import { ApolloService } from './apolloService';
+import {
+  PRData, ExtractedDeal, ExtractionStage, StructuredRelease, ExecutiveContact, ReleaseInput, SourceType,
+  AnnouncementClassification, ExtractedAcquisition, ExtractedFundClose
+} from './types';
+import { parseMoney, findMoneyInText, convertToUsd } from './money';
+import { normalizeRoundType, normalizeAnnouncementDate } from './rounds';
+import { parseNewswireHtml, formatStructuredRelease } from './newswireParsers';
+import {
+  extractWithRules, crossCheckExtraction, extractAcquisitionWithRules, extractFundCloseWithRules,
+  findRoundupSections, extractRoundupWithRules
+} from './ruleExtractor';
+import { releaseSchema, roundupSchema, ANNOUNCEMENT_TYPE_SCHEMA, ACQUISITION_SCHEMA, ACQUISITION_DEAL_TYPES, FUND_CLOSE_SCHEMA } from './extractionSchema';
+import { ANNOUNCEMENT_TYPES, classifyAnnouncementByRules } from './announcementType';
+import { Taxonomy, describeTaxonomy, loadTaxonomy, toCategoryScores } from './taxonomy';
+import { resolveInvestors } from './investors';
+import { parseEml } from './emlParser';
+import { extractPdfText, isPdf, structurePdfRelease } from './pdfText';
+import { HttpTransport, getHttpTransport } from './httpTransport';
+import { backoffDelay, classifyError } from './requestPolicy';
+import { ClaudeClient } from './claudeClient';
+import { ContactProviderChain } from './contactProvider';
+import { createContactProviderChain } from './contactConfig';
+import { RiskScorer } from './riskScoring';
+import { normalizeCompanyName } from './dedup';
+
+// Confidence points removed for each key field the rule-based pass disagrees on
+const CROSS_CHECK_PENALTY = 15;
+
+// Base delay between whole-extraction retries; individual requests are
+// already retried by the transport
+const RETRY_BASE_DELAY_MS = 3000;
+
+interface FetchedRelease {
+  content: string;
+  // Present when a site-specific newswire parser recognised the page
+  structured: StructuredRelease | null;
+  // Outbound links on the page, used to find the company's own website
+  links: string[];
+}
+
+// Shortest pasted or uploaded release worth sending to the model
+const MIN_INPUT_LENGTH = 100;
+
+// How supplied content is described to the model in place of a URL
+const INPUT_DESCRIPTIONS: Record<ReleaseInput['type'], string> = {
+  text: 'pasted text',
+  html: 'an uploaded HTML file',
+  eml: 'an email',
+  pdf: 'an uploaded PDF'
+};
+
+// Links to these sites never point at the funded company's website
+const NON_COMPANY_HOSTS = /(^|\.)(twitter|x|linkedin|facebook|instagram|youtube|tiktok|google|apple|bit|t|businesswire|prnewswire|globenewswire|accesswire|einpresswire|einnews|cision|prweb|newswire|crunchbase|pitchbook|techcrunch|reuters|bloomberg)\.(com|co|ly|net|org)$/i;
+
+// Roundups cover many companies, so they get more of the article and a
+// longer answer than a single release
+const ROUNDUP_LENGTH = 16000;
+const ROUNDUP_MAX_TOKENS = 4000;
+
+// Text sent to the model when asking what kind of announcement a release is
+const CLASSIFY_LENGTH = 3000;
+
+// Result for a release that isn't a funding round. The funding fields stay
+// empty; acquisitions and fund closes carry their details separately.
+function nonFundingResult(fields: Pick<PRData, 'companyName' | 'announcementDate' | 'headquarters' | 'confidence' | 'extractionErrors' | 'sourceType' | 'announcementType' | 'announcementReason'>): PRData {
+  return {
+    ceoEmail: 'EMAIL NOT FOUND',
+    cmoEmail: 'EMAIL NOT FOUND',
+    leadInvestor: 'NOT FOUND',
+    followOnInvestors: [],
+    investors: [],
+    amountRaised: 'NOT FOUND',
+    amount: null,
+    amountUsd: null,
+    roundType: 'Unknown',
+    postMoneyValuation: null,
+    useOfFunds: 'NOT FOUND',
+    classification: 'UNKNOWN',
+    categories: [],
+    isScam: false,
+    executives: [],
+    riskScore: 0,
+    riskReasons: [],
+    ...fields
+  };
+}
+
+// One funding round from the model's validated answer, with the defaults
+// for fields it left empty
+function toExtractedDeal(extracted: any): ExtractedDeal {
+  const deal: ExtractedDeal = {
+    companyName: extracted.companyName || 'NOT FOUND',
+    leadInvestor: extracted.leadInvestor || 'NOT FOUND',
+    followOnInvestors: extracted.followOnInvestors,
+    amountRaised: extracted.amountRaised || 'NOT FOUND',
+    roundType: extracted.roundType,
+    announcementDate: extracted.announcementDate,
+    postMoneyValuation: extracted.postMoneyValuation,
+    headquarters: extracted.headquarters || 'NOT FOUND',
+    useOfFunds: extracted.useOfFunds || 'NOT FOUND',
+    primaryCategory: extracted.primaryCategory,
+    categoryScores: extracted.categoryScores,
+    isScam: extracted.isScam,
+    confidence: Math.round(extracted.confidence)
+  };
+  if (extracted.evidence) deal.evidence = extracted.evidence;
+  return deal;
+}
+
+// Pages are decoded with the charset they declare, UTF-8 otherwise
+function decodePage(body: Buffer, contentType: string): string {
+  const charset = contentType.match(/charset=["']?([\w-]+)/i)?.[1] || 'utf-8';
+  try {
+    return new TextDecoder(charset).decode(body);
+  } catch {
+    return body.toString('utf8');
+  }
+}
 
 export class PRExtractor {
-  private anthropic: Anthropic;
+  private claude: ClaudeClient;
+  private contacts: ContactProviderChain;
+  private risk: RiskScorer;
+  private taxonomy: Taxonomy;
+  private http: AxiosInstance;
   private maxRetries = 2;
+  // Set EXTRACTION_CROSS_CHECK=false to skip comparing Claude's answer with the rule-based one
+  private crossCheck = process.env.EXTRACTION_CROSS_CHECK !== 'false';
 
-  constructor() {
-    this.anthropic = new Anthropic({
-      apiKey: process.env.ANTHROPIC_API_KEY!,
-    });
+  constructor(transport: HttpTransport = getHttpTransport(), contacts?: ContactProviderChain) {
+    this.http = transport.http;
+    this.claude = new ClaudeClient(transport);
+    this.contacts = contacts || createContactProviderChain(transport, this.claude);
+    this.risk = new RiskScorer(transport.http);
+    this.taxonomy = loadTaxonomy();
+  }
+
+  // Takes a URL to fetch, or a release that was pasted or uploaded. Returns
+  // the first deal for articles that report several; see extractDeals.
+  async extractPRData(source: string | ReleaseInput, onProgress?: (stage: ExtractionStage) => void): Promise<PRData> {
+    return (await this.extractDeals(source, onProgress))[0];
   }
 
-  async extractPRData(url: string): Promise<PRData> {
+  // Every deal in the release, one per funded company for roundups. Always
+  // returns at least one entry; a failed extraction is a single
+  // "EXTRACTION FAILED" result.
+  async extractDeals(source: string | ReleaseInput, onProgress?: (stage: ExtractionStage) => void): Promise<PRData[]> {
     let attempt = 0;
     let lastError = '';
 
     while (attempt <= this.maxRetries) {
       try {
-        return await this.performExtraction(url);
+        return await this.performExtraction(source, onProgress);
       } catch (error) {
         attempt++;
         lastError = error instanceof Error ? error.message : 'Unknown error';
         console.error(`Extraction attempt ${attempt} failed:`, error);
-        
+
+        // Permanent failures (404, 401, invalid URL, ...) fail the same way every time
+        const failure = classifyError(error);
+        if (!failure.retryable) break;
+
         if (attempt <= this.maxRetries) {
-          console.log(`Retrying in 3 seconds...`);
-          await this.delay(3000);
+          const wait = backoffDelay(attempt - 1, RETRY_BASE_DELAY_MS, failure.retryAfterMs);
+          console.log(`Retrying in ${wait}ms...`);
+          await this.delay(wait);
         }
       }
     }
 
-    return {
+    return [{
       companyName: 'EXTRACTION FAILED',
       ceoEmail: 'EMAIL NOT FOUND',
       cmoEmail: 'EMAIL NOT FOUND',
       leadInvestor: 'EXTRACTION FAILED',
       followOnInvestors: [],
+      investors: [],
       amountRaised: 'EXTRACTION FAILED',
+      amount: null,
+      amountUsd: null,
+      roundType: 'Unknown',
+      announcementDate: null,
+      postMoneyValuation: null,
+      headquarters: 'NOT FOUND',
+      useOfFunds: 'NOT FOUND',
       classification: 'UNKNOWN',
+      categories: [],
       isScam: false,
       confidence: 0,
-      extractionErrors: [lastError]
-    };
+      extractionErrors: [lastError],
+      executives: [],
+      riskScore: 0,
+      riskReasons: [],
+      sourceType: typeof source === 'string' ? 'url' : source.type,
+      announcementType: 'funding',
+      announcementReason: ''
+    }];
   }
 
-private async performExtraction(url: string): Promise<PRData> {
-  console.log('Starting Claude-powered extraction for:', url);
+private async performExtraction(source: string | ReleaseInput, onProgress?: (stage: ExtractionStage) => void): Promise<PRData[]> {
+  const input = typeof source === 'string' ? null : source;
+  // Supplied content may come without the URL it was published at
+  const url = typeof source === 'string' ? source : (source.url || '');
+  console.log('Starting Claude-powered extraction for:', input ? `${input.type} input ${input.fileName || ''}`.trim() : url);
+  onProgress?.('fetching');
   
   // Step 1: Try direct fetch first
-  let prContent = '';
+  let fetched: FetchedRelease;
   let extractionMethod = '';
   
-  try {
-    prContent = await this.fetchPRContent(url);
-    extractionMethod = 'direct_fetch';
-  } catch (error) {
-    console.log('Direct fetch failed, trying fallback methods...');
-    
-    // Step 2: Try URL-based extraction for known patterns
-    prContent = await this.tryUrlBasedExtraction(url);
-    extractionMethod = 'url_based';
+  if (input) {
+    fetched = await this.readReleaseInput(input);
+    extractionMethod = fetched.structured ? `newswire_parser (${fetched.structured.source})` : `${input.type}_input`;
+  } else {
+    try {
+      fetched = await this.fetchPRContent(url);
+      extractionMethod = fetched.structured ? `newswire_parser (${fetched.structured.source})` : 'direct_fetch';
+    } catch (error) {
+      console.log('Direct fetch failed, trying fallback methods...');
+      
+      // Step 2: Try URL-based extraction for known patterns
+      fetched = { content: await this.tryUrlBasedExtraction(url), structured: null, links: [] };
+      extractionMethod = 'url_based';
+    }
   }
   
+  const prContent = fetched.content;
   if (!prContent) {
     throw new Error('Unable to access content from this URL with any method');
   }
   
   console.log(`Content extracted via: ${extractionMethod}`);
   
-  // Step 3: Use Claude to extract structured data
-  const extractedData = await this.extractWithClaude(prContent, url);
-  
-  // Step 4: Find executive contacts (if company name was found)
-  let executiveContacts: { ceoEmail?: string; cmoEmail?: string } = {};
-  if (extractedData.companyName && extractedData.companyName !== 'NOT FOUND') {
-    executiveContacts = await this.findExecutiveContactsWithApollo(extractedData.companyName);
+  // Step 3: Work out what kind of announcement this is; acquisitions and
+  // fund closes have their own schemas and anything else is reported as
+  // not relevant
+  onProgress?.('extracting');
+  const sourceType: SourceType = input ? input.type : 'url';
+  const classification = await this.classifyAnnouncement(prContent, url, fetched.structured, input);
+  console.log(`Classified as ${classification.type} (${classification.method}): ${classification.reason}`);
+
+  if (classification.type === 'acquisition') {
+    return [await this.extractAcquisition(prContent, url, fetched.structured, input, classification)];
+  }
+  if (classification.type === 'fund_close') {
+    return [await this.extractFundClose(prContent, url, fetched.structured, input, classification)];
+  }
+  if (classification.type !== 'funding') {
+    const rules = extractWithRules(prContent, url, fetched.structured, this.taxonomy);
+    return [nonFundingResult({
+      companyName: rules.companyName,
+      announcementDate: normalizeAnnouncementDate(rules.announcementDate) || normalizeAnnouncementDate(fetched.structured?.publishedAt),
+      headquarters: rules.headquarters,
+      confidence: classification.confidence,
+      extractionErrors: [],
+      sourceType,
+      announcementType: classification.type,
+      announcementReason: classification.reason
+    })];
+  }
+
+  // Step 4: Use Claude to extract structured data, falling back to the
+  // rule-based extractor when the API is unavailable. Articles naming
+  // several funded companies yield one deal per company: ones that look like
+  // roundups get the roundup prompt, and the single-release prompt reports
+  // any other rounds it finds.
+  const extractionNotes: string[] = [];
+  let deals: ExtractedDeal[];
+  if (findRoundupSections(prContent, fetched.structured).length > 0) {
+    try {
+      const claude = await this.extractRoundupWithClaude(prContent, url, fetched.structured, input);
+      deals = claude.deals;
+      extractionNotes.push(...claude.repairs);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Unknown error';
+      console.log('Claude unavailable, using rule-based roundup extraction:', reason);
+      deals = extractRoundupWithRules(prContent, fetched.structured, this.taxonomy);
+      extractionMethod += ' + rules';
+      extractionNotes.push(`Used rule-based extraction: ${reason}`);
+    }
+    console.log(`Found ${deals.length} deals in the article`);
+  } else {
+    const ruleData = extractWithRules(prContent, url, fetched.structured, this.taxonomy);
+    let extractedData: ExtractedDeal;
+    let otherDeals: ExtractedDeal[] = [];
+    try {
+      const claude = await this.extractWithClaude(prContent, url, fetched.structured, input);
+      extractedData = claude.deal;
+      otherDeals = claude.otherDeals;
+      extractionNotes.push(...claude.repairs);
+
+      if (this.crossCheck) {
+        const disagreements = crossCheckExtraction(extractedData, ruleData);
+        if (disagreements.length > 0) {
+          extractedData.confidence = Math.max(0, extractedData.confidence - disagreements.length * CROSS_CHECK_PENALTY);
+          extractionNotes.push(`Rule-based cross-check disagrees on ${disagreements.join(', ')}`);
+        }
+      }
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Unknown error';
+      console.log('Claude unavailable, using rule-based extraction:', reason);
+      extractedData = ruleData;
+      extractionMethod += ' + rules';
+      extractionNotes.push(`Used rule-based extraction: ${reason}`);
+    }
+    deals = [extractedData, ...otherDeals];
+    if (otherDeals.length > 0) console.log(`Found ${deals.length} deals in the release`);
+  }
+
+  // A deal from an article that reports several is checked only against its
+  // own part of the article, so one company's amount or red flags aren't
+  // attributed to the others
+  const sections = deals.length > 1 ? findRoundupSections(prContent, fetched.structured) : [];
+  const results: PRData[] = [];
+  for (const deal of deals) {
+    const section = sections.find(candidate => normalizeCompanyName(candidate.companyName) === normalizeCompanyName(deal.companyName));
+    results.push(await this.completeDeal(deal, {
+      content: prContent,
+      dealText: deals.length > 1 ? section?.text || deal.evidence || '' : prContent,
+      url,
+      fetched,
+      notes: extractionNotes,
+      sourceType,
+      reason: classification.reason
+    }, onProgress));
   }
-  
-  const result = {
-    companyName: extractedData.companyName,
-    ceoEmail: executiveContacts.ceoEmail || 'EMAIL NOT FOUND',
-    cmoEmail: executiveContacts.cmoEmail || 'EMAIL NOT FOUND',
-    leadInvestor: extractedData.leadInvestor,
-    followOnInvestors: extractedData.followOnInvestors,
-    amountRaised: extractedData.amountRaised,
-    classification: extractedData.classification,
-    isScam: extractedData.isScam,
-    confidence: extractedData.confidence,
-    extractionErrors: []
-  };
 
-  console.log('Claude extraction completed:', result);
-  return result;
+  console.log(`Extraction completed via ${extractionMethod}:`, results);
+  return results;
 }
 
-  private async fetchPRContent(url: string): Promise<string> {
+  // Normalizes one extracted deal, looks up its executives and scores it
+  private async completeDeal(
+    extractedData: ExtractedDeal,
+    release: { content: string; dealText: string; url: string; fetched: FetchedRelease; notes: string[]; sourceType: SourceType; reason: string },
+    onProgress?: (stage: ExtractionStage) => void
+  ): Promise<PRData> {
+    const { content, dealText, url, fetched } = release;
+    const multiDeal = dealText !== content;
+
+    // Normalize the amount; fall back to scanning the deal's own text if
+    // Claude's value doesn't parse
+    const amount = parseMoney(extractedData.amountRaised, { defaultCurrency: 'USD' }) || findMoneyInText(dealText);
+
+    // Step 5: Find executive contacts (if company name was found)
+    let executives: ExecutiveContact[] = [];
+    if (extractedData.companyName && extractedData.companyName !== 'NOT FOUND') {
+      onProgress?.('enriching');
+      executives = await this.contacts.findExecutives({
+        companyName: extractedData.companyName,
+        releaseLinks: fetched.links,
+        releaseText: content
+      });
+    }
+    const ceo = executives.find(contact => contact.role === 'CEO');
+    const cmo = executives.find(contact => contact.role === 'CMO');
+    const categories = toCategoryScores(this.taxonomy, extractedData.primaryCategory, extractedData.categoryScores);
+    const investors = resolveInvestors(extractedData.leadInvestor, extractedData.followOnInvestors);
+
+    const result: PRData = {
+      companyName: extractedData.companyName,
+      ceoEmail: ceo ? ceo.email : 'EMAIL NOT FOUND',
+      cmoEmail: cmo ? cmo.email : 'EMAIL NOT FOUND',
+      leadInvestor: investors.leadInvestor,
+      followOnInvestors: investors.followOnInvestors,
+      investors: investors.investors,
+      amountRaised: amount ? amount.display : extractedData.amountRaised,
+      amount,
+      amountUsd: convertToUsd(amount),
+      roundType: normalizeRoundType(extractedData.roundType),
+      announcementDate: normalizeAnnouncementDate(extractedData.announcementDate) ||
+        normalizeAnnouncementDate(fetched.structured?.publishedAt),
+      postMoneyValuation: parseMoney(extractedData.postMoneyValuation, { defaultCurrency: amount?.currency || 'USD' }),
+      headquarters: extractedData.headquarters,
+      useOfFunds: extractedData.useOfFunds,
+      classification: categories[0].label,
+      categories,
+      isScam: extractedData.isScam,
+      confidence: extractedData.confidence,
+      extractionErrors: [...release.notes],
+      executives,
+      riskScore: 0,
+      riskReasons: [],
+      sourceType: release.sourceType,
+      announcementType: 'funding',
+      announcementReason: release.reason
+    };
+    if (extractedData.evidence) result.evidence = extractedData.evidence;
+
+    // Step 6: Score the announcement; the model's verdict is one signal among several
+    // The headline and media contact belong to the whole article, so they're
+    // left out for deals that share it
+    const risk = await this.risk.score({
+      url,
+      content: dealText,
+      structured: multiDeal ? null : fetched.structured,
+      releaseLinks: fetched.links,
+      deal: result,
+      modelFlagged: extractedData.isScam
+    });
+    result.riskScore = risk.score;
+    result.riskReasons = risk.reasons;
+    result.isScam = risk.flagged;
+
+    return result;
+  }
+
+  private async fetchPRContent(url: string): Promise<FetchedRelease> {
   try {
     // Enhanced headers to bypass basic bot detection
     const headers = {
       'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-      'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8,application/signed-exchange;v=b3;q=0.7',
+      'Accept': 'text/html,application/xhtml+xml,application/pdf,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8,application/signed-exchange;v=b3;q=0.7',
       'Accept-Language': 'en-US,en;q=0.9',
       'Accept-Encoding': 'gzip, deflate, br',
       'DNT': '1',
@@ -117,10 +427,12 @@ private async performExtraction(url: string): Promise<PRData> {
 
     console.log('Attempting to fetch URL with enhanced headers...');
     
-    const response = await axios.get(url, {
+    const response = await this.http.get(url, {
       timeout: 30000,
       headers,
       maxRedirects: 5,
+      // Raw bytes so PDFs survive; HTML is decoded below
+      responseType: 'arraybuffer',
       validateStatus: (status) => status < 500, // Accept redirects and client errors
     });
     
@@ -133,12 +445,26 @@ private async performExtraction(url: string): Promise<PRData> {
     if (response.status === 404) {
       throw new Error('Article not found (404)');
     }
+
+    // Still rate limited after the transport's retries
+    if (response.status === 429) {
+      throw new Error('Rate limited - too many requests');
+    }
     
     if (response.status >= 400) {
       throw new Error(`HTTP ${response.status}: Unable to access article`);
     }
 
-    const html = response.data;
+    const body = Buffer.from(response.data || []);
+    const contentType = String(response.headers['content-type'] || '');
+
+    // Some announcements are only published as PDFs
+    if (isPdf(body, contentType)) {
+      console.log(`Fetched a ${body.length}-byte PDF`);
+      return await this.releaseFromPdf(body, url);
+    }
+
+    const html = decodePage(body, contentType);
     
     if (!html || html.length < 100) {
       throw new Error('Empty or invalid response received');
@@ -146,6 +472,49 @@ private async performExtraction(url: string): Promise<PRData> {
 
     console.log(`Successfully fetched ${html.length} characters of content`);
 
+    return this.releaseFromHtml(html, url);
+    
+  } catch (error) {
+    console.error('Fetch error details:', error);
+    
+    if (axios.isAxiosError(error)) {
+      if (error.code === 'ENOTFOUND') {
+        throw new Error('Website not found - check if URL is correct');
+      }
+      if (error.code === 'ECONNREFUSED') {
+        throw new Error('Connection refused - website may be down');
+      }
+      if (error.code === 'ETIMEDOUT') {
+        throw new Error('Request timed out - website is too slow to respond');
+      }
+      if (error.response?.status === 403) {
+        throw new Error('Access forbidden - website blocks automated access');
+      }
+      if (error.response?.status === 404) {
+        throw new Error('Article not found (404)');
+      }
+      if (error.response?.status === 429) {
+        throw new Error('Rate limited - too many requests');
+      }
+    }
+    
+    throw new Error(`Unable to access this link: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+  // Cleans a fetched or uploaded page down to the text sent to the model.
+  // meta overrides the page's own title and date, e.g. with an email's
+  // Subject and Date headers.
+  private releaseFromHtml(html: string, pageUrl = '', meta: { title?: string; published?: string } = {}): FetchedRelease {
+    const links = this.extractReleaseLinks(html, pageUrl);
+
+    // Known newswires get a deterministic, section-aware parse
+    const structured = parseNewswireHtml(pageUrl, html);
+    if (structured) {
+      const content = formatStructuredRelease(structured);
+      console.log(`Parsed ${structured.source} release: ${structured.paragraphs.length} paragraphs, ${structured.boilerplates.length} boilerplate section(s)`);
+      return { content, structured, links };
+    }
+
     // Extract clean text content with enhanced selectors for news sites
     const $ = cheerio.load(html);
     
@@ -195,46 +564,111 @@ private async performExtraction(url: string): Promise<PRData> {
     }
     
     // Get additional metadata
-    const title = $('title').text().trim() || $('h1').first().text().trim();
+    const title = meta.title || $('title').text().trim() || $('h1').first().text().trim();
     const description = $('meta[name="description"]').attr('content') || '';
+    const published = meta.published || $('meta[property="article:published_time"]').attr('content') ||
+      $('meta[name="date"]').attr('content') ||
+      $('time[datetime]').first().attr('datetime') || '';
     
     // Combine and clean
-    let content = `Title: ${title}\n\nDescription: ${description}\n\nContent: ${mainContent}`;
+    let content = `Title: ${title}\n\nPublished: ${published || 'unknown'}\n\nDescription: ${description}\n\nContent: ${mainContent}`;
     
     // Clean up whitespace but preserve structure
     content = content.replace(/\s+/g, ' ').trim();
     
     console.log(`Extracted ${content.length} characters of clean content`);
     
-    return content;
-    
-  } catch (error) {
-    console.error('Fetch error details:', error);
-    
-    if (axios.isAxiosError(error)) {
-      if (error.code === 'ENOTFOUND') {
-        throw new Error('Website not found - check if URL is correct');
-      }
-      if (error.code === 'ECONNREFUSED') {
-        throw new Error('Connection refused - website may be down');
-      }
-      if (error.code === 'ETIMEDOUT') {
-        throw new Error('Request timed out - website is too slow to respond');
-      }
-      if (error.response?.status === 403) {
-        throw new Error('Access forbidden - website blocks automated access');
-      }
-      if (error.response?.status === 404) {
-        throw new Error('Article not found (404)');
-      }
-      if (error.response?.status === 429) {
-        throw new Error('Rate limited - too many requests');
+    return { content, structured: null, links };
+  }
+
+  private releaseFromText(text: string, meta: { title?: string; published?: string } = {}): FetchedRelease {
+    if (text.replace(/\s+/g, '').length < MIN_INPUT_LENGTH) {
+      throw new Error('Not enough text to extract from');
+    }
+
+    // Pasted releases usually start with the headline
+    const title = meta.title || text.trim().split(/\r?\n/)[0].trim();
+    const links = Array.from(new Set(text.match(/https?:\/\/[^\s<>"')\]]+/g) || []))
+      .filter(link => this.isCompanyLink(link, ''));
+
+    const content = `Title: ${title}\n\nPublished: ${meta.published || 'unknown'}\n\nContent: ${text}`
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    return { content, structured: null, links };
+  }
+
+  // Headings and paragraphs in reading order, split into the same sections
+  // as a newswire page
+  private async releaseFromPdf(data: Uint8Array, pageUrl = ''): Promise<FetchedRelease> {
+    const pdf = await extractPdfText(data);
+    const structured = structurePdfRelease(pdf);
+    if (structured.paragraphs.join(' ').length < MIN_INPUT_LENGTH) {
+      throw new Error('No text found in the PDF - it may be a scanned image');
+    }
+
+    const pageHost = pageUrl ? new URL(pageUrl).hostname.replace(/^www\./, '') : '';
+    const links = pdf.links.filter(link => this.isCompanyLink(link, pageHost));
+    const content = formatStructuredRelease(structured);
+    console.log(`Parsed PDF release: ${pdf.blocks.length} blocks, ${structured.boilerplates.length} boilerplate section(s)`);
+
+    return { content, structured, links };
+  }
+
+  // Pasted text, an uploaded HTML file or PDF, or a raw .eml message; emails
+  // use their HTML part when they have one
+  private async readReleaseInput(input: ReleaseInput): Promise<FetchedRelease> {
+    if (input.type === 'pdf') {
+      return this.releaseFromPdf(Buffer.from(input.content, 'base64'), input.url);
+    }
+
+    if (input.type === 'html') {
+      return this.releaseFromHtml(input.content, input.url);
+    }
+
+    if (input.type === 'eml') {
+      const email = parseEml(input.content);
+      const meta = { title: email.subject, published: email.date || undefined };
+      if (email.html) return this.releaseFromHtml(email.html, input.url, meta);
+      if (email.text) return this.releaseFromText(email.text, meta);
+      throw new Error('Email has no text or HTML body');
+    }
+
+    return this.releaseFromText(input.content);
+  }
+
+  // Absolute links to other sites, in page order, minus navigation chrome
+  private extractReleaseLinks(html: string, pageUrl: string): string[] {
+    const $ = cheerio.load(html);
+    $('script, style, nav, header, footer').remove();
+    // Uploaded pages may have no URL; then only absolute links resolve
+    const base = pageUrl || undefined;
+    const pageHost = base ? new URL(base).hostname.replace(/^www\./, '') : '';
+
+    const links: string[] = [];
+    $('a[href]').each((_, el) => {
+      try {
+        const link = new URL($(el).attr('href') || '', base);
+        if (this.isCompanyLink(link.href, pageHost)) links.push(link.href);
+      } catch {
+        // Ignore malformed hrefs
       }
+    });
+
+    return Array.from(new Set(links));
+  }
+
+  private isCompanyLink(href: string, pageHost: string): boolean {
+    let link: URL;
+    try {
+      link = new URL(href);
+    } catch {
+      return false;
     }
-    
-    throw new Error(`Unable to access this link: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    const host = link.hostname.replace(/^www\./, '');
+    return /^https?:$/.test(link.protocol) && host !== pageHost && !NON_COMPANY_HOSTS.test(host);
   }
-}
+
 private async tryUrlBasedExtraction(url: string): Promise<string> {
   console.log('Attempting URL-based extraction...');
   
@@ -316,20 +750,195 @@ The specific content could not be accessed due to access restrictions.
   return content;
 }
 
-  private async extractWithClaude(content: string, url: string): Promise<{
-    companyName: string;
-    leadInvestor: string;
-    followOnInvestors: string[];
-    amountRaised: string;
-    classification: string;
-    isScam: boolean;
-    confidence: number;
-  }> {
+  // Keyword rules settle most releases; the model is only asked when the
+  // headline is ambiguous, and its answer falls back to the rules' guess
+  private async classifyAnnouncement(
+    content: string,
+    url: string,
+    structured: StructuredRelease | null,
+    input: ReleaseInput | null
+  ): Promise<AnnouncementClassification> {
+    const { decisive, ...rules } = classifyAnnouncementByRules(content, structured);
+    if (decisive) return rules;
+
+    const prompt = `Classify this press release by what it announces.
+
+${url || !input ? `URL: ${url}` : `SOURCE: ${INPUT_DESCRIPTIONS[input.type]}`}
+
+CONTENT:
+${content.substring(0, CLASSIFY_LENGTH)}
+
+Types:
+- funding: a company raised a funding round (equity, debt or grant)
+- acquisition: a company acquired, merged with or bought a stake in another company
+- fund_close: an investment firm closed or raised a fund it will invest from
+- partnership: a partnership, collaboration or customer agreement
+- product_launch: a new product, feature or service
+- other: anything else
+
+Respond ONLY with a JSON object: {"type": "one of ${ANNOUNCEMENT_TYPES.join(', ')}", "confidence": 0-100, "reason": "one short sentence"}`;
+
+    try {
+      const { value } = await this.claude.askForJson<any>(prompt, ANNOUNCEMENT_TYPE_SCHEMA, 200);
+      return { type: value.type, confidence: Math.round(value.confidence), method: 'model', reason: value.reason };
+    } catch (error) {
+      console.log('Claude unavailable, using rule-based announcement type:', error instanceof Error ? error.message : error);
+      return rules;
+    }
+  }
+
+  private async extractAcquisition(
+    content: string,
+    url: string,
+    structured: StructuredRelease | null,
+    input: ReleaseInput | null,
+    classification: AnnouncementClassification
+  ): Promise<PRData> {
+    const notes: string[] = [];
+    let deal: ExtractedAcquisition;
+    try {
+      const prompt = `You are an expert at extracting structured data from press releases about acquisitions and mergers.
+
+${url || !input ? `URL: ${url}` : `SOURCE: ${INPUT_DESCRIPTIONS[input.type]}${input.fileName ? ` (${input.fileName})` : ''}`}
+
+CONTENT:
+${content.substring(0, 8000)} ${content.length > 8000 ? '...(truncated)' : ''}
+
+Respond ONLY with a valid JSON object in this exact format:
+
+{
+  "acquirer": "The company or firm making the acquisition",
+  "target": "The company being acquired",
+  "dealValue": "Price paid in its original currency, like '$150M' or '€1.2B', or 'NOT FOUND' if undisclosed",
+  "dealType": "One of: ${ACQUISITION_DEAL_TYPES.join(', ')}",
+  "announcementDate": "Date the release was issued, in YYYY-MM-DD format",
+  "targetHeadquarters": "City and country where the target is headquartered",
+  "rationale": "One-sentence summary of why the deal was made",
+  "confidence": 85
+}
+
+Use "NOT FOUND" for anything the release doesn't state.`;
+      const { value, repairs } = await this.claude.askForJson<ExtractedAcquisition>(prompt, ACQUISITION_SCHEMA, 600);
+      deal = { ...value, confidence: Math.round(value.confidence) };
+      notes.push(...repairs);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Unknown error';
+      console.log('Claude unavailable, using rule-based acquisition extraction:', reason);
+      deal = extractAcquisitionWithRules(content, structured);
+      notes.push(`Used rule-based extraction: ${reason}`);
+    }
+
+    const dealValue = parseMoney(deal.dealValue, { defaultCurrency: 'USD' });
+    const result = nonFundingResult({
+      companyName: deal.target,
+      announcementDate: normalizeAnnouncementDate(deal.announcementDate) || normalizeAnnouncementDate(structured?.publishedAt),
+      headquarters: deal.targetHeadquarters,
+      confidence: deal.confidence,
+      extractionErrors: notes,
+      sourceType: input ? input.type : 'url',
+      announcementType: 'acquisition',
+      announcementReason: classification.reason
+    });
+    result.acquisition = {
+      acquirer: deal.acquirer,
+      target: deal.target,
+      dealValue,
+      dealValueUsd: convertToUsd(dealValue),
+      dealType: deal.dealType,
+      targetHeadquarters: deal.targetHeadquarters,
+      rationale: deal.rationale
+    };
+
+    console.log('Acquisition extracted:', result.acquisition);
+    return result;
+  }
+
+  private async extractFundClose(
+    content: string,
+    url: string,
+    structured: StructuredRelease | null,
+    input: ReleaseInput | null,
+    classification: AnnouncementClassification
+  ): Promise<PRData> {
+    const notes: string[] = [];
+    let fund: ExtractedFundClose;
+    try {
+      const prompt = `You are an expert at extracting structured data from press releases about investment firms closing new funds.
+
+${url || !input ? `URL: ${url}` : `SOURCE: ${INPUT_DESCRIPTIONS[input.type]}${input.fileName ? ` (${input.fileName})` : ''}`}
+
+CONTENT:
+${content.substring(0, 8000)} ${content.length > 8000 ? '...(truncated)' : ''}
+
+Respond ONLY with a valid JSON object in this exact format:
+
+{
+  "firmName": "The investment firm that raised the fund",
+  "fundName": "Name of the fund, e.g. 'Acme Ventures Fund IV'",
+  "fundSize": "Total committed capital in its original currency, like '$500M' or '€1.2B'",
+  "limitedPartners": ["Limited partners named in the release"],
+  "strategy": "One-sentence summary of what the fund will invest in",
+  "announcementDate": "Date the release was issued, in YYYY-MM-DD format",
+  "confidence": 85
+}
+
+Use "NOT FOUND" for strings and [] for arrays the release doesn't state.`;
+      const { value, repairs } = await this.claude.askForJson<ExtractedFundClose>(prompt, FUND_CLOSE_SCHEMA, 600);
+      fund = { ...value, confidence: Math.round(value.confidence) };
+      notes.push(...repairs);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Unknown error';
+      console.log('Claude unavailable, using rule-based fund close extraction:', reason);
+      fund = extractFundCloseWithRules(content, structured);
+      notes.push(`Used rule-based extraction: ${reason}`);
+    }
+
+    const fundSize = parseMoney(fund.fundSize, { defaultCurrency: 'USD' });
+    const result = nonFundingResult({
+      companyName: fund.firmName,
+      announcementDate: normalizeAnnouncementDate(fund.announcementDate) || normalizeAnnouncementDate(structured?.publishedAt),
+      headquarters: 'NOT FOUND',
+      confidence: fund.confidence,
+      extractionErrors: notes,
+      sourceType: input ? input.type : 'url',
+      announcementType: 'fund_close',
+      announcementReason: classification.reason
+    });
+    result.fundClose = {
+      firmName: fund.firmName,
+      fundName: fund.fundName,
+      fundSize,
+      fundSizeUsd: convertToUsd(fundSize),
+      limitedPartners: fund.limitedPartners,
+      strategy: fund.strategy
+    };
+
+    console.log('Fund close extracted:', result.fundClose);
+    return result;
+  }
+
+  private async extractWithClaude(
+    content: string,
+    url: string,
+    structured: StructuredRelease | null = null,
+    input: ReleaseInput | null = null
+  ): Promise<{ deal: ExtractedDeal; otherDeals: ExtractedDeal[]; repairs: string[] }> {
+    // Boilerplates name every company in the release, including investors,
+    // so tell the model how to pick the funded company out of them
+    const structureNote = structured ? `
+The content below was parsed from a ${structured.source} release into labelled sections (headline, dateline, "About" boilerplates, media contact, body).
+- The company that raised funding is the one whose "About" boilerplate describes the business named in the headline; other boilerplates usually describe investors or partners.
+- The media contact's organization is usually the funded company.
+- Prefer the "Published" timestamp or the dateline for announcementDate.
+` : '';
+
+    const source = url || !input ? `URL: ${url}` : `SOURCE: ${INPUT_DESCRIPTIONS[input.type]}${input.fileName ? ` (${input.fileName})` : ''}`;
+
     const prompt = `You are an expert at extracting structured data from press releases about company funding announcements. 
 
 Please analyze the following press release content and URL, then extract the requested information.
-
-URL: ${url}
+${structureNote}
+${source}
 
 CONTENT:
 ${content.substring(0, 8000)} ${content.length > 8000 ? '...(truncated)' : ''}
@@ -340,47 +949,44 @@ Please extract the following information and respond ONLY with a valid JSON obje
   "companyName": "The name of the company that raised funding (not the investor or parent company)",
   "leadInvestor": "The lead investor or main investor mentioned (if any)",
   "followOnInvestors": ["Array of follow-on or participating investors"],
-  "amountRaised": "Funding amount in format like '$150M' or '$4.05B' (use M for millions, B for billions)",
-  "classification": "One of: Web3 Company, AI Company, AI SaaS Company, SaaS Company, Software Company, Fintech Company, Biotech Company, CleanTech Company, Investment Firm, Other",
+  "amountRaised": "Funding amount in its original currency, in a format like '$150M', '$4.05B', '€40M', '£12M', '₹250 crore' or 'CHF 8.5M' (use M for millions, B for billions)",
+"roundType": "One of: Pre-seed, Seed, Series A, Series B, Series C, Series D, Series E, Series F, Growth, Debt, Grant, Unknown",
+  "announcementDate": "Date the announcement was published, from the article dateline or publication date, in YYYY-MM-DD format",
+  "postMoneyValuation": "Post-money valuation if disclosed, in the same format as amountRaised",
+  "headquarters": "City and country where the company is headquartered",
+  "useOfFunds": "One-sentence summary of how the company plans to use the funding",
+  "primaryCategory": "ID of the single category that best describes the company's main business",
+  "categoryScores": {"<category ID>": 0-100 fit score for the primary category and every other category that clearly applies},
   "isScam": false,
-  "confidence": 85
+  "confidence": 85,
+  "evidence": "The sentence from the release that reports this round, quoted exactly",
+  "otherDeals": []
 }
 
 IMPORTANT GUIDELINES:
 1. For company name: Look for the actual company that received funding. Extract from URL if unclear in content (e.g., "tae-technologies-raises" → "TAE Technologies")
-2. For funding amount: Look for patterns like "$150 million", "$4.05 billion", "150M", etc. Convert to standard format.
+2. For funding amount: Look for patterns like "$150 million", "$4.05 billion", "€40 million", "150M", etc. Convert to standard format but keep the original currency - never convert between currencies.
 3. For investors: Distinguish between lead investors (who led the round) and follow-on/participating investors
-4. For classification: Choose the most specific category that fits
-5. If information is clearly not found, use: "NOT FOUND" for strings, [] for arrays
-6. Confidence should be 0-100 based on how clear and complete the information is
-7. Set isScam to true only for obviously fraudulent/suspicious announcements
+4. For categories: Use only the category IDs listed below. Pick the most specific one as primaryCategory; a company can also fit other categories (e.g. an AI lending platform is fintech and ai), so score each one that applies
+5. For round type: Use the stage named in the release; large late-stage equity rounds without a series letter are "Growth", loans and credit facilities are "Debt"
+6. For announcement date: Use the date the release was issued (dateline or publication date), never today's date. Only report a valuation that is explicitly stated
+7. If information is clearly not found, use: "NOT FOUND" for strings, [] for arrays
+8. Confidence should be 0-100 based on how clear and complete the information is
+9. Set isScam to true only for obviously fraudulent/suspicious announcements
+10. If the release also reports rounds raised by other companies (e.g. a joint announcement or a list of deals), describe the first round in the fields above and add each of the others to otherDeals as an object with the same fields, including evidence. Keep each round's investors and amount with its own company; skip investors' own funds and rounds mentioned only as background
+
+CATEGORIES:
+${describeTaxonomy(this.taxonomy)}
 
 Respond with ONLY the JSON object, no additional text.`;
 
     try {
-      const response = await this.anthropic.messages.create({
-        model: 'claude-3-5-sonnet-20241022',
-        max_tokens: 1000,
-        messages: [{
-          role: 'user',
-          content: prompt
-        }]
-      });
+      const { value: extracted, repairs } = await this.claude.askForJson<any>(prompt, releaseSchema(this.taxonomy), 1500);
 
-      const responseText = response.content[0].type === 'text' ? response.content[0].text : '';
-      console.log('Claude response:', responseText);
-      
-      // Parse the JSON response
-      const extracted = JSON.parse(responseText);
-      
       return {
-        companyName: extracted.companyName || 'NOT FOUND',
-        leadInvestor: extracted.leadInvestor || 'NOT FOUND',
-        followOnInvestors: Array.isArray(extracted.followOnInvestors) ? extracted.followOnInvestors : [],
-        amountRaised: extracted.amountRaised || 'NOT FOUND',
-        classification: extracted.classification || 'Other',
-        isScam: Boolean(extracted.isScam),
-        confidence: Number(extracted.confidence) || 0
+        deal: toExtractedDeal(extracted),
+        otherDeals: (extracted.otherDeals || []).map(toExtractedDeal),
+        repairs
       };
     } catch (error) {
       console.error('Claude extraction error:', error);
@@ -388,177 +994,69 @@ Respond with ONLY the JSON object, no additional text.`;
     }
   }
 
-private async findExecutiveContactsWithApollo(companyName: string): Promise<{
-  ceoEmail?: string;
-  cmoEmail?: string;
-}> {
-  if (companyName === 'NOT FOUND' || companyName === 'EXTRACTION FAILED') {
-    return {};
-  }
+  // Same fields as extractWithClaude, once per funded company in the article
+  private async extractRoundupWithClaude(
+    content: string,
+    url: string,
+    structured: StructuredRelease | null = null,
+    input: ReleaseInput | null = null
+  ): Promise<{ deals: ExtractedDeal[]; repairs: string[] }> {
+    const source = url || !input ? `URL: ${url}` : `SOURCE: ${INPUT_DESCRIPTIONS[input.type]}${input.fileName ? ` (${input.fileName})` : ''}`;
 
-  console.log('Finding executive contacts via Apollo for:', companyName);
-  
-  try {
-    const apolloService = new ApolloService();
-    const result = await apolloService.findExecutiveContacts(companyName);
-    
-    console.log(`Apollo found: CEO=${result.ceoEmail || 'not found'}, CMO=${result.cmoEmail || 'not found'}`);
-    console.log(`Credits used: ${result.searchDetails.creditsUsed}`);
-    
-    return {
-      ceoEmail: result.ceoEmail,
-      cmoEmail: result.cmoEmail
-    };
-  } catch (error) {
-    console.error('Apollo service error:', error);
-    
-    // Fallback to web scraping if Apollo fails
-    console.log('Falling back to web scraping...');
-    return {
-  ceoEmail: undefined,
-  cmoEmail: undefined
-};
-  }
-}
-
-  private async searchCompanyWebsite(companyName: string): Promise<string | null> {
-    const domains = this.generatePossibleDomains(companyName);
-    
-    for (const domain of domains.slice(0, 3)) { // Try top 3 domains
-      const urls = [
-        `https://${domain}`,
-        `https://www.${domain}`,
-        `https://${domain}/about`,
-        `https://${domain}/team`,
-        `https://${domain}/leadership`,
-        `https://${domain}/about-us`,
-        `https://${domain}/management`
-      ];
-
-      for (const url of urls) {
-        try {
-          console.log(`Trying to fetch: ${url}`);
-          const response = await axios.get(url, { 
-            timeout: 10000,
-            headers: { 
-              'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
-            }
-          });
-          
-          if (response.status === 200) {
-            const $ = cheerio.load(response.data);
-            
-            // Remove unnecessary elements
-            $('script, style, nav, footer, .advertisement').remove();
-            
-            const content = $('body').text();
-            
-            // Look for executive-related content
-            if (content.toLowerCase().includes('ceo') || 
-                content.toLowerCase().includes('chief executive') ||
-                content.toLowerCase().includes('founder') ||
-                content.toLowerCase().includes('team') ||
-                content.toLowerCase().includes('leadership')) {
-              
-              console.log(`Found relevant content on: ${url}`);
-              return content.substring(0, 5000); // Limit content size
-            }
-          }
-        } catch (error) {
-          continue; // Try next URL
-        }
-      }
-    }
-    
-    return null;
-  }
-
-  private async extractExecutivesWithClaude(websiteContent: string, companyName: string): Promise<{
-    ceoEmail?: string;
-    cmoEmail?: string;
-  }> {
-    const prompt = `You are an expert at extracting executive contact information from company website content.
+    const prompt = `You are an expert at extracting structured data from articles about company funding announcements.
 
-Company Name: ${companyName}
+The article below reports funding rounds raised by several different companies, for example a weekly funding roundup. Extract every round it reports, one entry per company.
+${structured ? `It was parsed from a ${structured.source} release into labelled sections.\n` : ''}
+${source}
 
-Website Content:
-${websiteContent}
-
-Please analyze this content and extract executive information. Look for:
-1. CEO, Chief Executive Officer, Founder, Co-Founder names
-2. CMO, Chief Marketing Officer, Head of Marketing, Marketing Director names
-3. Email addresses associated with these executives
+CONTENT:
+${content.substring(0, ROUNDUP_LENGTH)} ${content.length > ROUNDUP_LENGTH ? '...(truncated)' : ''}
 
 Respond ONLY with a valid JSON object in this exact format:
 
 {
-  "ceoName": "Name of CEO/Founder if found, or null",
-  "ceoEmail": "Email of CEO if found, or constructed email if name found, or null",
-  "cmoName": "Name of CMO/Marketing head if found, or null", 
-  "cmoEmail": "Email of CMO if found, or constructed email if name found, or null"
+  "deals": [
+    {
+      "companyName": "The company that raised funding",
+      "leadInvestor": "The lead investor of this round (if any)",
+      "followOnInvestors": ["Other investors in this round"],
+      "amountRaised": "Amount in its original currency, like '$150M', '€40M' or '£12M'",
+      "roundType": "One of: Pre-seed, Seed, Series A, Series B, Series C, Series D, Series E, Series F, Growth, Debt, Grant, Unknown",
+      "announcementDate": "Date of this round's announcement, or of the article, in YYYY-MM-DD format",
+      "postMoneyValuation": "Post-money valuation if disclosed, in the same format as amountRaised",
+      "headquarters": "City and country where the company is headquartered",
+      "useOfFunds": "One-sentence summary of how the company plans to use the funding",
+      "primaryCategory": "ID of the single category that best describes the company's main business",
+      "categoryScores": {"<category ID>": 0-100 fit score for each category that clearly applies},
+      "isScam": false,
+      "confidence": 85,
+      "evidence": "The sentence from the article that reports this round, quoted exactly"
+    }
+  ]
 }
 
 IMPORTANT GUIDELINES:
-1. If you find a name but no direct email, construct a likely email using common patterns:
-   - firstname.lastname@companydomain.com
-   - firstname@companydomain.com
-   - f.lastname@companydomain.com
-2. Use the company domain from any email found on the site
-3. If no names or emails found, use null for all fields
-4. Be conservative - only include information you're confident about
+1. Only include rounds the article reports as raised; skip investors' own funds, acquisitions and rounds mentioned only as background
+2. Keep each round's investors and amount with its own company - never mix details between companies
+3. Keep the original currency - never convert between currencies
+4. If information is clearly not found, use: "NOT FOUND" for strings, [] for arrays
+
+CATEGORIES:
+${describeTaxonomy(this.taxonomy)}
 
 Respond with ONLY the JSON object, no additional text.`;
 
     try {
-      const response = await this.anthropic.messages.create({
-        model: 'claude-3-5-sonnet-20241022',
-        max_tokens: 500,
-        messages: [{
-          role: 'user',
-          content: prompt
-        }]
-      });
+      const { value, repairs } = await this.claude.askForJson<{ deals: any[] }>(prompt, roundupSchema(this.taxonomy), ROUNDUP_MAX_TOKENS);
+      if (value.deals.length === 0) {
+        throw new Error('no deals found in the article');
+      }
 
-      const responseText = response.content[0].type === 'text' ? response.content[0].text : '';
-      console.log('Claude executive extraction response:', responseText);
-      
-      const extracted = JSON.parse(responseText);
-      
-      return {
-        ceoEmail: extracted.ceoEmail || undefined,
-        cmoEmail: extracted.cmoEmail || undefined
-      };
+      return { deals: value.deals.map(toExtractedDeal), repairs };
     } catch (error) {
-      console.error('Claude executive extraction error:', error);
-      return {};
-    }
-  }
-
-  private generatePossibleDomains(companyName: string): string[] {
-    const cleanName = companyName
-      .toLowerCase()
-      .replace(/[^a-z0-9\s]/g, '')
-      .replace(/\s+/g, '');
-
-    const domains = [
-      `${cleanName}.com`,
-      `${cleanName}.co`,
-      `${cleanName}.io`
-    ];
-
-    // Remove common words and try again
-    const withoutCommon = cleanName
-      .replace(/(technologies|tech|systems|solutions|labs|inc|corp|ltd|company|co)/g, '');
-    
-    if (withoutCommon !== cleanName && withoutCommon.length > 2) {
-      domains.push(
-        `${withoutCommon}.com`,
-        `${withoutCommon}.co`,
-        `${withoutCommon}.io`
-      );
+      console.error('Claude roundup extraction error:', error);
+      throw new Error(`Claude extraction failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
-
-    return domains;
   }
 
   private delay(ms: number): Promise<void> {
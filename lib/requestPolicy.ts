@@ -0,0 +1,330 @@
+import axios, { AxiosAdapter, AxiosError, InternalAxiosRequestConfig } from 'axios';
+import type { FetchFunction } from './httpTransport';
+
+export interface ErrorClass {
+  retryable: boolean;
+  reason: string;
+  // How long the server asked us to wait, from a Retry-After header
+  retryAfterMs: number | null;
+}
+
+export interface RequestPolicyOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  // Longest we'll wait before a retry; a longer Retry-After fails the request instead
+  maxRetryWaitMs: number;
+  breakerThreshold: number;
+  breakerCooldownMs: number;
+  // Requests per period by host, plus a "default" entry for every other host
+  rateLimits: Record<string, RateLimit>;
+}
+
+interface RateLimit {
+  count: number;
+  perMs: number;
+}
+
+interface ResponseInfo {
+  status: number;
+  retryAfter: string | null;
+  discard?: () => void;
+}
+
+const DEFAULT_RATE_LIMITS = 'api.apollo.io=50/min,api.anthropic.com=50/min,default=2/s';
+
+const RETRYABLE_STATUSES = [408, 425, 429, 500, 502, 503, 504, 529];
+
+// Network failures that are worth another try. ENOTFOUND is left out: a
+// host that doesn't resolve won't start resolving a second later.
+const RETRYABLE_CODES = ['ECONNABORTED', 'ETIMEDOUT', 'ECONNRESET', 'ECONNREFUSED', 'EAI_AGAIN', 'ENETUNREACH', 'EPIPE', 'ERR_NETWORK'];
+
+const PERIODS: Record<string, number> = { s: 1000, sec: 1000, m: 60000, min: 60000, h: 3600000, hour: 3600000 };
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | null {
+  if (!value) return null;
+  const seconds = Number(value.trim());
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(0, date - now);
+}
+
+export function classifyStatus(status: number, retryAfter: string | null = null): ErrorClass {
+  return {
+    retryable: RETRYABLE_STATUSES.includes(status),
+    reason: `HTTP ${status}`,
+    retryAfterMs: parseRetryAfter(retryAfter)
+  };
+}
+
+// Decides whether a failed call is worth repeating. HTTP errors go by status
+// (404, 401 and the other 4xx are permanent), network errors by code, and
+// anything unrecognised - including invalid URLs - is treated as permanent.
+// Wrapped errors are classified by their cause.
+export function classifyError(error: unknown): ErrorClass {
+  if (axios.isAxiosError(error)) {
+    if (error.response) {
+      return classifyStatus(error.response.status, headerValue(error.response.headers, 'retry-after'));
+    }
+    const code = error.code || 'ERR_NETWORK';
+    return { retryable: RETRYABLE_CODES.includes(code), reason: code, retryAfterMs: null };
+  }
+
+  if (error instanceof Error) {
+    const code = (error as any).code;
+    if (code === 'ERR_INVALID_URL') {
+      return { retryable: false, reason: 'Invalid URL', retryAfterMs: null };
+    }
+    if (typeof code === 'string' && RETRYABLE_CODES.includes(code)) {
+      return { retryable: true, reason: code, retryAfterMs: null };
+    }
+    // fetch reports every network failure as a TypeError
+    if (error instanceof TypeError && /fetch failed|network/i.test(error.message)) {
+      return { retryable: true, reason: error.message, retryAfterMs: null };
+    }
+    if (error.cause) {
+      return classifyError(error.cause);
+    }
+    return { retryable: false, reason: error.message, retryAfterMs: null };
+  }
+
+  return { retryable: false, reason: String(error), retryAfterMs: null };
+}
+
+// Exponential backoff with jitter: somewhere between half and all of
+// base * 2^attempt, but never sooner than the server's Retry-After
+export function backoffDelay(attempt: number, baseDelayMs: number, retryAfterMs: number | null = null): number {
+  const exponential = baseDelayMs * Math.pow(2, attempt);
+  const jittered = Math.round(exponential / 2 + Math.random() * exponential / 2);
+  return Math.max(jittered, retryAfterMs || 0);
+}
+
+// OUTBOUND_RATE_LIMITS is a comma-separated list of host=count/period, e.g.
+// "api.apollo.io=50/min,default=2/s". Entries override the built-in limits.
+export function parseRateLimits(value: string): Record<string, RateLimit> {
+  const limits: Record<string, RateLimit> = {};
+  for (const entry of value.split(',').map(part => part.trim()).filter(Boolean)) {
+    const match = entry.match(/^([^=\s]+)\s*=\s*(\d+(?:\.\d+)?)\s*\/\s*([a-z]+)$/i);
+    const perMs = match && PERIODS[match[3].toLowerCase()];
+    if (!match || !perMs) {
+      throw new Error(`Invalid rate limit "${entry}". Expected host=count/period, e.g. api.apollo.io=50/min`);
+    }
+    limits[match[1].toLowerCase()] = { count: parseFloat(match[2]), perMs };
+  }
+  return limits;
+}
+
+function readNumber(name: string, fallback: number): number {
+  const parsed = parseInt(process.env[name] || '', 10);
+  return isNaN(parsed) || parsed < 0 ? fallback : parsed;
+}
+
+export function getRequestPolicyOptions(): RequestPolicyOptions {
+  return {
+    maxRetries: readNumber('OUTBOUND_MAX_RETRIES', 2),
+    baseDelayMs: readNumber('OUTBOUND_RETRY_BASE_MS', 500),
+    maxRetryWaitMs: readNumber('OUTBOUND_MAX_RETRY_WAIT_MS', 30000),
+    breakerThreshold: Math.max(1, readNumber('CIRCUIT_BREAKER_THRESHOLD', 5)),
+    breakerCooldownMs: readNumber('CIRCUIT_BREAKER_COOLDOWN_MS', 60000),
+    rateLimits: {
+      ...parseRateLimits(DEFAULT_RATE_LIMITS),
+      ...parseRateLimits(process.env.OUTBOUND_RATE_LIMITS || '')
+    }
+  };
+}
+
+// Classic token bucket: holds up to `count` tokens and refills continuously,
+// so short bursts go straight through and sustained traffic is spread out
+export class TokenBucket {
+  private limit: RateLimit;
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(limit: RateLimit) {
+    this.limit = limit;
+    this.tokens = limit.count;
+  }
+
+  async take(): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      this.tokens = Math.min(this.limit.count, this.tokens + (now - this.updatedAt) * this.limit.count / this.limit.perMs);
+      this.updatedAt = now;
+
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await sleep(Math.ceil((1 - this.tokens) * this.limit.perMs / this.limit.count));
+    }
+  }
+}
+
+// Pauses a provider after `threshold` consecutive retryable failures, or for
+// as long as a Retry-After asks. Once the pause ends the next request is let
+// through; another failure pauses the provider again straight away.
+export class CircuitBreaker {
+  private name: string;
+  private threshold: number;
+  private cooldownMs: number;
+  private failures = 0;
+  private pausedUntil = 0;
+
+  constructor(name: string, threshold: number, cooldownMs: number) {
+    this.name = name;
+    this.threshold = threshold;
+    this.cooldownMs = cooldownMs;
+  }
+
+  pausedFor(): number {
+    return Math.max(0, this.pausedUntil - Date.now());
+  }
+
+  check(): void {
+    if (this.pausedFor() > 0) {
+      throw new Error(`Requests to ${this.name} are paused after repeated failures until ${new Date(this.pausedUntil).toISOString()}`);
+    }
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.pausedUntil = 0;
+  }
+
+  recordFailure(retryAfterMs: number | null): void {
+    this.failures++;
+    const pause = Math.max(this.failures >= this.threshold ? this.cooldownMs : 0, retryAfterMs || 0);
+    if (pause > 0) {
+      this.pausedUntil = Math.max(this.pausedUntil, Date.now() + pause);
+      console.log(`Pausing requests to ${this.name} for ${pause}ms`);
+    }
+  }
+}
+
+// Shared outbound-request layer: every call waits for its host's rate limit,
+// is refused while the host's circuit breaker is open, and retryable failures
+// are retried with backoff. State is per host and lives as long as the policy.
+export class RequestPolicy {
+  private options: RequestPolicyOptions;
+  private buckets = new Map<string, TokenBucket>();
+  private breakers = new Map<string, CircuitBreaker>();
+
+  constructor(options: RequestPolicyOptions = getRequestPolicyOptions()) {
+    this.options = options;
+  }
+
+  wrapAdapter(adapter: AxiosAdapter): AxiosAdapter {
+    return async (config: InternalAxiosRequestConfig) => {
+      // Let every status through so the policy sees it, then apply the
+      // caller's validateStatus the way axios would
+      const response = await this.execute(
+        axios.getUri(config),
+        () => adapter({ ...config, validateStatus: () => true }),
+        result => ({ status: result.status, retryAfter: headerValue(result.headers, 'retry-after') })
+      );
+
+      if (!config.validateStatus || config.validateStatus(response.status)) {
+        return response;
+      }
+      throw new AxiosError(
+        `Request failed with status code ${response.status}`,
+        response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+        config,
+        response.request,
+        response
+      );
+    };
+  }
+
+  wrapFetch(send: FetchFunction): FetchFunction {
+    return (input, init) => this.execute(
+      typeof input === 'string' ? input : input instanceof URL ? input.href : input.url,
+      () => send(input, init),
+      response => ({
+        status: response.status,
+        retryAfter: response.headers.get('retry-after'),
+        discard: () => { response.body?.cancel().catch(() => undefined); }
+      })
+    );
+  }
+
+  private async execute<T>(url: string, send: () => Promise<T>, inspect: (response: T) => ResponseInfo): Promise<T> {
+    const host = hostOf(url);
+    const breaker = this.breakerFor(host);
+    const bucket = this.bucketFor(host);
+
+    // Only new requests are refused by an open breaker; a retry already
+    // waits out any pause below or gives up
+    breaker.check();
+
+    for (let attempt = 0; ; attempt++) {
+      await bucket.take();
+
+      let failure: ErrorClass;
+      let response: T | undefined;
+      let info: ResponseInfo | undefined;
+      let thrown: unknown;
+      try {
+        response = await send();
+        info = inspect(response);
+        failure = classifyStatus(info.status, info.retryAfter);
+        if (!failure.retryable) {
+          breaker.recordSuccess();
+          return response;
+        }
+      } catch (error) {
+        failure = classifyError(error);
+        if (!failure.retryable) throw error;
+        thrown = error;
+      }
+
+      breaker.recordFailure(failure.retryAfterMs);
+      const wait = Math.max(backoffDelay(attempt, this.options.baseDelayMs, failure.retryAfterMs), breaker.pausedFor());
+      if (attempt >= this.options.maxRetries || wait > this.options.maxRetryWaitMs) {
+        console.log(`${host} failed (${failure.reason}), giving up after ${attempt + 1} attempt(s)`);
+        if (info) return response!;
+        throw thrown;
+      }
+
+      info?.discard?.();
+      console.log(`${host} failed (${failure.reason}), retrying in ${wait}ms`);
+      await sleep(wait);
+    }
+  }
+
+  private bucketFor(host: string): TokenBucket {
+    let bucket = this.buckets.get(host);
+    if (!bucket) {
+      bucket = new TokenBucket(this.options.rateLimits[host] || this.options.rateLimits.default);
+      this.buckets.set(host, bucket);
+    }
+    return bucket;
+  }
+
+  private breakerFor(host: string): CircuitBreaker {
+    let breaker = this.breakers.get(host);
+    if (!breaker) {
+      breaker = new CircuitBreaker(host, this.options.breakerThreshold, this.options.breakerCooldownMs);
+      this.breakers.set(host, breaker);
+    }
+    return breaker;
+  }
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return 'unknown';
+  }
+}
+
+function headerValue(headers: unknown, name: string): string | null {
+  if (!headers) return null;
+  const value = typeof (headers as any).get === 'function' ? (headers as any).get(name) : (headers as any)[name];
+  return value === undefined || value === null ? null : String(value);
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
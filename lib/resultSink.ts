@@ -0,0 +1,165 @@
+import { ExecutiveContact, ExecutiveRole, PRData } from './types';
+import { canonicalizeUrl } from './dedup';
+
+export interface SinkContext {
+  sourceUrl: string;
+  // Every source URL linked to this deal, including sourceUrl
+  sourceUrls?: string[];
+  // Stable deal fingerprint used to find the deal's existing row
+  dealKey?: string;
+  // Set when the article reports several deals; they all have its URL, so
+  // existing rows are matched by dealKey only
+  sharedUrl?: boolean;
+  jobId?: string;
+  processedAt: string;
+}
+
+// Anything that can persist extracted press release data
+export interface ResultSink {
+  readonly name: string;
+  // Upserting sinks update the deal's existing record in place; the others
+  // are append-only logs and only receive newly discovered deals
+  readonly upserts: boolean;
+  initialize(): Promise<void>;
+  write(data: PRData, context: SinkContext): Promise<void>;
+  // Append-only sinks with derived files (roll-ups) rebuild them here when a
+  // known deal changes, without logging another row
+  refresh?(data: PRData, context: SinkContext): Promise<void>;
+}
+
+// Flat column layout shared by the tabular local sinks (CSV, SQLite). New
+// columns go at the end so files written by earlier versions stay aligned.
+export const RESULT_COLUMNS = [
+  'processedAt',
+  'sourceUrl',
+  'companyName',
+  'ceoEmail',
+  'cmoEmail',
+  'leadInvestor',
+  'followOnInvestors',
+  'amountRaised',
+  'classification',
+  'isScam',
+  'confidence',
+  'extractionErrors',
+  'amountValue',
+  'amountCurrency',
+  'amountUsd',
+  'roundType',
+  'announcementDate',
+  'postMoneyValuation',
+  'postMoneyValuationCurrency',
+  'headquarters',
+  'useOfFunds',
+  'dealKey',
+  'contactSources',
+  'ceoName',
+  'ceoTitle',
+  'ceoEmailStatus',
+  'cmoName',
+  'cmoTitle',
+  'cmoEmailStatus',
+  'riskScore',
+  'riskReasons',
+  'categoryId',
+  'secondaryLabels',
+  'investorIds',
+  'sourceType',
+  'announcementType',
+  'evidence'
+] as const;
+
+export type ResultColumn = typeof RESULT_COLUMNS[number];
+
+export function toResultRow(data: PRData, context: SinkContext): Record<ResultColumn, string | number> {
+  return {
+    processedAt: context.processedAt,
+    sourceUrl: context.sourceUrl,
+    companyName: data.companyName,
+    ceoEmail: data.ceoEmail,
+    cmoEmail: data.cmoEmail,
+    leadInvestor: data.leadInvestor,
+    followOnInvestors: data.followOnInvestors.join(', '),
+    amountRaised: data.amountRaised,
+    classification: data.classification,
+    isScam: data.isScam ? 1 : 0,
+    confidence: data.confidence,
+    extractionErrors: data.extractionErrors.join('; '),
+    amountValue: data.amount ? data.amount.amount : '',
+    amountCurrency: data.amount ? data.amount.currency : '',
+    amountUsd: data.amountUsd ?? '',
+    roundType: data.roundType,
+    announcementDate: data.announcementDate || '',
+    postMoneyValuation: data.postMoneyValuation ? data.postMoneyValuation.amount : '',
+    postMoneyValuationCurrency: data.postMoneyValuation ? data.postMoneyValuation.currency : '',
+    headquarters: data.headquarters,
+    useOfFunds: data.useOfFunds,
+    dealKey: context.dealKey || '',
+    contactSources: formatContactSources(data.executives || []),
+    ceoName: findExecutive(data, 'CEO')?.name || '',
+    ceoTitle: findExecutive(data, 'CEO')?.title || '',
+    ceoEmailStatus: formatEmailStatus(findExecutive(data, 'CEO')),
+    cmoName: findExecutive(data, 'CMO')?.name || '',
+    cmoTitle: findExecutive(data, 'CMO')?.title || '',
+    cmoEmailStatus: formatEmailStatus(findExecutive(data, 'CMO')),
+    riskScore: data.riskScore ?? '',
+    riskReasons: (data.riskReasons || []).join('; '),
+    categoryId: data.categories?.[0]?.id || '',
+    secondaryLabels: formatSecondaryLabels(data),
+    investorIds: formatInvestorIds(data),
+    sourceType: data.sourceType || 'url',
+    // Results stored before announcement types were detected are funding rounds
+    announcementType: data.announcementType || 'funding',
+    evidence: data.evidence || ''
+  };
+}
+
+// Upserting sinks update a row when its deal key matches or, unless the URL
+// is shared by several deals, when it has one of the deal's source URLs
+export function isSameDealRow(row: { dealKey: string; sourceUrls: string[] }, context: SinkContext): boolean {
+  if (context.dealKey && row.dealKey === context.dealKey) return true;
+  if (context.sharedUrl) return false;
+
+  const wanted = new Set((context.sourceUrls || [context.sourceUrl]).map(canonicalizeUrl));
+  return row.sourceUrls.some(url => wanted.has(canonicalizeUrl(url)));
+}
+
+// "FLAGGED AS SUSPICIOUS (risk 65/100)" followed by one reason per line;
+// unflagged deals with warning signs just list them under their score
+export function formatRiskFlags(data: PRData): string {
+  const reasons = data.riskReasons || [];
+  if (!data.isScam && reasons.length === 0) return '';
+  const heading = data.riskScore === undefined
+    ? 'FLAGGED AS SUSPICIOUS'
+    : `${data.isScam ? 'FLAGGED AS SUSPICIOUS ' : ''}(risk ${data.riskScore}/100)`;
+  return [heading, ...reasons.map(reason => `- ${reason}`)].join('\n');
+}
+
+// "Fintech Company (72), SaaS Company (55)"; results stored before
+// multi-label classification have no categories
+export function formatSecondaryLabels(data: PRData): string {
+  return (data.categories || []).slice(1).map(category => `${category.label} (${category.score})`).join(', ');
+}
+
+// "sequoia-capital; index-ventures", lead first
+export function formatInvestorIds(data: PRData): string {
+  return (data.investors || []).map(investor => investor.id).join('; ');
+}
+
+export function findExecutive(data: PRData, role: ExecutiveRole): ExecutiveContact | undefined {
+  return (data.executives || []).find(contact => contact.role === role);
+}
+
+// "pattern-guessed (role address (info@))"; empty when there's no contact
+export function formatEmailStatus(contact: ExecutiveContact | undefined): string {
+  if (!contact || !contact.emailStatus) return '';
+  const issues = contact.emailIssues || [];
+  return issues.length > 0 ? `${contact.emailStatus} (${issues.join('; ')})` : contact.emailStatus;
+}
+
+// "CEO Jane Doe: website (https://acme.com/team); CMO Sam Lee: constructed (https://acme.com/about)"
+export function formatContactSources(executives: ExecutiveContact[]): string {
+  return executives
+    .map(contact => `${contact.role} ${contact.name}: ${contact.emailSource}${contact.sourceUrl ? ` (${contact.sourceUrl})` : ''}`)
+    .join('; ');
+}
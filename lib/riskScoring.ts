@@ -0,0 +1,235 @@
+import { AxiosInstance } from 'axios';
+import { Money, PRData, RoundType, StructuredRelease } from './types';
+import { convertToUsd, findMoneyInText } from './money';
+import { findReleaseDomains, isFreeMailDomain } from './emailQuality';
+import { normalizeInvestorName } from './dedup';
+
+export interface RiskInput {
+  url: string;
+  content: string;
+  structured: StructuredRelease | null;
+  releaseLinks: string[];
+  deal: Pick<PRData, 'companyName' | 'investors' | 'amount' | 'amountUsd' | 'roundType' | 'announcementDate'>;
+  // The model's own "obviously fraudulent" verdict
+  modelFlagged: boolean;
+}
+
+export interface RiskAssessment {
+  // 0-100, the sum of the points of every signal that fired
+  score: number;
+  reasons: string[];
+  flagged: boolean;
+}
+
+interface RiskSignal {
+  points: number;
+  reason: string;
+}
+
+// Largest round that is believable for each stage, in USD
+const MAX_PLAUSIBLE_USD: Partial<Record<RoundType, number>> = {
+  'Pre-seed': 10000000,
+  'Seed': 50000000,
+  'Series A': 150000000,
+  'Series B': 400000000,
+  'Series C': 1000000000
+};
+
+// Self-serve wires that publish anything that is paid for
+const PAY_TO_PUBLISH_HOSTS = [
+  'einpresswire.com', 'einnews.com', 'openpr.com', 'prlog.org', 'issuewire.com', '24-7pressrelease.com',
+  'pressreleasepoint.com', 'prfree.org', 'newswiretoday.com', 'przoom.com', 'releasewire.com'
+];
+
+const CRYPTO_PATTERN = /\b(token sale|token generation event|initial coin offering|ICO|IDO|IEO|presale|pre-sale|airdrop|tokenomics|whitelist|staking rewards|guaranteed returns?|\d+x returns?)\b/gi;
+
+const ANONYMOUS_INVESTOR_PATTERN = /\b(undisclosed|unnamed|anonymous|private investors?|family office|high[- ]net[- ]worth|angel investors?)\b/i;
+
+// RDAP registration dates by domain; they don't change, so one successful
+// lookup per process is enough
+const registrationDates = new Map<string, Promise<Date | null>>();
+
+// A domain registered this close to the announcement is treated as new
+const NEW_DOMAIN_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+}
+
+function headlineOf(input: RiskInput): string {
+  if (input.structured) return input.structured.headline;
+  const match = input.content.match(/Title:\s*(.+?)(?:\s+Published:|\n|$)/);
+  return match ? match[1] : '';
+}
+
+function implausibleAmount(input: RiskInput): RiskSignal | null {
+  const limit = MAX_PLAUSIBLE_USD[input.deal.roundType];
+  if (!limit || !input.deal.amountUsd || input.deal.amountUsd <= limit) return null;
+  return {
+    points: 25,
+    reason: `${input.deal.amount?.display || input.deal.amountUsd} is implausibly large for a ${input.deal.roundType} round`
+  };
+}
+
+function unverifiableInvestors(input: RiskInput): RiskSignal | null {
+  // Check the names as extracted; the canonical "Andreessen Horowitz" may
+  // appear in the release only as "a16z"
+  const investors = input.deal.investors.map(investor => investor.raw);
+  if (investors.length === 0) {
+    return { points: 15, reason: 'No investors are named' };
+  }
+
+  const anonymous = investors.filter(investor => ANONYMOUS_INVESTOR_PATTERN.test(investor));
+  if (anonymous.length === investors.length) {
+    return { points: 15, reason: `Investors are not identified (${anonymous.join(', ')})` };
+  }
+
+  // Names the release never mentions can't be checked against it
+  const text = normalizeInvestorName(input.content);
+  const unmentioned = investors.filter(investor => !text.includes(normalizeInvestorName(investor)));
+  if (unmentioned.length > 0) {
+    return { points: 10, reason: `Investor(s) not mentioned in the release: ${unmentioned.join(', ')}` };
+  }
+
+  return null;
+}
+
+function cryptoLanguage(input: RiskInput): RiskSignal | null {
+  const phrases = Array.from(new Set((input.content.match(CRYPTO_PATTERN) || []).map(phrase => phrase.toLowerCase())));
+  if (phrases.length === 0) return null;
+  return { points: 25, reason: `Crypto/token-sale language: ${phrases.slice(0, 5).join(', ')}` };
+}
+
+// "Media contact: ..." and the like in text that wasn't parsed into sections
+const CONTACT_LABEL = /\b(?:media|press|investor)\s+(?:contacts?|inquiries|enquiries)\s*:?/i;
+const CONTACT_BLOCK_LENGTH = 300;
+
+// The release's media contact: the parsed section, or the text after a
+// contact label
+function contactText(input: RiskInput): string {
+  if (input.structured?.mediaContact) return input.structured.mediaContact;
+  const label = input.content.match(CONTACT_LABEL);
+  if (!label) return '';
+  const start = label.index! + label[0].length;
+  return input.content.substring(start, start + CONTACT_BLOCK_LENGTH);
+}
+
+// Only the contact block counts; a free-mail address quoted in the body says
+// nothing about who issued the release
+function freeMailContact(input: RiskInput): RiskSignal | null {
+  const text = contactText(input);
+  const emails = (text.match(/[\w.+-]+@[a-z0-9-]+(?:\.[a-z0-9-]+)+/gi) || [])
+    .filter((email: string) => isFreeMailDomain(email.split('@')[1]));
+  if (emails.length === 0) return null;
+  return { points: 15, reason: `Media contact uses a free-mail address (${Array.from(new Set(emails)).join(', ')})` };
+}
+
+function payToPublishWire(input: RiskInput): RiskSignal | null {
+  const host = hostOf(input.url);
+  const wire = PAY_TO_PUBLISH_HOSTS.find(candidate => host === candidate || host.endsWith(`.${candidate}`));
+  if (!wire) return null;
+  return { points: 15, reason: `Published on a pay-to-publish wire (${wire})` };
+}
+
+function headlineMismatch(input: RiskInput): RiskSignal | null {
+  const headlineAmount = findMoneyInText(headlineOf(input));
+  const bodyAmount: Money | null = input.deal.amount;
+  if (!headlineAmount || !bodyAmount) return null;
+
+  const headlineUsd = convertToUsd(headlineAmount);
+  const bodyUsd = input.deal.amountUsd;
+  const differs = headlineUsd && bodyUsd
+    ? Math.abs(headlineUsd - bodyUsd) > Math.max(headlineUsd, bodyUsd) * 0.05
+    : headlineAmount.currency !== bodyAmount.currency || headlineAmount.amount !== bodyAmount.amount;
+  if (!differs) return null;
+
+  return { points: 15, reason: `Headline amount ${headlineAmount.display} doesn't match the body's ${bodyAmount.display}` };
+}
+
+function modelFlag(input: RiskInput): RiskSignal | null {
+  return input.modelFlagged ? { points: 30, reason: 'Model judged the announcement suspicious' } : null;
+}
+
+const SIGNALS = [implausibleAmount, unverifiableInvestors, cryptoLanguage, freeMailContact, payToPublishWire, headlineMismatch, modelFlag];
+
+// Combines independent warning signs into a 0-100 risk score with a reason
+// for each one, so a flagged row says why it was flagged. Announcements at or
+// above RISK_FLAG_THRESHOLD (default 50) are flagged as suspicious. The
+// domain age check looks the company domain up over RDAP, so it only runs
+// with RISK_DOMAIN_AGE_CHECK=true; lookups go through the shared transport
+// and each domain is looked up once per process.
+export class RiskScorer {
+  private http: AxiosInstance;
+  private threshold = parseInt(process.env.RISK_FLAG_THRESHOLD || '', 10) || 50;
+  private checkDomainAge = process.env.RISK_DOMAIN_AGE_CHECK === 'true';
+
+  constructor(http: AxiosInstance) {
+    this.http = http;
+  }
+
+  async score(input: RiskInput): Promise<RiskAssessment> {
+    const signals = SIGNALS.map(signal => signal(input)).filter((signal): signal is RiskSignal => !!signal);
+
+    if (this.checkDomainAge) {
+      const domainSignal = await this.newDomain(input);
+      if (domainSignal) signals.push(domainSignal);
+    }
+
+    const score = Math.min(100, signals.reduce((sum, signal) => sum + signal.points, 0));
+    return {
+      score,
+      reasons: signals.sort((a, b) => b.points - a.points).map(signal => signal.reason),
+      flagged: score >= this.threshold
+    };
+  }
+
+  private async newDomain(input: RiskInput): Promise<RiskSignal | null> {
+    const domain = findReleaseDomains(input.deal.companyName, input.releaseLinks, input.content)[0];
+    if (!domain) return null;
+
+    const registeredAt = await this.domainRegisteredAt(domain);
+    if (!registeredAt) return null;
+
+    // Compare calendar days; the announcement date has no time of day
+    const registered = registeredAt.toISOString().substring(0, 10);
+    const announced = input.deal.announcementDate || new Date().toISOString().substring(0, 10);
+    const ageDays = Math.round((Date.parse(announced) - Date.parse(registered)) / DAY_MS);
+    if (ageDays >= NEW_DOMAIN_DAYS) return null;
+
+    return {
+      points: 25,
+      reason: ageDays < 0
+        ? `Company domain ${domain} was registered on ${registered}, after the announcement`
+        : `Company domain ${domain} was registered on ${registered}, ${ageDays} day(s) before the announcement`
+    };
+  }
+
+  // Registration date from the domain's RDAP record, or null if unavailable
+  private domainRegisteredAt(domain: string): Promise<Date | null> {
+    let lookup = registrationDates.get(domain);
+    if (!lookup) {
+      lookup = this.lookUpRegistration(domain);
+      registrationDates.set(domain, lookup);
+      // Try a failed lookup again next time
+      lookup.then(date => { if (!date) registrationDates.delete(domain); });
+    }
+    return lookup;
+  }
+
+  private async lookUpRegistration(domain: string): Promise<Date | null> {
+    try {
+      const response = await this.http.get(`https://rdap.org/domain/${domain}`, { timeout: 10000 });
+      const registration = (response.data?.events || []).find((event: any) => event.eventAction === 'registration');
+      const date = registration ? new Date(registration.eventDate) : null;
+      return date && !isNaN(date.getTime()) ? date : null;
+    } catch (error) {
+      console.log(`Unable to look up registration date for ${domain}:`, error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,356 @@
+import path from 'path';
+import { DATA_DIR, updateJsonFile } from './jsonFile';
+import { canonicalizeUrl, normalizeCompanyName } from './dedup';
+import { AcquisitionDetails, AnnouncementType, FundCloseDetails, InvestorRef, PRData } from './types';
+import { SinkContext } from './resultSink';
+
+// The parts of a deal the roll-ups need, kept per deal so a re-processed or
+// merged deal replaces its earlier numbers instead of adding to them
+export interface DealSummary {
+  key: string;
+  companyName: string;
+  roundType: string;
+  announcementDate: string | null;
+  amountDisplay: string;
+  amountUsd: number | null;
+  classification: string;
+  investors: Pick<InvestorRef, 'id' | 'name' | 'role'>[];
+  suspicious: boolean;
+  updatedAt: string;
+  // Absent for deals recorded before announcement types were detected
+  announcementType?: AnnouncementType;
+  acquisition?: AcquisitionDetails;
+  fundClose?: FundCloseDetails;
+  sourceUrl?: string;
+}
+
+export type RollupName = 'investors' | 'companies' | 'categories' | 'acquisitions' | 'fund_closes';
+
+export interface RollupTable {
+  name: RollupName;
+  // Sheet tab title
+  title: string;
+  // key is used for CSV headers and SQLite columns, header for the sheet tab
+  columns: { key: string; header: string }[];
+  rows: Record<string, string | number>[];
+}
+
+function isKnown(value: string): boolean {
+  return !!value && !['NOT FOUND', 'EXTRACTION FAILED', 'UNKNOWN'].includes(value.toUpperCase());
+}
+
+export function summarizeDeal(data: PRData, context: SinkContext): DealSummary {
+  return {
+    key: context.dealKey || canonicalizeUrl((context.sourceUrls || [context.sourceUrl])[0]),
+    companyName: data.companyName,
+    roundType: data.roundType,
+    announcementDate: data.announcementDate,
+    amountDisplay: data.amount ? data.amount.display : (isKnown(data.amountRaised) ? data.amountRaised : ''),
+    amountUsd: data.amountUsd,
+    classification: data.classification,
+    investors: (data.investors || []).map(({ id, name, role }) => ({ id, name, role })),
+    suspicious: data.isScam,
+    updatedAt: context.processedAt,
+    announcementType: data.announcementType || 'funding',
+    acquisition: data.acquisition,
+    fundClose: data.fundClose,
+    sourceUrl: context.sourceUrl
+  };
+}
+
+// "2024-03-05" -> "2024-Q1"
+export function quarterOf(date: string | null): string {
+  const match = date?.match(/^(\d{4})-(\d{2})/);
+  if (!match) return 'Unknown';
+  return `${match[1]}-Q${Math.ceil(parseInt(match[2], 10) / 3)}`;
+}
+
+// "Sequoia Capital (3), Accel (2)"
+function formatCounts(counts: Map<string, number>, limit = 5): string {
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit)
+    .map(([name, count]) => `${name} (${count})`)
+    .join(', ');
+}
+
+function increment(counts: Map<string, number>, key: string): void {
+  counts.set(key, (counts.get(key) || 0) + 1);
+}
+
+function latestFirst(a: DealSummary, b: DealSummary): number {
+  return (b.announcementDate || '').localeCompare(a.announcementDate || '');
+}
+
+function roundLine(deal: DealSummary): string {
+  const lead = deal.investors.find(investor => investor.role === 'lead');
+  return [
+    deal.announcementDate || 'undated',
+    deal.roundType,
+    deal.amountDisplay || 'undisclosed amount',
+    lead ? `led by ${lead.name}` : ''
+  ].filter(Boolean).join(' ');
+}
+
+function investorTable(deals: DealSummary[]): RollupTable {
+  const byId = new Map<string, {
+    id: string; name: string; lead: number; participant: number; capital: number; ledCapital: number;
+    leadsByCategory: Map<string, number>; lastDealDate: string; companies: Set<string>;
+  }>();
+
+  for (const deal of deals) {
+    for (const investor of deal.investors) {
+      let entry = byId.get(investor.id);
+      if (!entry) {
+        entry = {
+          id: investor.id, name: investor.name, lead: 0, participant: 0, capital: 0, ledCapital: 0,
+          leadsByCategory: new Map(), lastDealDate: '', companies: new Set()
+        };
+        byId.set(investor.id, entry);
+      }
+      entry.capital += deal.amountUsd || 0;
+      if (investor.role === 'lead') {
+        entry.lead++;
+        entry.ledCapital += deal.amountUsd || 0;
+        increment(entry.leadsByCategory, deal.classification);
+      } else {
+        entry.participant++;
+      }
+      if ((deal.announcementDate || '') > entry.lastDealDate) entry.lastDealDate = deal.announcementDate!;
+      entry.companies.add(deal.companyName);
+    }
+  }
+
+  const rows = Array.from(byId.values())
+    .sort((a, b) => b.lead - a.lead || (b.lead + b.participant) - (a.lead + a.participant) || b.capital - a.capital || a.name.localeCompare(b.name))
+    .map(entry => ({
+      investorId: entry.id,
+      investor: entry.name,
+      leadDeals: entry.lead,
+      participantDeals: entry.participant,
+      totalDeals: entry.lead + entry.participant,
+      totalCapitalUsd: entry.capital,
+      ledCapitalUsd: entry.ledCapital,
+      leadsByCategory: formatCounts(entry.leadsByCategory, 10),
+      lastDealDate: entry.lastDealDate,
+      companies: Array.from(entry.companies).sort().join(', ')
+    }));
+
+  return {
+    name: 'investors',
+    title: 'Investors',
+    columns: [
+      { key: 'investorId', header: 'Investor ID' },
+      { key: 'investor', header: 'Investor' },
+      { key: 'leadDeals', header: 'Lead Deals' },
+      { key: 'participantDeals', header: 'Participant Deals' },
+      { key: 'totalDeals', header: 'Total Deals' },
+      { key: 'totalCapitalUsd', header: 'Total Round Capital (USD)' },
+      { key: 'ledCapitalUsd', header: 'Led Round Capital (USD)' },
+      { key: 'leadsByCategory', header: 'Leads by Classification' },
+      { key: 'lastDealDate', header: 'Last Deal Date' },
+      { key: 'companies', header: 'Companies' }
+    ],
+    rows
+  };
+}
+
+function companyTable(deals: DealSummary[]): RollupTable {
+  const byCompany = new Map<string, DealSummary[]>();
+  for (const deal of deals) {
+    const key = normalizeCompanyName(deal.companyName) || deal.companyName.toLowerCase();
+    byCompany.set(key, [...(byCompany.get(key) || []), deal]);
+  }
+
+  const rows = Array.from(byCompany.values())
+    .map(rounds => rounds.sort(latestFirst))
+    .sort((a, b) => latestFirst(a[0], b[0]) || a[0].companyName.localeCompare(b[0].companyName))
+    .map(rounds => {
+      const latest = rounds[0];
+      const investors = new Set(rounds.flatMap(round => round.investors.map(investor => investor.name)));
+      return {
+        company: latest.companyName,
+        rounds: rounds.length,
+        totalRaisedUsd: rounds.reduce((sum, round) => sum + (round.amountUsd || 0), 0),
+        latestRound: latest.roundType,
+        latestRoundDate: latest.announcementDate || '',
+        classification: latest.classification,
+        investors: Array.from(investors).join(', '),
+        allRounds: rounds.map(roundLine).join('\n')
+      };
+    });
+
+  return {
+    name: 'companies',
+    title: 'Companies',
+    columns: [
+      { key: 'company', header: 'Company' },
+      { key: 'rounds', header: 'Rounds' },
+      { key: 'totalRaisedUsd', header: 'Total Raised (USD)' },
+      { key: 'latestRound', header: 'Latest Round' },
+      { key: 'latestRoundDate', header: 'Latest Round Date' },
+      { key: 'classification', header: 'Classification' },
+      { key: 'investors', header: 'Investors' },
+      { key: 'allRounds', header: 'All Rounds' }
+    ],
+    rows
+  };
+}
+
+function categoryTable(deals: DealSummary[]): RollupTable {
+  const groups = new Map<string, { classification: string; quarter: string; deals: DealSummary[] }>();
+  for (const deal of deals) {
+    const quarter = quarterOf(deal.announcementDate);
+    const key = `${deal.classification}|${quarter}`;
+    const group = groups.get(key) || { classification: deal.classification, quarter, deals: [] };
+    group.deals.push(deal);
+    groups.set(key, group);
+  }
+
+  const rows = Array.from(groups.values())
+    .sort((a, b) => b.quarter.localeCompare(a.quarter) || b.deals.length - a.deals.length || a.classification.localeCompare(b.classification))
+    .map(group => {
+      const withAmount = group.deals.filter(deal => deal.amountUsd);
+      const capital = withAmount.reduce((sum, deal) => sum + deal.amountUsd!, 0);
+      const leads = new Map<string, number>();
+      for (const deal of group.deals) {
+        const lead = deal.investors.find(investor => investor.role === 'lead');
+        if (lead) increment(leads, lead.name);
+      }
+      return {
+        classification: group.classification,
+        quarter: group.quarter,
+        deals: group.deals.length,
+        totalCapitalUsd: capital,
+        averageRoundUsd: withAmount.length > 0 ? Math.round(capital / withAmount.length) : '',
+        topLeadInvestors: formatCounts(leads)
+      };
+    });
+
+  return {
+    name: 'categories',
+    title: 'Classifications',
+    columns: [
+      { key: 'classification', header: 'Classification' },
+      { key: 'quarter', header: 'Quarter' },
+      { key: 'deals', header: 'Deals' },
+      { key: 'totalCapitalUsd', header: 'Total Capital (USD)' },
+      { key: 'averageRoundUsd', header: 'Average Round (USD)' },
+      { key: 'topLeadInvestors', header: 'Top Lead Investors' }
+    ],
+    rows
+  };
+}
+
+function acquisitionTable(deals: DealSummary[]): RollupTable {
+  const rows = deals
+    .filter(deal => deal.acquisition)
+    .sort((a, b) => latestFirst(a, b) || a.companyName.localeCompare(b.companyName))
+    .map(deal => {
+      const acquisition = deal.acquisition!;
+      return {
+        announcementDate: deal.announcementDate || '',
+        acquirer: acquisition.acquirer,
+        target: acquisition.target,
+        dealType: acquisition.dealType,
+        dealValue: acquisition.dealValue ? acquisition.dealValue.display : '',
+        dealValueUsd: acquisition.dealValueUsd ?? '',
+        targetHeadquarters: acquisition.targetHeadquarters,
+        rationale: acquisition.rationale,
+        sourceUrl: deal.sourceUrl || ''
+      };
+    });
+
+  return {
+    name: 'acquisitions',
+    title: 'Acquisitions',
+    columns: [
+      { key: 'announcementDate', header: 'Announcement Date' },
+      { key: 'acquirer', header: 'Acquirer' },
+      { key: 'target', header: 'Target' },
+      { key: 'dealType', header: 'Deal Type' },
+      { key: 'dealValue', header: 'Deal Value' },
+      { key: 'dealValueUsd', header: 'Deal Value (USD)' },
+      { key: 'targetHeadquarters', header: 'Target Headquarters' },
+      { key: 'rationale', header: 'Rationale' },
+      { key: 'sourceUrl', header: 'Source URL' }
+    ],
+    rows
+  };
+}
+
+function fundCloseTable(deals: DealSummary[]): RollupTable {
+  const rows = deals
+    .filter(deal => deal.fundClose)
+    .sort((a, b) => latestFirst(a, b) || a.companyName.localeCompare(b.companyName))
+    .map(deal => {
+      const fund = deal.fundClose!;
+      return {
+        announcementDate: deal.announcementDate || '',
+        firm: fund.firmName,
+        fundName: fund.fundName,
+        fundSize: fund.fundSize ? fund.fundSize.display : '',
+        fundSizeUsd: fund.fundSizeUsd ?? '',
+        limitedPartners: fund.limitedPartners.join(', '),
+        strategy: fund.strategy,
+        sourceUrl: deal.sourceUrl || ''
+      };
+    });
+
+  return {
+    name: 'fund_closes',
+    title: 'Fund Closes',
+    columns: [
+      { key: 'announcementDate', header: 'Announcement Date' },
+      { key: 'firm', header: 'Firm' },
+      { key: 'fundName', header: 'Fund' },
+      { key: 'fundSize', header: 'Fund Size' },
+      { key: 'fundSizeUsd', header: 'Fund Size (USD)' },
+      { key: 'limitedPartners', header: 'Limited Partners' },
+      { key: 'strategy', header: 'Strategy' },
+      { key: 'sourceUrl', header: 'Source URL' }
+    ],
+    rows
+  };
+}
+
+// Investor, company and classification-by-quarter summaries of funding
+// rounds, plus one table each for acquisitions and fund closes. Deals flagged
+// as suspicious are left out so fake rounds don't inflate anyone's numbers.
+export function buildRollups(deals: DealSummary[]): RollupTable[] {
+  const counted = deals.filter(deal => !deal.suspicious);
+  const rounds = counted.filter(deal => !deal.announcementType || deal.announcementType === 'funding');
+  return [investorTable(rounds), companyTable(rounds), categoryTable(rounds), acquisitionTable(counted), fundCloseTable(counted)];
+}
+
+// Header row followed by one row per entry, in column order
+export function rollupValues(table: RollupTable, header: 'key' | 'header' = 'header'): (string | number)[][] {
+  return [
+    table.columns.map(column => column[header]),
+    ...table.rows.map(row => table.columns.map(column => row[column.key] ?? ''))
+  ];
+}
+
+// Keeps the per-deal summaries the roll-ups are built from, so each new
+// result only replaces its own deal and the tables are rebuilt from the rest.
+// Shared by every sink; ROLLUP_STORE_PATH overrides the location.
+export class RollupStore {
+  private filePath: string;
+
+  constructor(filePath: string = process.env.ROLLUP_STORE_PATH || path.join(DATA_DIR, 'rollup-deals.json')) {
+    this.filePath = filePath;
+  }
+
+  async record(data: PRData, context: SinkContext): Promise<RollupTable[]> {
+    const summary = summarizeDeal(data, context);
+    return updateJsonFile<DealSummary[], RollupTable[]>(this.filePath, [], deals => {
+      const index = deals.findIndex(deal => deal.key === summary.key);
+      if (index === -1) {
+        deals.push(summary);
+      } else {
+        deals[index] = summary;
+      }
+      return buildRollups(deals);
+    });
+  }
+}
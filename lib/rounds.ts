@@ -0,0 +1,40 @@
+import { RoundType } from './types';
+
+export const ROUND_TYPES: RoundType[] = [
+  'Pre-seed', 'Seed',
+  'Series A', 'Series B', 'Series C', 'Series D', 'Series E', 'Series F',
+  'Growth', 'Debt', 'Grant', 'Unknown'
+];
+
+// Maps the many ways releases describe a round onto ROUND_TYPES
+export function normalizeRoundType(value: string | null | undefined): RoundType {
+  if (!value) return 'Unknown';
+  const text = value.toLowerCase().trim();
+
+  const exact = ROUND_TYPES.find(type => type.toLowerCase() === text);
+  if (exact) return exact;
+
+  if (/pre[\s-]?seed/.test(text)) return 'Pre-seed';
+  const series = text.match(/series\s+([a-f])\b/);
+  if (series) return `Series ${series[1].toUpperCase()}` as RoundType;
+  if (/\bseed\b/.test(text)) return 'Seed';
+  if (/\b(growth|late[\s-]stage|pre[\s-]ipo|mezzanine)\b/.test(text)) return 'Growth';
+  if (/\b(debt|credit|loan|venture debt|notes?|convertible)\b/.test(text)) return 'Debt';
+  if (/\b(grant|award|non[\s-]dilutive)\b/.test(text)) return 'Grant';
+
+  return 'Unknown';
+}
+
+// Accepts anything Date can parse and returns YYYY-MM-DD, or null
+export function normalizeAnnouncementDate(value: string | null | undefined): string | null {
+  if (!value || /not found/i.test(value)) return null;
+
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  const parsed = iso ? new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3])) : new Date(value);
+  if (isNaN(parsed.getTime())) return null;
+
+  if (parsed.getFullYear() < 1990 || parsed.getTime() > Date.now() + 24 * 60 * 60 * 1000) return null;
+
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${parsed.getFullYear()}-${pad(parsed.getMonth() + 1)}-${pad(parsed.getDate())}`;
+}
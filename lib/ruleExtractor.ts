@@ -0,0 +1,352 @@
+import { ExtractedAcquisition, ExtractedDeal, ExtractedFundClose, StructuredRelease } from './types';
+import { parseMoney, findMoneyInText } from './money';
+import { normalizeRoundType } from './rounds';
+import { investorKey, normalizeCompanyName, normalizeInvestorName } from './dedup';
+import { Taxonomy, classifyByKeywords, loadTaxonomy } from './taxonomy';
+
+// Rule-based results are a best guess; keep them below anything the LLM
+// reports with reasonable certainty so downstream filters can tell them apart
+const MAX_RULE_CONFIDENCE = 60;
+
+const ANNOUNCE_VERBS = 'raises|raised|secures|secured|closes|closed|announces|lands|completes|receives|bags|nabs|gets|unveils';
+
+const HEADLINE_COMPANY = new RegExp(`^(?:exclusive:\\s*)?(.{2,80}?)\\s+(?:${ANNOUNCE_VERBS})\\b`, 'i');
+
+// "Acme Corp, a provider of widgets, today announced" / "Acme (NASDAQ: ACME) today announced"
+const ANNOUNCED_COMPANY = /([A-Z][\w&.'’-]*(?:\s+(?:[A-Z][\w&.'’-]*|of|for|and|&)){0,5})(?:\s*\([^)]{1,40}\))?(?:,\s+[^,]{3,160},)?\s+(?:today\s+|has\s+)?(?:announced|raised|secured|closed|completed)\b/;
+
+const LED_BY = /\b(?:co-)?led by\s+([^.;()\n]+?)(?=\s*(?:,\s*(?:with|alongside|and (?:with )?participation)|\swith\s|\salongside\s|\.(?:\s|$)|;|\(|\n|$))/i;
+
+const PARTICIPATION = /\b(?:participation (?:from|of|by)|joined by|alongside|along with|other investors include|investors include|investors including|backers include)\s+([^.;]+)/gi;
+
+const ROUND_MENTION = /\b(pre[\s-]?seed|seed|series [a-f]|growth(?:[\s-]stage| equity)|venture debt|debt financing|credit facility|grant)\b/i;
+
+const VALUATION = /\b(?:post-money valuation of|valuation of|valued at|valu(?:ing|es) (?:the company|it) at)\s+([^.;,()]{1,40})/i;
+
+const HEADQUARTERS = [
+  /\b(?:headquartered|based) in\s+([A-Z][\w.'-]*(?:\s[A-Z][\w.'-]*)*(?:,\s+[A-Z][\w.'-]*(?:\s[A-Z][\w.'-]*)*)?)/,
+  /\b([A-Z][a-zA-Z.]+(?:\s[A-Z][a-zA-Z.]+)?)-based\b/
+];
+
+const USE_OF_FUNDS = /\b(will use|plans to use|intends to use|to use the (?:funds|funding|proceeds|capital|investment)|proceeds will|funding will|capital will|investment will)\b/i;
+
+const DATE_MENTION = /\b((?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Sept|Oct|Nov|Dec)[a-z]*\.?\s+\d{1,2},\s+\d{4})\b/;
+
+const SCAM_SIGNALS = /\b(guaranteed (?:returns|profits?)|risk[\s-]free (?:investment|returns)|double your (?:money|investment)|send (?:btc|eth|crypto) to)\b/i;
+
+// Offline extraction from fetched release text: money phrases, "led by X",
+// "with participation from A, B and C", "X today announced" and a keyword
+// classifier. Used when the LLM is unavailable and as a cross-check.
+export function extractWithRules(content: string, url: string, structured: StructuredRelease | null = null, taxonomy: Taxonomy = loadTaxonomy()): ExtractedDeal {
+  const text = structured ? [structured.headline, structured.subheadline, ...structured.paragraphs].join('\n') : content;
+  const headline = structured?.headline || content.match(/Title:\s*(.+?)(?:\s+(?:Published|Description):|\n|$)/)?.[1] || '';
+
+  const companyName = findCompanyName(headline, text, url, structured);
+  const { lead, coLeads } = findLeadInvestors(text);
+  const followOnInvestors = unique([...coLeads, ...findParticipants(text)])
+    .filter(name => !lead || investorKey(name) !== investorKey(lead));
+
+  const amount = findMoneyInText(text);
+  const roundMention = text.match(ROUND_MENTION);
+  const valuationMention = text.match(VALUATION);
+  const valuation = valuationMention ? parseMoney(valuationMention[1], { defaultCurrency: amount?.currency || 'USD' }) : null;
+  const published = structured?.publishedAt || content.match(/Published:\s*(\S+)/)?.[1];
+  const announcementDate = published && published !== 'unknown' ? published : text.match(DATE_MENTION)?.[1];
+  const categories = classifyByKeywords(text, taxonomy, MAX_RULE_CONFIDENCE);
+
+  const deal: ExtractedDeal = {
+    companyName: companyName || 'NOT FOUND',
+    leadInvestor: lead || 'NOT FOUND',
+    followOnInvestors,
+    amountRaised: amount ? amount.display : 'NOT FOUND',
+    roundType: roundMention ? normalizeRoundType(roundMention[1]) : 'Unknown',
+    announcementDate: announcementDate || 'NOT FOUND',
+    postMoneyValuation: valuation ? valuation.display : 'NOT FOUND',
+    headquarters: findHeadquarters(text) || 'NOT FOUND',
+    useOfFunds: findUseOfFunds(text) || 'NOT FOUND',
+    primaryCategory: categories.primary,
+    categoryScores: categories.scores,
+    isScam: SCAM_SIGNALS.test(text),
+    confidence: 0
+  };
+
+  deal.confidence = ruleConfidence(deal, taxonomy);
+  return deal;
+}
+
+// "Acme to Acquire Beta Labs for $40M" / "Beta Labs Acquired by Acme"
+const HEADLINE_ACQUISITION = /^(.{2,80}?)\s+(?:to\s+acquire|acquires|has acquired|completes (?:its )?acquisition of|agrees to acquire|buys|to merge with|merges with)\s+(.{2,80}?)(?=\s+(?:for|in|to|from)\s|[,;:]|$)/i;
+const HEADLINE_ACQUIRED = /^(.{2,80}?)\s+(?:to be\s+|is\s+)?acquired by\s+(.{2,80}?)(?=\s+(?:for|in)\s|[,;:]|$)/i;
+
+// "FTV Capital Completes $4.05 Billion Fundraise" / "Acme Ventures Closes Fund IV"
+const HEADLINE_FIRM = /^(.{2,80}?)\s+(?:closes|completes|announces|raises|holds|secures)\b/i;
+const FUND_NAME = /\b((?:[A-Z][\w&.'’-]*\s+){1,5}Fund\s+(?:[IVX]{1,5}|\d{1,2})\b(?:,?\s+L\.?P\.?)?)/;
+const LIMITED_PARTNERS = /\b(?:limited partners|LPs|investors in the fund)\s+(?:include|including|such as)\s+([^.;]+)/i;
+
+// Headline and release text as used by every rule-based extractor
+function releaseText(content: string, structured: StructuredRelease | null): { text: string; headline: string; published: string | undefined } {
+  return {
+    text: structured ? [structured.headline, structured.subheadline, ...structured.paragraphs].join('\n') : content,
+    headline: structured?.headline || content.match(/Title:\s*(.+?)(?:\s+(?:Published|Description):|\n|$)/)?.[1] || '',
+    published: structured?.publishedAt || content.match(/Published:\s*(\S+)/)?.[1]
+  };
+}
+
+function announcementDateOf(text: string, published: string | undefined): string {
+  return (published && published !== 'unknown' ? published : text.match(DATE_MENTION)?.[1]) || 'NOT FOUND';
+}
+
+// Acquirer and target from the headline, value from the first money phrase
+export function extractAcquisitionWithRules(content: string, structured: StructuredRelease | null = null): ExtractedAcquisition {
+  const { text, headline, published } = releaseText(content, structured);
+  const acquires = headline.match(HEADLINE_ACQUISITION);
+  const acquired = acquires ? null : headline.match(HEADLINE_ACQUIRED);
+  const acquirer = acquires ? acquires[1] : acquired?.[2];
+  const target = acquires ? acquires[2] : acquired?.[1];
+  const value = findMoneyInText(text);
+
+  const deal: ExtractedAcquisition = {
+    acquirer: acquirer && looksLikeName(acquirer) ? cleanName(acquirer) : 'NOT FOUND',
+    target: target && looksLikeName(target) ? cleanName(target) : 'NOT FOUND',
+    dealValue: value ? value.display : 'NOT FOUND',
+    dealType: /\bmerge/i.test(headline) ? 'Merger' : 'Acquisition',
+    announcementDate: announcementDateOf(text, published),
+    targetHeadquarters: findHeadquarters(text) || 'NOT FOUND',
+    rationale: 'NOT FOUND',
+    confidence: 0
+  };
+
+  deal.confidence = Math.min(MAX_RULE_CONFIDENCE, 10 + [deal.acquirer, deal.target, deal.dealValue].filter(isFound).length * 15);
+  return deal;
+}
+
+// Firm from the headline, fund name from "... Fund IV", size from the first
+// money phrase
+export function extractFundCloseWithRules(content: string, structured: StructuredRelease | null = null): ExtractedFundClose {
+  const { text, headline, published } = releaseText(content, structured);
+  const firm = headline.match(HEADLINE_FIRM)?.[1];
+  const fundName = text.match(FUND_NAME)?.[1];
+  const size = findMoneyInText(headline) || findMoneyInText(text);
+  const partners = text.match(LIMITED_PARTNERS);
+
+  const fund: ExtractedFundClose = {
+    firmName: firm && looksLikeName(firm) ? cleanName(firm) : 'NOT FOUND',
+    fundName: fundName ? fundName.trim() : 'NOT FOUND',
+    fundSize: size ? size.display : 'NOT FOUND',
+    limitedPartners: partners ? splitInvestorList(partners[1]) : [],
+    strategy: 'NOT FOUND',
+    announcementDate: announcementDateOf(text, published),
+    confidence: 0
+  };
+
+  fund.confidence = Math.min(MAX_RULE_CONFIDENCE, 10 + [fund.firmName, fund.fundName, fund.fundSize].filter(isFound).length * 15);
+  return fund;
+}
+
+// "Acme Robotics raised $25 million", "Beta Labs, a fintech startup, secured €8M".
+// A name never runs on past a full stop into the next sentence.
+const RAISE_MENTION = /([A-Z][\w&.'’-]*(?:(?<!\.)\s+[A-Z][\w&.'’-]*){0,4})(?:\s*\([^)]{1,40}\))?(?:,\s+[^,.]{3,120},)?\s+(?:today\s+|has\s+|just\s+)?(?:raised|raises|secured|secures|closed|closes|landed|lands|bagged|bags)\s+(?=[^.;]{0,30}?(?:[$€£¥₹]\s?\d|\d[\d.,]*\s*(?:million|billion|[MB]\b)))/g;
+
+const ROUNDUP_HEADLINE = /\b(round-?up|recap|startups? (?:that )?raised|funding (?:news|report|digest)|deals? of the week|this week in|weekly funding|\d+\s+(?:startups|companies))\b/i;
+
+// Articles naming this many companies that raised money count as roundups
+// even without a roundup headline
+const MIN_ROUNDUP_COMPANIES = 3;
+
+// Splits an article that reports several rounds (a weekly roundup, a
+// multi-company release) into one section per company, starting at the
+// company's first "X raised $Y". Returns [] for single-deal articles.
+export function findRoundupSections(content: string, structured: StructuredRelease | null = null): { companyName: string; text: string }[] {
+  const { text, headline } = releaseText(content, structured);
+
+  const seen = new Set<string>();
+  const mentions = Array.from(text.matchAll(RAISE_MENTION))
+    .map(match => ({ companyName: cleanName(match[1]), index: match.index! }))
+    .filter(mention => {
+      const key = normalizeCompanyName(mention.companyName);
+      if (!looksLikeName(mention.companyName) || !key || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+
+  if (mentions.length < 2 || (mentions.length < MIN_ROUNDUP_COMPANIES && !ROUNDUP_HEADLINE.test(headline))) return [];
+
+  return mentions.map((mention, i) => ({
+    companyName: mention.companyName,
+    text: text.substring(mention.index, i + 1 < mentions.length ? mentions[i + 1].index : text.length).trim()
+  }));
+}
+
+// One rule-based deal per roundup section, dated by the article when the
+// section doesn't say
+export function extractRoundupWithRules(content: string, structured: StructuredRelease | null = null, taxonomy: Taxonomy = loadTaxonomy()): ExtractedDeal[] {
+  const { text, published } = releaseText(content, structured);
+  const articleDate = announcementDateOf(text, published);
+
+  return findRoundupSections(content, structured).map(section => {
+    const deal = extractWithRules(section.text, '', null, taxonomy);
+    deal.companyName = section.companyName;
+    if (!isFound(deal.announcementDate)) deal.announcementDate = articleDate;
+    deal.evidence = firstSentence(section.text);
+    deal.confidence = ruleConfidence(deal, taxonomy);
+    return deal;
+  });
+}
+
+// Lists the key fields where the rule-based pass disagrees with the LLM.
+// Fields either side could not find are not compared.
+export function crossCheckExtraction(llm: ExtractedDeal, rules: ExtractedDeal): string[] {
+  const disagreements: string[] = [];
+
+  if (isFound(llm.companyName) && isFound(rules.companyName)) {
+    const a = normalizeCompanyName(llm.companyName);
+    const b = normalizeCompanyName(rules.companyName);
+    if (!a.includes(b) && !b.includes(a)) {
+      disagreements.push(`company name ("${llm.companyName}" vs "${rules.companyName}")`);
+    }
+  }
+
+  if (isFound(llm.amountRaised) && isFound(rules.amountRaised)) {
+    const a = parseMoney(llm.amountRaised, { defaultCurrency: 'USD' });
+    const b = parseMoney(rules.amountRaised, { defaultCurrency: 'USD' });
+    // Allow rounding differences such as "$4.05B" vs "$4,050,000,000"
+    if (a && b && (a.currency !== b.currency || Math.abs(a.amount - b.amount) > Math.max(a.amount, b.amount) * 0.05)) {
+      disagreements.push(`amount ("${llm.amountRaised}" vs "${rules.amountRaised}")`);
+    }
+  }
+
+  if (isFound(llm.leadInvestor) && isFound(rules.leadInvestor)) {
+    const a = normalizeInvestorName(llm.leadInvestor);
+    const b = normalizeInvestorName(rules.leadInvestor);
+    if (!a.includes(b) && !b.includes(a)) {
+      disagreements.push(`lead investor ("${llm.leadInvestor}" vs "${rules.leadInvestor}")`);
+    }
+  }
+
+  return disagreements;
+}
+
+function findCompanyName(headline: string, text: string, url: string, structured: StructuredRelease | null): string | null {
+  const fromHeadline = headline.match(HEADLINE_COMPANY);
+  if (fromHeadline && looksLikeName(fromHeadline[1])) return cleanName(fromHeadline[1]);
+
+  const announced = text.match(ANNOUNCED_COMPANY);
+  if (announced && looksLikeName(announced[1])) return cleanName(announced[1]);
+
+  if (structured && structured.boilerplates.length > 0) return structured.boilerplates[0].company;
+
+  // "acme-robotics-raises-20m-series-a" -> "Acme Robotics"
+  let slug = '';
+  try {
+    slug = decodeURIComponent(new URL(url).pathname.split('/').filter(Boolean).pop() || '');
+  } catch {
+    return null;
+  }
+  const fromSlug = slug.replace(/\.\w+$/, '').match(new RegExp(`^(.+?)[-_](?:${ANNOUNCE_VERBS})[-_]`, 'i'));
+  if (fromSlug) {
+    return fromSlug[1].split(/[-_]/).map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+  }
+
+  return null;
+}
+
+function findLeadInvestors(text: string): { lead: string | null; coLeads: string[] } {
+  const match = text.match(LED_BY);
+  if (!match) return { lead: null, coLeads: [] };
+
+  const names = splitInvestorList(match[1]);
+  return { lead: names[0] || null, coLeads: names.slice(1) };
+}
+
+function findParticipants(text: string): string[] {
+  const names: string[] = [];
+  PARTICIPATION.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = PARTICIPATION.exec(text)) !== null) {
+    names.push(...splitInvestorList(match[1]));
+  }
+  return names;
+}
+
+// "A, B and existing investors C and D, among others" -> [A, B, C, D]
+function splitInvestorList(list: string): string[] {
+  return list
+    .replace(/\b(?:among others|and others|as well as)\b/gi, ',')
+    .split(/,|\band\b|&(?=\s)/)
+    .map(name => name
+      .replace(/^\s*(?:and|with|from|by|the|including|new|existing|returning|strategic)\b\s*/i, '')
+      .replace(/^\s*(?:and\s+)?(?:new\s+|existing\s+|returning\s+)?investors?\s*(?:including\s+)?/i, '')
+      .replace(/\s+/g, ' ')
+      .trim())
+    .map(properNameRun)
+    .filter(name => looksLikeName(name));
+}
+
+// Keeps the leading run of capitalized words so "Sequoia Capital brings total
+// funding to $40M" becomes "Sequoia Capital"
+function properNameRun(text: string): string {
+  const words: string[] = [];
+  for (const word of text.split(' ')) {
+    if (/^[A-Z0-9]/.test(word) || (words.length > 0 && /^(of|de|la|du|von|van|for|the)$/.test(word))) {
+      words.push(word);
+    } else {
+      break;
+    }
+  }
+  while (words.length > 0 && /^(of|de|la|du|von|van|for|the)$/.test(words[words.length - 1])) words.pop();
+  return words.join(' ');
+}
+
+function findHeadquarters(text: string): string | null {
+  for (const pattern of HEADQUARTERS) {
+    const match = text.match(pattern);
+    if (match) return match[1].trim();
+  }
+  return null;
+}
+
+function findUseOfFunds(text: string): string | null {
+  const sentences = text.split(/(?<=[.!?])\s+/);
+  const sentence = sentences.find(s => USE_OF_FUNDS.test(s));
+  if (!sentence) return null;
+  return sentence.length > 240 ? sentence.substring(0, 237).trim() + '...' : sentence.trim();
+}
+
+function firstSentence(text: string): string {
+  const sentence = text.split(/(?<=[.!?])\s+/)[0].trim();
+  return sentence.length > 240 ? sentence.substring(0, 237).trim() + '...' : sentence;
+}
+
+function ruleConfidence(deal: ExtractedDeal, taxonomy: Taxonomy): number {
+  let score = 10;
+  if (isFound(deal.companyName)) score += 20;
+  if (isFound(deal.amountRaised)) score += 15;
+  if (isFound(deal.leadInvestor)) score += 10;
+  if (deal.roundType !== 'Unknown') score += 5;
+  if (isFound(deal.announcementDate)) score += 5;
+  if (deal.primaryCategory !== taxonomy.fallbackCategory) score += 5;
+  return Math.min(score, MAX_RULE_CONFIDENCE);
+}
+
+function looksLikeName(value: string): boolean {
+  const name = value.trim();
+  return name.length >= 2 && name.length <= 80 && /^[A-Z0-9]/.test(name) && name.split(/\s+/).length <= 8;
+}
+
+function cleanName(value: string): string {
+  return value.replace(/^(?:exclusive:|breaking:)\s*/i, '').replace(/[,:;\s]+$/, '').trim();
+}
+
+function isFound(value: string): boolean {
+  return !!value && !/^(not found|unknown)$/i.test(value.trim());
+}
+
+function unique(names: string[]): string[] {
+  const seen = new Set<string>();
+  return names.filter(name => {
+    const key = investorKey(name) || name.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
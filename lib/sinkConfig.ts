@@ -0,0 +1,42 @@
+import path from 'path';
+import { DATA_DIR } from './jsonFile';
+import { ResultSink } from './resultSink';
+import { GoogleSheetsService } from './googleSheets';
+import { CsvSink } from './csvSink';
+import { JsonlSink } from './jsonlSink';
+import { SqliteSink } from './sqliteSink';
+
+export type SinkType = 'sheets' | 'csv' | 'jsonl' | 'sqlite';
+
+export const SINK_TYPES: SinkType[] = ['sheets', 'csv', 'jsonl', 'sqlite'];
+
+// RESULT_SINKS is a comma-separated list, e.g. "sheets,jsonl". Defaults to
+// Google Sheets only, which matches the original behaviour.
+export function getConfiguredSinkTypes(): SinkType[] {
+  const configured = (process.env.RESULT_SINKS || 'sheets')
+    .split(',')
+    .map(type => type.trim().toLowerCase())
+    .filter(Boolean);
+
+  const unknown = configured.filter(type => !SINK_TYPES.includes(type as SinkType));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown result sink(s): ${unknown.join(', ')}. Expected: ${SINK_TYPES.join(', ')}`);
+  }
+
+  return Array.from(new Set(configured)) as SinkType[];
+}
+
+export function createResultSinks(types: SinkType[] = getConfiguredSinkTypes()): ResultSink[] {
+  return types.map(type => {
+    switch (type) {
+      case 'sheets':
+        return new GoogleSheetsService();
+      case 'csv':
+        return new CsvSink(process.env.RESULT_CSV_PATH || path.join(DATA_DIR, 'results.csv'));
+      case 'jsonl':
+        return new JsonlSink(process.env.RESULT_JSONL_PATH || path.join(DATA_DIR, 'results.jsonl'));
+      case 'sqlite':
+        return new SqliteSink(process.env.RESULT_SQLITE_PATH || path.join(DATA_DIR, 'results.sqlite'));
+    }
+  });
+}
@@ -0,0 +1,153 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import initSqlJs, { Database, SqlJsStatic } from 'sql.js';
+import { PRData } from './types';
+import { ResultSink, ResultColumn, SinkContext, RESULT_COLUMNS, toResultRow } from './resultSink';
+import { RollupStore, RollupTable } from './rollups';
+import { canonicalizeUrl } from './dedup';
+
+let sqlJs: Promise<SqlJsStatic> | null = null;
+
+function loadSqlJs(): Promise<SqlJsStatic> {
+  if (!sqlJs) {
+    // The wasm binary ships with the package; resolve it from node_modules
+    sqlJs = initSqlJs({
+      locateFile: file => path.join(process.cwd(), 'node_modules', 'sql.js', 'dist', file)
+    });
+  }
+  return sqlJs;
+}
+
+function columnType(column: ResultColumn): string {
+  switch (column) {
+    case 'isScam':
+    case 'confidence':
+    case 'riskScore':
+      return 'INTEGER';
+    case 'amountValue':
+    case 'amountUsd':
+    case 'postMoneyValuation':
+      return 'REAL';
+    default:
+      return 'TEXT';
+  }
+}
+
+// Roll-up tables (rollup_investors, rollup_companies, rollup_categories,
+// rollup_acquisitions, rollup_fund_closes) are
+// derived data, so they are recreated on every write rather than migrated
+function writeRollupTable(db: Database, table: RollupTable): void {
+  const name = `rollup_${table.name}`;
+  const columns = table.columns.map(column => column.key);
+  db.run(`DROP TABLE IF EXISTS ${name}`);
+  db.run(`CREATE TABLE ${name} (${columns.join(', ')})`);
+  for (const row of table.rows) {
+    db.run(`INSERT INTO ${name} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`, columns.map(column => row[column] ?? ''));
+  }
+}
+
+// Fills in the canonical URL of rows written before it was stored
+function backfillCanonicalUrls(db: Database): void {
+  const rows = db.exec('SELECT id, sourceUrl FROM results WHERE canonicalSourceUrl IS NULL')[0]?.values || [];
+  for (const [id, sourceUrl] of rows) {
+    db.run('UPDATE results SET canonicalSourceUrl = ? WHERE id = ?', [canonicalizeUrl(String(sourceUrl ?? '')), id]);
+  }
+}
+
+// sql.js runs SQLite in memory, so each write loads the database file,
+// inserts the row and exports the whole database back to disk.
+export class SqliteSink implements ResultSink {
+  readonly name = 'sqlite';
+  readonly upserts = true;
+  private filePath: string;
+  private pending: Promise<unknown> = Promise.resolve();
+  private rollups = new RollupStore();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async initialize(): Promise<void> {
+    await this.withDatabase(() => undefined);
+  }
+
+  // Updates the deal's existing row (same deal key or, unless several deals
+  // share it, source URL) or inserts a new one. URLs are compared in
+  // canonical form, like the Google Sheets sink does.
+  async write(data: PRData, context: SinkContext): Promise<void> {
+    const row = toResultRow(data, context);
+    // processedAt and sourceUrl keep the values from when the deal was first written
+    const columns = RESULT_COLUMNS.filter(column => column !== 'processedAt' && column !== 'sourceUrl');
+    const sourceUrls = context.sharedUrl ? [] : Array.from(new Set((context.sourceUrls || [context.sourceUrl]).map(canonicalizeUrl)));
+    const rollups = await this.rollups.record(data, context);
+
+    await this.withDatabase(db => {
+      db.run(
+        `UPDATE results SET ${columns.map(column => `${column} = ?`).join(', ')}
+         WHERE (dealKey != '' AND dealKey = ?)${sourceUrls.length > 0 ? ` OR canonicalSourceUrl IN (${sourceUrls.map(() => '?').join(', ')})` : ''}`,
+        [...columns.map(column => row[column]), context.dealKey || '', ...sourceUrls]
+      );
+
+      if (db.getRowsModified() === 0) {
+        const placeholders = RESULT_COLUMNS.map(() => '?').join(', ');
+        db.run(
+          `INSERT INTO results (${RESULT_COLUMNS.join(', ')}, canonicalSourceUrl) VALUES (${placeholders}, ?)`,
+          [...RESULT_COLUMNS.map(column => row[column]), canonicalizeUrl(context.sourceUrl)]
+        );
+      }
+
+      for (const table of rollups) {
+        writeRollupTable(db, table);
+      }
+    });
+  }
+
+  private async withDatabase(change: (db: Database) => void): Promise<void> {
+    const next = this.pending.catch(() => undefined).then(async () => {
+      const SQL = await loadSqlJs();
+      const db = await this.open(SQL);
+
+      try {
+        db.run(`CREATE TABLE IF NOT EXISTS results (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          ${RESULT_COLUMNS.map(column => `${column} ${columnType(column)}`).join(',\n          ')}
+        )`);
+
+        // Add columns introduced since the database file was created
+        const existing = new Set((db.exec('PRAGMA table_info(results)')[0]?.values || []).map(row => String(row[1])));
+        for (const column of RESULT_COLUMNS.filter(c => !existing.has(c))) {
+          db.run(`ALTER TABLE results ADD COLUMN ${column} ${columnType(column)}`);
+        }
+        // Only used to match rows, so it isn't one of the shared result columns
+        if (!existing.has('canonicalSourceUrl')) {
+          db.run('ALTER TABLE results ADD COLUMN canonicalSourceUrl TEXT');
+        }
+        backfillCanonicalUrls(db);
+
+        change(db);
+
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        const tempPath = `${this.filePath}.tmp`;
+        await fs.writeFile(tempPath, Buffer.from(db.export()));
+        await fs.rename(tempPath, this.filePath);
+      } finally {
+        db.close();
+      }
+    });
+
+    this.pending = next;
+    await next;
+  }
+
+  private async open(SQL: SqlJsStatic): Promise<Database> {
+    try {
+      const existing = await fs.readFile(this.filePath);
+      return new SQL.Database(existing);
+    } catch (error: any) {
+      if (error && error.code === 'ENOENT') {
+        return new SQL.Database();
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,168 @@
+import fs from 'fs';
+import path from 'path';
+import { CategoryScore } from './types';
+
+export interface TaxonomyCategory {
+  id: string;
+  label: string;
+  description: string;
+  // Example phrases, shown to the model and used by the rule-based
+  // classifier. Matched case-insensitively as whole words; a trailing "*"
+  // matches any word ending ("payment*" covers "payments").
+  keywords: string[];
+  // Points per keyword hit for the rule-based classifier (default 1)
+  weight?: number;
+  // Hits needed before the rule-based classifier assigns it (default 2)
+  minHits?: number;
+  // Assigned by the rule-based classifier when every listed category has at
+  // least one hit, e.g. "AI SaaS" from AI and SaaS mentions
+  combines?: string[];
+}
+
+export interface Taxonomy {
+  version: number;
+  // Category used when nothing else fits
+  fallbackCategory: string;
+  // Secondary labels scoring below this are dropped
+  minSecondaryScore: number;
+  categories: TaxonomyCategory[];
+}
+
+const DEFAULT_TAXONOMY_PATH = path.join(process.cwd(), 'config', 'taxonomy.json');
+
+let cachedTaxonomy: { filePath: string; taxonomy: Taxonomy } | null = null;
+
+// Loads the category taxonomy from TAXONOMY_PATH (default config/taxonomy.json).
+// Unlike the FX table there is no sensible fallback, so a missing or invalid
+// file is an error.
+export function loadTaxonomy(filePath: string = process.env.TAXONOMY_PATH || DEFAULT_TAXONOMY_PATH): Taxonomy {
+  if (cachedTaxonomy && cachedTaxonomy.filePath === filePath) {
+    return cachedTaxonomy.taxonomy;
+  }
+
+  let taxonomy: Taxonomy;
+  try {
+    taxonomy = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Unable to read taxonomy ${filePath}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const problems = validateTaxonomy(taxonomy);
+  if (problems.length > 0) {
+    throw new Error(`Invalid taxonomy ${filePath}: ${problems.join('; ')}`);
+  }
+
+  cachedTaxonomy = { filePath, taxonomy };
+  return taxonomy;
+}
+
+export function validateTaxonomy(taxonomy: Taxonomy): string[] {
+  if (!taxonomy || !Array.isArray(taxonomy.categories) || taxonomy.categories.length === 0) {
+    return ['categories must be a non-empty array'];
+  }
+
+  const problems: string[] = [];
+  const ids = new Set<string>();
+  for (const category of taxonomy.categories) {
+    if (!category.id || !/^[a-z0-9-]+$/.test(category.id)) {
+      problems.push(`category id "${category.id}" must be lowercase letters, digits and dashes`);
+    } else if (ids.has(category.id)) {
+      problems.push(`duplicate category id "${category.id}"`);
+    }
+    ids.add(category.id);
+    if (!category.label) problems.push(`category "${category.id}" has no label`);
+    if (!Array.isArray(category.keywords)) problems.push(`category "${category.id}" keywords must be an array`);
+  }
+
+  for (const category of taxonomy.categories) {
+    for (const part of category.combines || []) {
+      if (!ids.has(part)) problems.push(`category "${category.id}" combines unknown category "${part}"`);
+    }
+  }
+  if (!ids.has(taxonomy.fallbackCategory)) {
+    problems.push(`fallbackCategory "${taxonomy.fallbackCategory}" is not a category`);
+  }
+
+  return problems;
+}
+
+export function categoryIds(taxonomy: Taxonomy): string[] {
+  return taxonomy.categories.map(category => category.id);
+}
+
+export function findCategory(taxonomy: Taxonomy, id: string): TaxonomyCategory | undefined {
+  return taxonomy.categories.find(category => category.id === id);
+}
+
+// Category list for the extraction prompt
+export function describeTaxonomy(taxonomy: Taxonomy): string {
+  return taxonomy.categories
+    .map(category => {
+      const examples = category.keywords.length > 0 ? ` (e.g. ${category.keywords.slice(0, 6).map(k => k.replace(/\*$/, '')).join(', ')})` : '';
+      return `- ${category.id}: ${category.label} - ${category.description}${examples}`;
+    })
+    .join('\n');
+}
+
+// Primary category first, then secondary labels by score. Labels below the
+// taxonomy's minimum score and unknown IDs are dropped; the primary is always
+// kept.
+export function toCategoryScores(taxonomy: Taxonomy, primary: string, scores: Record<string, number>): CategoryScore[] {
+  const labels: CategoryScore[] = [];
+  const primaryCategory = findCategory(taxonomy, primary) || findCategory(taxonomy, taxonomy.fallbackCategory)!;
+  labels.push({ id: primaryCategory.id, label: primaryCategory.label, score: Math.round(scores[primaryCategory.id] ?? 100) });
+
+  const secondary = Object.entries(scores)
+    .filter(([id, score]) => id !== primaryCategory.id && score >= taxonomy.minSecondaryScore)
+    .map(([id, score]) => ({ category: findCategory(taxonomy, id), score }))
+    .filter(entry => entry.category && entry.category.id !== taxonomy.fallbackCategory)
+    .sort((a, b) => b.score - a.score);
+
+  for (const { category, score } of secondary) {
+    labels.push({ id: category!.id, label: category!.label, score: Math.round(score) });
+  }
+  return labels;
+}
+
+function keywordPattern(keyword: string): RegExp {
+  const escaped = keyword.replace(/\*$/, '').replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`\\b${escaped}${keyword.endsWith('*') ? '\\w*' : '\\b'}`, 'gi');
+}
+
+// Keyword counts per category for the rule-based extractor. Returns the
+// best-scoring category and a 0-maxScore score for every category that
+// reached its minimum number of hits.
+export function classifyByKeywords(text: string, taxonomy: Taxonomy, maxScore: number): { primary: string; scores: Record<string, number> } {
+  const hits = new Map<string, number>();
+  for (const category of taxonomy.categories) {
+    hits.set(category.id, category.keywords.reduce((sum, keyword) => sum + (text.match(keywordPattern(keyword)) || []).length, 0));
+  }
+
+  const points = new Map<string, number>();
+  for (const category of taxonomy.categories) {
+    let count = hits.get(category.id)!;
+    if (category.combines && category.combines.every(part => hits.get(part)! > 0)) {
+      count += category.combines.reduce((sum, part) => sum + hits.get(part)!, 0);
+    }
+    if (count >= (category.minHits ?? 2)) {
+      points.set(category.id, count * (category.weight ?? 1));
+    }
+  }
+
+  // Ties go to the category listed first
+  let primary = taxonomy.fallbackCategory;
+  let top = 0;
+  for (const category of taxonomy.categories) {
+    const value = points.get(category.id) || 0;
+    if (value > top) {
+      primary = category.id;
+      top = value;
+    }
+  }
+
+  const scores: Record<string, number> = { [primary]: maxScore };
+  for (const [id, value] of Array.from(points.entries())) {
+    if (id !== primary) scores[id] = Math.round(maxScore * value / top);
+  }
+  return { primary, scores };
+}
@@ -1,19 +1,374 @@
+export interface Money {
+  amount: number;
+  // ISO-4217 code
+  currency: string;
+  display: string;
+}
+
+export type RoundType =
+  | 'Pre-seed' | 'Seed'
+  | 'Series A' | 'Series B' | 'Series C' | 'Series D' | 'Series E' | 'Series F'
+  | 'Growth' | 'Debt' | 'Grant' | 'Unknown';
+
+// How the press release reached us: fetched from a URL, or pasted text, an
+// uploaded HTML file, a raw .eml message or an uploaded PDF
+export type SourceType = 'url' | 'text' | 'html' | 'eml' | 'pdf';
+
+// First-stage label for a release. Funding rounds, acquisitions and fund
+// closes each have their own extraction schema; the rest are skipped.
+export type AnnouncementType = 'funding' | 'acquisition' | 'fund_close' | 'partnership' | 'product_launch' | 'other';
+
+export interface AnnouncementClassification {
+  type: AnnouncementType;
+  // 0-100
+  confidence: number;
+  method: 'rules' | 'model';
+  reason: string;
+}
+
+export interface AcquisitionDetails {
+  acquirer: string;
+  target: string;
+  dealValue: Money | null;
+  dealValueUsd: number | null;
+  // Acquisition, Merger, Majority stake, ...
+  dealType: string;
+  targetHeadquarters: string;
+  rationale: string;
+}
+
+// An investment firm closing a fund it will invest from - not a round
+// raised by a company
+export interface FundCloseDetails {
+  firmName: string;
+  fundName: string;
+  fundSize: Money | null;
+  fundSizeUsd: number | null;
+  limitedPartners: string[];
+  strategy: string;
+}
+
+// A press release supplied directly instead of fetched
+export interface ReleaseInput {
+  type: Exclude<SourceType, 'url'>;
+  // Base64-encoded for PDFs
+  content: string;
+  fileName?: string;
+  // Where the release was published, if known; lets newswire parsers and
+  // relative links work for uploaded pages
+  url?: string;
+}
+
 export interface PRData {
   companyName: string;
   ceoEmail: string;
   cmoEmail: string;
+  // Canonical names; the extracted strings are kept on each investor
   leadInvestor: string;
   followOnInvestors: string[];
+  investors: InvestorRef[];
   amountRaised: string;
+  amount: Money | null;
+  amountUsd: number | null;
+  roundType: RoundType;
+  // YYYY-MM-DD, taken from the article rather than the processing time
+  announcementDate: string | null;
+  postMoneyValuation: Money | null;
+  headquarters: string;
+  useOfFunds: string;
+  // Label of the primary category
   classification: string;
+  // Primary category first, then secondary labels by score
+  categories: CategoryScore[];
+  // Set when riskScore reaches the flag threshold
   isScam: boolean;
   confidence: number;
   extractionErrors: string[];
+  // The people behind ceoEmail/cmoEmail and where each email came from
+  executives: ExecutiveContact[];
+  // 0-100, with one human-readable reason per warning sign found
+  riskScore: number;
+  riskReasons: string[];
+  sourceType: SourceType;
+  announcementType: AnnouncementType;
+  // Why the release got its type
+  announcementReason: string;
+  // Set for the matching announcementType; the funding fields above are then
+  // left as NOT FOUND
+  acquisition?: AcquisitionDetails;
+  fundClose?: FundCloseDetails;
+  // Sentence the deal was taken from, for articles that report several deals
+  evidence?: string;
+}
+
+// Fields the LLM extracts from the press release text, before contact lookup
+// and normalization
+export interface ExtractedDeal {
+  companyName: string;
+  leadInvestor: string;
+  followOnInvestors: string[];
+  amountRaised: string;
+  roundType: string;
+  announcementDate: string;
+  postMoneyValuation: string;
+  headquarters: string;
+  useOfFunds: string;
+  // Category IDs from the configured taxonomy, with a 0-100 score per label
+  primaryCategory: string;
+  categoryScores: Record<string, number>;
+  isScam: boolean;
+  confidence: number;
+  evidence?: string;
+}
+
+// Fields the LLM extracts from an acquisition or merger announcement
+export interface ExtractedAcquisition {
+  acquirer: string;
+  target: string;
+  dealValue: string;
+  dealType: string;
+  announcementDate: string;
+  targetHeadquarters: string;
+  rationale: string;
+  confidence: number;
+}
+
+// Fields the LLM extracts from a fund close announcement
+export interface ExtractedFundClose {
+  firmName: string;
+  fundName: string;
+  fundSize: string;
+  limitedPartners: string[];
+  strategy: string;
+  announcementDate: string;
+  confidence: number;
+}
+
+// 'alias' investors matched a name in the alias dictionary, 'fuzzy' ones a
+// close misspelling of one; 'unlisted' ones got an ID from their own name
+export type InvestorMatch = 'alias' | 'fuzzy' | 'unlisted';
+
+export interface InvestorRef {
+  // Canonical ID, e.g. "andreessen-horowitz" for "a16z"
+  id: string;
+  name: string;
+  role: 'lead' | 'follow-on';
+  // The name as it appeared in the extraction
+  raw: string;
+  match: InvestorMatch;
+}
+
+export interface CategoryScore {
+  id: string;
+  label: string;
+  score: number;
+}
+
+export type ExecutiveRole = 'CEO' | 'CMO';
+
+// 'website' emails were printed on the company site; 'constructed' ones are
+// guesses built from the person's name and the company domain; 'csv' ones
+// come from the known contacts file
+export type EmailSource = 'apollo' | 'website' | 'constructed' | 'csv';
+
+// 'verified-by-provider' addresses were seen by Apollo or the known contacts
+// file; 'found-on-site' ones were scraped from the company site without
+// anyone confirming them; 'pattern-guessed' ones were built from the
+// person's name; 'mismatched-domain' ones don't use the company's domain
+export type EmailStatus = 'verified-by-provider' | 'found-on-site' | 'pattern-guessed' | 'mismatched-domain' | 'invalid';
+
+// Fields the LLM extracts from a company's leadership pages; null when not found
+export interface ExtractedExecutives {
+  ceoName: string | null;
+  ceoTitle?: string | null;
+  ceoEmail: string | null;
+  cmoName: string | null;
+  cmoTitle?: string | null;
+  cmoEmail: string | null;
 }
 
-export interface ExecutiveContact {
+// A contact as returned by a provider, before its email is assessed
+export interface FoundContact {
+  role: ExecutiveRole;
   name: string;
   email: string;
   title: string;
   confidence: number;
-}
\ No newline at end of file
+  emailSource: EmailSource;
+  // Page the person was found on, for website lookups
+  sourceUrl: string | null;
+}
+
+export interface ExecutiveContact extends FoundContact {
+  emailStatus: EmailStatus;
+  // Role addresses, free-mail domains and the like
+  emailIssues: string[];
+}
+
+// 'skipped' jobs were classified as an announcement type that isn't extracted
+export type JobStatus = 'queued' | 'fetching' | 'extracting' | 'enriching' | 'saved' | 'skipped' | 'failed';
+
+export type ExtractionStage = Extract<JobStatus, 'fetching' | 'extracting' | 'enriching'>;
+
+export interface JobStatusChange {
+  status: JobStatus;
+  at: string;
+}
+
+// One deal from an article that reported several
+export interface JobDeal {
+  result: PRData;
+  dedup?: DedupResult;
+  // Set when no sink could save this deal
+  error?: string;
+}
+
+export interface Job {
+  id: string;
+  url: string;
+  batchId?: string;
+  // Set for jobs the feed watcher queued
+  feedId?: string;
+  // Absent for URL jobs; other inputs are kept in the InputStore and url
+  // holds a content-derived identifier such as "eml:3f2a..."
+  sourceType?: SourceType;
+  // Uploaded file name, if any
+  sourceName?: string;
+  // Re-run a URL that was already processed and update its existing row
+  reprocess?: boolean;
+  status: JobStatus;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+  history: JobStatusChange[];
+  result?: PRData;
+  dedup?: DedupResult;
+  error?: string;
+  // Set when the release was skipped as not relevant
+  skipReason?: string;
+  // Every deal found when the article reported more than one; result and
+  // dedup then describe the first deal that was saved
+  deals?: JobDeal[];
+  errors: string[];
+}
+
+
+export type BatchEntryOutcome = 'queued' | 'invalid' | 'duplicate';
+
+export interface BatchEntry {
+  input: string;
+  url?: string;
+  outcome: BatchEntryOutcome;
+  jobId?: string;
+  reason?: string;
+}
+
+export interface Batch {
+  id: string;
+  createdAt: string;
+  entries: BatchEntry[];
+}
+
+export interface BatchSummary {
+  total: number;
+  pending: number;
+  succeeded: number;
+  failed: number;
+  duplicatesSkipped: number;
+  invalid: number;
+  // Not a funding round, acquisition or fund close
+  notRelevant: number;
+  // Deals saved across all jobs; roundup articles count once per deal
+  dealsFound: number;
+}
+
+export type DedupAction = 'skip' | 'merge' | 'link';
+
+export type DedupDecision = 'new' | 'skipped' | 'merged' | 'linked' | 'updated';
+
+export interface DedupResult {
+  decision: DedupDecision;
+  canonicalUrl: string;
+  fingerprint?: string;
+  dealId?: string;
+  reason: string;
+}
+
+export interface DealRecord {
+  id: string;
+  fingerprint: string;
+  // Key the deal's sink rows were first written under, kept when a reprocess
+  // changes the fingerprint; unset until that happens
+  dealKey?: string;
+  canonicalUrls: string[];
+  sourceUrls: string[];
+  jobIds: string[];
+  data: PRData;
+  firstSeenAt: string;
+  lastSeenAt: string;
+}
+
+// Sections pulled out of a newswire page by a site-specific parser
+export interface StructuredRelease {
+  source: string;
+  headline: string;
+  subheadline: string;
+  publishedAt: string | null;
+  dateline: string;
+  paragraphs: string[];
+  // "About <Company>" boilerplate paragraphs, in page order
+  boilerplates: { company: string; text: string }[];
+  mediaContact: string;
+}
+
+// 'keywords' keeps items whose title or summary mentions a funding round;
+// 'claude' also asks the model to confirm the keyword matches
+export type FeedFilter = 'keywords' | 'claude';
+
+export interface FeedStats {
+  polls: number;
+  failedPolls: number;
+  itemsSeen: number;
+  itemsMatched: number;
+  itemsQueued: number;
+  duplicatesSkipped: number;
+  lastPolledAt?: string;
+  lastQueuedAt?: string;
+  lastError?: string;
+}
+
+export interface Feed {
+  id: string;
+  name: string;
+  url: string;
+  enabled: boolean;
+  filter: FeedFilter;
+  // Extra keywords on top of the built-in funding terms
+  keywords: string[];
+  intervalMinutes: number;
+  createdAt: string;
+  // Cursor: items dated before lastSeenAt or listed in seenItemIds were
+  // already considered on an earlier poll
+  lastSeenAt?: string;
+  seenItemIds: string[];
+  stats: FeedStats;
+}
+
+export interface FeedItem {
+  // guid/id, falling back to the link
+  id: string;
+  title: string;
+  link: string;
+  summary: string;
+  publishedAt: string | null;
+}
+
+export interface FeedPollResult {
+  feedId: string;
+  itemsSeen: number;
+  newItems: number;
+  matched: number;
+  queued: { url: string; jobId: string }[];
+  duplicates: string[];
+  error?: string;
+}
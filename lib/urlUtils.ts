@@ -0,0 +1,64 @@
+export function isValidUrl(string: string): boolean {
+  try {
+    new URL(string);
+    return true;
+  } catch (_) {
+    return false;
+  }
+}
+
+// Newline-separated list: blank lines and "#" comments are ignored.
+export function parseUrlList(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'));
+}
+
+// CSV upload: each row contributes its first cell that looks like a URL. A
+// first row without one is treated as a header; later rows without one are
+// returned as-is so they get reported as invalid.
+export function parseUrlCsv(csv: string): string[] {
+  const rows = csv.split(/\r?\n/).filter(row => row.trim());
+  const results: string[] = [];
+
+  rows.forEach((row, index) => {
+    const cells = splitCsvRow(row);
+    const urlCell = cells.find(cell => /^https?:\/\//i.test(cell));
+
+    if (urlCell) {
+      results.push(urlCell);
+    } else if (index > 0) {
+      results.push(row.trim());
+    }
+  });
+
+  return results;
+}
+
+export function splitCsvRow(row: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < row.length; i++) {
+    const char = row[i];
+
+    if (char === '"') {
+      if (inQuotes && row[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if ((char === ',' || char === ';' || char === '\t') && !inQuotes) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  cells.push(current.trim());
+  return cells;
+}
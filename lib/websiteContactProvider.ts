@@ -0,0 +1,191 @@
+import axios, { AxiosInstance } from 'axios';
+import * as cheerio from 'cheerio';
+import { ExecutiveRole, ExtractedExecutives, FoundContact } from './types';
+import { ContactProvider, ContactQuery } from './contactProvider';
+import { ClaudeClient } from './claudeClient';
+import { EXECUTIVE_SCHEMA } from './extractionSchema';
+import { findReleaseDomains } from './emailQuality';
+
+interface WebsitePage {
+  url: string;
+  text: string;
+}
+
+// Finds the company's website, reads its about/team pages and asks Claude to
+// pick out the executives. Emails are only marked 'website' when they appear
+// on a crawled page; anything else is a pattern-constructed guess.
+export class WebsiteContactProvider implements ContactProvider {
+  readonly name = 'website';
+  private http: AxiosInstance;
+  private claude: ClaudeClient;
+
+  constructor(http: AxiosInstance, claude: ClaudeClient) {
+    this.http = http;
+    this.claude = claude;
+  }
+
+  async findExecutives(query: ContactQuery): Promise<FoundContact[]> {
+    const domains = this.findCompanyDomains(query);
+
+    for (const domain of domains.slice(0, 3)) {
+      const pages = await this.searchCompanyWebsite(domain);
+      if (pages.length === 0) continue;
+
+      console.log(`Found ${pages.length} leadership page(s) on ${domain}`);
+      const contacts = await this.extractExecutivesWithClaude(pages, query.companyName, domain);
+      return contacts.filter(contact => query.roles.includes(contact.role));
+    }
+
+    return [];
+  }
+
+  // Domains linked from the release come first; guessed domains are the fallback
+  private findCompanyDomains(query: ContactQuery): string[] {
+    const fromRelease = findReleaseDomains(query.companyName, query.releaseLinks, query.releaseText);
+    return Array.from(new Set([...fromRelease, ...this.generatePossibleDomains(query.companyName)]));
+  }
+
+  // Fetches the home, about and team pages of a domain and returns the ones
+  // that mention executives. Mailto links are kept since they often hold the
+  // only email address on the page.
+  private async searchCompanyWebsite(domain: string): Promise<WebsitePage[]> {
+    const paths = ['/', '/about', '/about-us', '/team', '/our-team', '/leadership', '/management', '/company'];
+    const pages: WebsitePage[] = [];
+
+    for (const host of [domain, `www.${domain}`]) {
+      let reachable = false;
+
+      for (const pagePath of paths) {
+        const url = `https://${host}${pagePath}`;
+        try {
+          const response = await this.http.get(url, {
+            timeout: 10000,
+            headers: {
+              'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
+            }
+          });
+          reachable = true;
+
+          if (response.status !== 200 || typeof response.data !== 'string') continue;
+
+          const $ = cheerio.load(response.data);
+          const mailtos = $('a[href^="mailto:"]').map((_, el) => ($(el).attr('href') || '').replace(/^mailto:/i, '').split('?')[0]).get();
+          $('script, style, nav, footer, .advertisement').remove();
+          const text = $('body').text().replace(/\s+/g, ' ').trim();
+
+          if (/\b(ceo|chief executive|founder|chief marketing|cmo|head of marketing|leadership|team)\b/i.test(text)) {
+            pages.push({ url, text: [text.substring(0, 5000), ...mailtos].join(' ') });
+          }
+        } catch (error) {
+          // A missing page is expected; an unreachable root means a wrong domain
+          if (pagePath === '/' && !(axios.isAxiosError(error) && error.response)) break;
+        }
+      }
+
+      if (reachable) break;
+    }
+
+    return pages;
+  }
+
+  private async extractExecutivesWithClaude(pages: WebsitePage[], companyName: string, domain: string): Promise<FoundContact[]> {
+    const websiteContent = pages.map(page => `PAGE: ${page.url}\n${page.text}`).join('\n\n').substring(0, 12000);
+
+    const prompt = `You are an expert at extracting executive contact information from company website content.
+
+Company Name: ${companyName}
+Company Domain: ${domain}
+
+Website Content:
+${websiteContent}
+
+Please analyze this content and extract executive information. Look for:
+1. CEO, Chief Executive Officer, Founder, Co-Founder names
+2. CMO, Chief Marketing Officer, Head of Marketing, Marketing Director names
+3. Email addresses associated with these executives
+
+Respond ONLY with a valid JSON object in this exact format:
+
+{
+  "ceoName": "Name of CEO/Founder if found, or null",
+  "ceoTitle": "Title exactly as shown on the page, or null",
+  "ceoEmail": "Email of CEO if found, or constructed email if name found, or null",
+  "cmoName": "Name of CMO/Marketing head if found, or null",
+  "cmoTitle": "Title exactly as shown on the page, or null",
+  "cmoEmail": "Email of CMO if found, or constructed email if name found, or null"
+}
+
+IMPORTANT GUIDELINES:
+1. If you find a name but no direct email, construct a likely email using common patterns:
+   - firstname.lastname@companydomain.com
+   - firstname@companydomain.com
+   - f.lastname@companydomain.com
+2. Use the company domain from any email found on the site
+3. If no names or emails found, use null for all fields
+4. Be conservative - only include information you're confident about
+
+Respond with ONLY the JSON object, no additional text.`;
+
+    try {
+      const { value: extracted, repairs } = await this.claude.askForJson<ExtractedExecutives>(prompt, EXECUTIVE_SCHEMA, 500);
+      if (repairs.length > 0) {
+        console.log('Executive extraction repairs:', repairs);
+      }
+
+      const found: [ExecutiveRole, string | null, string | null | undefined, string | null][] = [
+        ['CEO', extracted.ceoName, extracted.ceoTitle, extracted.ceoEmail],
+        ['CMO', extracted.cmoName, extracted.cmoTitle, extracted.cmoEmail]
+      ];
+
+      const contacts: FoundContact[] = [];
+      for (const [role, name, title, email] of found) {
+        if (!email) continue;
+
+        // Only trust the page itself on whether an email was published there
+        const page = pages.find(p => p.text.toLowerCase().includes(email.toLowerCase()));
+        const namedOn = name ? pages.find(p => p.text.includes(name)) : undefined;
+        contacts.push({
+          role,
+          name: name || '',
+          email,
+          title: title || role,
+          confidence: page ? 80 : 40,
+          emailSource: page ? 'website' : 'constructed',
+          sourceUrl: (page || namedOn || pages[0]).url
+        });
+      }
+
+      return contacts;
+    } catch (error) {
+      console.error('Claude executive extraction error:', error);
+      return [];
+    }
+  }
+
+  private generatePossibleDomains(companyName: string): string[] {
+    const cleanName = companyName
+      .toLowerCase()
+      .replace(/[^a-z0-9\s]/g, '')
+      .replace(/\s+/g, '');
+
+    const domains = [
+      `${cleanName}.com`,
+      `${cleanName}.co`,
+      `${cleanName}.io`
+    ];
+
+    // Remove common words and try again
+    const withoutCommon = cleanName
+      .replace(/(technologies|tech|systems|solutions|labs|inc|corp|ltd|company|co)/g, '');
+    
+    if (withoutCommon !== cleanName && withoutCommon.length > 2) {
+      domains.push(
+        `${withoutCommon}.com`,
+        `${withoutCommon}.co`,
+        `${withoutCommon}.io`
+      );
+    }
+
+    return domains;
+  }
+}
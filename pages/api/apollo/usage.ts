@@ -0,0 +1,18 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { ApolloCache, ApolloUsage } from '../../../lib/apolloCache';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const days = typeof req.query.days === 'string' ? parseInt(req.query.days, 10) : 30;
+    const summary = await new ApolloUsage().getSummary(new ApolloCache(), days > 0 && days <= 365 ? days : 30);
+
+    return res.status(200).json(summary);
+  } catch (error) {
+    console.error('API Error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,28 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getJobQueue } from '../../../lib/jobQueue';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { id } = req.query;
+    if (typeof id !== 'string') {
+      return res.status(400).json({ error: 'Invalid batch ID' });
+    }
+
+    const queue = getJobQueue();
+    await queue.resumePending();
+    const status = await queue.getBatch(id);
+
+    if (!status) {
+      return res.status(404).json({ error: 'Batch not found' });
+    }
+
+    return res.status(200).json(status);
+  } catch (error) {
+    console.error('API Error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,37 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { FeedStore, parseFeedInput } from '../../../lib/feedStore';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'PATCH' && req.method !== 'DELETE') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { id } = req.query;
+    if (typeof id !== 'string') {
+      return res.status(400).json({ error: 'Invalid feed ID' });
+    }
+
+    const store = new FeedStore();
+
+    if (req.method === 'DELETE') {
+      const removed = await store.remove(id);
+      return removed ? res.status(204).end() : res.status(404).json({ error: 'Feed not found' });
+    }
+
+    if (req.method === 'PATCH') {
+      const parsed = parseFeedInput(req.body, true);
+      if ('error' in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      const feed = await store.update(id, parsed.input);
+      return feed ? res.status(200).json({ feed }) : res.status(404).json({ error: 'Feed not found' });
+    }
+
+    const feed = await store.get(id);
+    return feed ? res.status(200).json({ feed }) : res.status(404).json({ error: 'Feed not found' });
+  } catch (error) {
+    console.error('API Error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,30 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { FeedInput, FeedStore, parseFeedInput } from '../../../lib/feedStore';
+import { getFeedWatcher } from '../../../lib/feedWatcher';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    // Started at boot by instrumentation.ts; this is a no-op once it's running
+    getFeedWatcher();
+    const store = new FeedStore();
+
+    if (req.method === 'GET') {
+      return res.status(200).json({ feeds: await store.list() });
+    }
+
+    const parsed = parseFeedInput(req.body, false);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const feed = await store.create(parsed.input as FeedInput);
+    return res.status(201).json({ feed });
+  } catch (error) {
+    console.error('API Error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,29 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { FeedStore } from '../../../lib/feedStore';
+import { getFeedWatcher } from '../../../lib/feedWatcher';
+
+// Polls one feed now ({ "id": "..." }) or every feed that is due. Useful from
+// cron when the background poller is turned off with FEED_WATCHER=false.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const watcher = getFeedWatcher();
+    const id = req.body?.id;
+
+    if (id !== undefined) {
+      const feed = typeof id === 'string' ? await new FeedStore().get(id) : null;
+      if (!feed) {
+        return res.status(404).json({ error: 'Feed not found' });
+      }
+      return res.status(200).json({ results: [await watcher.poll(feed)] });
+    }
+
+    return res.status(200).json({ results: await watcher.pollDue() });
+  } catch (error) {
+    console.error('API Error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,28 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getJobQueue } from '../../../lib/jobQueue';
+import { JOB_STATUSES } from '../../../lib/jobStore';
+import { JobStatus } from '../../../lib/types';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const status = typeof req.query.status === 'string' ? req.query.status as JobStatus : undefined;
+    if (status && !JOB_STATUSES.includes(status)) {
+      return res.status(400).json({ error: `Invalid status. Expected one of: ${JOB_STATUSES.join(', ')}` });
+    }
+
+    const limit = typeof req.query.limit === 'string' ? parseInt(req.query.limit, 10) : 50;
+
+    const queue = getJobQueue();
+    await queue.resumePending();
+    const jobs = await queue.getStore().list({ status, limit: limit > 0 ? limit : 50 });
+
+    return res.status(200).json({ jobs });
+  } catch (error) {
+    console.error('API Error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,44 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getJobQueue, MAX_BATCH_SIZE } from '../../lib/jobQueue';
+import { parseUrlCsv, parseUrlList } from '../../lib/urlUtils';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { urls, text, csv } = req.body || {};
+
+    // Accept a JSON array, a newline-separated list or the contents of a CSV file
+    let inputs: string[] = [];
+    if (Array.isArray(urls)) {
+      inputs = urls.map((u: unknown) => String(u));
+    } else if (typeof text === 'string') {
+      inputs = parseUrlList(text);
+    } else if (typeof csv === 'string') {
+      inputs = parseUrlCsv(csv);
+    }
+
+    if (inputs.length === 0) {
+      return res.status(400).json({ error: 'No URLs provided' });
+    }
+
+    if (inputs.length > MAX_BATCH_SIZE) {
+      return res.status(400).json({ error: `Too many URLs: ${inputs.length} (maximum ${MAX_BATCH_SIZE})` });
+    }
+
+    const queue = getJobQueue();
+    const batch = await queue.enqueueBatch(inputs);
+    const status = await queue.getBatch(batch.id);
+
+    return res.status(202).json({
+      message: `Batch submitted: ${status!.summary.total} URLs`,
+      ...status
+    });
+
+  } catch (error) {
+    console.error('API Error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
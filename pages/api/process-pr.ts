@@ -1,6 +1,12 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { PRExtractor } from '../../lib/prExtractor';
-import { GoogleSheetsService } from '../../lib/googleSheets';
+import { getJobQueue } from '../../lib/jobQueue';
+import { parseReleaseInput } from '../../lib/inputStore';
+import { isValidUrl } from '../../lib/urlUtils';
+
+// Uploaded HTML files, emails and PDFs are larger than Next's 1MB default
+export const config = {
+  api: { bodyParser: { sizeLimit: '10mb' } }
+};
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
@@ -8,20 +14,36 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 
   try {
-    const { url } = req.body; // ✅ FIXED: Removed recaptchaToken
+    const { url, input, reprocess } = req.body; // ✅ FIXED: Removed recaptchaToken
 
     // ✅ FIXED: Removed all ReCAPTCHA verification code
 
+    // Pasted text, an HTML file, an .eml message or a PDF instead of a URL
+    if (input !== undefined) {
+      const parsed = parseReleaseInput(input);
+      if ('error' in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+
+      const job = await getJobQueue().enqueueInput(parsed.input, { reprocess: reprocess === true });
+
+      return res.status(202).json({
+        message: 'PR submitted for processing.',
+        job
+      });
+    }
+
     // Validate URL
     if (!url || !isValidUrl(url)) {
       return res.status(400).json({ error: 'Invalid URL provided' });
     }
 
-    // Process in background (don't wait for completion)
-    processInBackground(url);
+    // Record a durable job; processing continues in the background
+    const job = await getJobQueue().enqueue(url, { reprocess: reprocess === true });
 
-    return res.status(200).json({ 
-      message: 'PR submitted for processing. Data will be added to the spreadsheet shortly.' 
+    return res.status(202).json({ 
+      message: 'PR submitted for processing.',
+      job
     });
 
   } catch (error) {
@@ -29,40 +51,3 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     return res.status(500).json({ error: 'Internal server error' });
   }
 }
-
-async function processInBackground(url: string) {
-  try {
-    const extractor = new PRExtractor();
-    const sheetsService = new GoogleSheetsService();
-
-    // Initialize sheet headers if needed
-    await sheetsService.initializeSheet();
-
-    // Extract data with detailed logging
-    console.log('About to start extraction...');
-    const prData = await extractor.extractPRData(url);
-    console.log('Extraction completed with data:', prData);
-    
-    // Save to Google Sheets
-    console.log('About to save to sheets...');
-    await sheetsService.appendData(prData);
-    console.log('Successfully saved to sheets');
-    
-    console.log('Successfully processed PR:', url);
-  } catch (error) {
-    console.error('Background processing error:', error);
-    console.error('Error details:', {
-      message: error instanceof Error ? error.message : 'Unknown error',
-      stack: error instanceof Error ? error.stack : 'No stack trace'
-    });
-  }
-}
-
-function isValidUrl(string: string): boolean {
-  try {
-    new URL(string);
-    return true;
-  } catch (_) {
-    return false;
-  }
-}
\ No newline at end of file
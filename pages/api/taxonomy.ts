@@ -0,0 +1,15 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { loadTaxonomy } from '../../lib/taxonomy';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    return res.status(200).json({ taxonomy: loadTaxonomy() });
+  } catch (error) {
+    console.error('API Error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
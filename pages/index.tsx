@@ -1,15 +1,144 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import ApolloUsagePanel from '../components/ApolloUsagePanel';
+import BatchSubmit from '../components/BatchSubmit';
+import TaxonomyPanel from '../components/TaxonomyPanel';
+import { ExecutiveRole, Job, PRData, ReleaseInput } from '../lib/types';
+
+const POLL_INTERVAL_MS = 2000;
+
+const STATUS_LABELS: Record<Job['status'], string> = {
+  queued: 'Queued',
+  fetching: 'Fetching press release...',
+  extracting: 'Extracting funding details...',
+  enriching: 'Looking up executive contacts...',
+  saved: 'Saved',
+  skipped: 'Skipped - not a funding announcement',
+  failed: 'Failed'
+};
+
+const EMAIL_SOURCE_LABELS = {
+  apollo: 'from Apollo',
+  website: 'found on company site',
+  constructed: 'guessed from name pattern',
+  csv: 'from known contacts'
+};
+
+const EMAIL_STATUS_LABELS = {
+  'verified-by-provider': '',
+  'found-on-site': 'not confirmed by a provider',
+  'pattern-guessed': 'unverified',
+  'mismatched-domain': 'domain mismatch',
+  invalid: 'invalid'
+};
+
+// " (Jane Doe, CEO & Co-Founder, guessed from name pattern, unverified)" after
+// the email address, followed by any quality issues
+function contactNote(result: PRData, role: ExecutiveRole): string {
+  const contact = (result.executives || []).find(c => c.role === role);
+  if (!contact) return '';
+  const parts = [
+    contact.name,
+    contact.title,
+    EMAIL_SOURCE_LABELS[contact.emailSource],
+    contact.emailStatus && EMAIL_STATUS_LABELS[contact.emailStatus],
+    ...(contact.emailIssues || [])
+  ];
+  return ` (${parts.filter(Boolean).join(', ')})`;
+}
+
+// " (also Fintech Company 72, SaaS Company 55)" after the primary category
+function secondaryLabelsNote(result: PRData): string {
+  const secondary = (result.categories || []).slice(1);
+  if (secondary.length === 0) return '';
+  return ` (also ${secondary.map(category => `${category.label} ${category.score}`).join(', ')})`;
+}
+
+const MODE_LABELS = {
+  single: 'Single URL',
+  content: 'Text / File',
+  batch: 'Batch'
+};
+
+const SOURCE_TYPE_LABELS: Record<PRData['sourceType'], string> = {
+  url: 'URL',
+  text: 'Pasted text',
+  html: 'HTML file',
+  eml: 'Email (.eml)',
+  pdf: 'PDF'
+};
+
+// .eml, .html and .pdf uploads are parsed as such; anything else is plain text
+function inputTypeOf(fileName: string): ReleaseInput['type'] {
+  if (/\.pdf$/i.test(fileName)) return 'pdf';
+  if (/\.eml$/i.test(fileName)) return 'eml';
+  if (/\.html?$/i.test(fileName)) return 'html';
+  return 'text';
+}
 
 export default function Home() {
+  const [mode, setMode] = useState<keyof typeof MODE_LABELS>('single');
   const [url, setUrl] = useState('');
+  const [text, setText] = useState('');
+  const [file, setFile] = useState<ReleaseInput | null>(null);
+  const [reprocess, setReprocess] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [message, setMessage] = useState('');
+  const [job, setJob] = useState<Job | null>(null);
+
+  const isJobActive = !!job && !['saved', 'skipped', 'failed'].includes(job.status);
+
+  // Poll the job until it reaches a terminal state
+  useEffect(() => {
+    if (!job || !isJobActive) return;
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/jobs/${job.id}`);
+        const data = await response.json();
+
+        if (response.ok) {
+          setJob(data.job);
+        } else {
+          setMessage(`Error: ${data.error}`);
+          setJob(null);
+        }
+      } catch (error) {
+        // Transient network error - try again on the next tick
+        setJob({ ...job });
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearTimeout(timer);
+  }, [job, isJobActive]);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (!selected) {
+      setFile(null);
+      return;
+    }
+
+    const type = inputTypeOf(selected.name);
+    const reader = new FileReader();
+    // PDFs are sent base64-encoded, without the data URL prefix
+    reader.onload = () => {
+      const result = String(reader.result || '');
+      setFile({ type, content: type === 'pdf' ? result.substring(result.indexOf(',') + 1) : result, fileName: selected.name });
+    };
+    reader.onerror = () => setMessage('Error: Unable to read the selected file');
+    if (type === 'pdf') {
+      reader.readAsDataURL(selected);
+    } else {
+      reader.readAsText(selected);
+    }
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    
+
     setIsSubmitting(true);
     setMessage('');
+    setJob(null);
 
     try {
       const response = await fetch('/api/process-pr', {
@@ -17,14 +146,18 @@ export default function Home() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ url }) // ✅ FIXED: Added missing body
+        // An uploaded file takes precedence over pasted text
+        body: JSON.stringify(mode === 'content'
+          ? { input: file || { type: 'text', content: text }, reprocess }
+          : { url, reprocess }) // ✅ FIXED: Added missing body
       });
 
       const data = await response.json();
 
       if (response.ok) {
-        setMessage(data.message);
+        setJob(data.job);
         setUrl('');
+        setText('');
       } else {
         setMessage(`Error: ${data.error}`);
       }
@@ -43,53 +176,217 @@ export default function Home() {
             PR Analysis Tool
           </h2>
           <p className="mt-2 text-center text-sm text-gray-600">
-            Submit a press release URL for automatic data extraction
+            Submit a press release URL, text, email or PDF for automatic data extraction
           </p>
-        </div>
-        
-        <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
-          <div>
-            <label htmlFor="url" className="sr-only">
-              Press Release URL
-            </label>
-            <input
-              id="url"
-              name="url"
-              type="url"
-              required
-              value={url}
-              onChange={(e) => setUrl(e.target.value)}
-              className="appearance-none rounded-md relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm"
-              placeholder="Enter press release URL"
-            />
-          </div>
-
-          <div>
-            <button
-              type="submit"
-              disabled={isSubmitting} // ✅ FIXED: Added disabled attribute
-              className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              {isSubmitting ? 'Processing...' : 'Submit for Analysis'}
-            </button>
+          <div className="mt-4 flex justify-center space-x-2 text-sm">
+            {(['single', 'content', 'batch'] as const).map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setMode(option)}
+                className={`px-3 py-1 rounded-md ${
+                  mode === option ? 'bg-indigo-600 text-white' : 'bg-white text-gray-700 border border-gray-300'
+                }`}
+              >
+                {MODE_LABELS[option]}
+              </button>
+            ))}
           </div>
+        </div>
 
-          {message && (
-            <div className={`mt-4 p-3 rounded-md ${
-              message.includes('Error') 
-                ? 'bg-red-50 text-red-800' 
-                : 'bg-green-50 text-green-800'
-            }`}>
-              {message}
+        {mode === 'batch' ? (
+          <BatchSubmit />
+        ) : (
+          <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
+            {mode === 'content' ? (
+              <div className="text-sm text-gray-700">
+                <label htmlFor="text" className="sr-only">
+                  Press Release Text
+                </label>
+                <textarea
+                  id="text"
+                  name="text"
+                  rows={8}
+                  required={!file}
+                  disabled={!!file}
+                  value={text}
+                  onChange={(e) => setText(e.target.value)}
+                  className="appearance-none rounded-md block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm disabled:opacity-50"
+                  placeholder="Paste the press release text"
+                />
+                <label htmlFor="release-file" className="block mt-2 mb-1">Or upload an HTML file, PDF or .eml email</label>
+                <input id="release-file" name="release-file" type="file" accept=".html,.htm,.eml,.pdf,.txt,text/html,message/rfc822,application/pdf,text/plain" onChange={handleFileChange} />
+                {file && <p className="mt-1 text-xs text-gray-500">{file.fileName}: read as {SOURCE_TYPE_LABELS[file.type]}</p>}
+              </div>
+            ) : (
+              <div>
+                <label htmlFor="url" className="sr-only">
+                  Press Release URL
+                </label>
+                <input
+                  id="url"
+                  name="url"
+                  type="url"
+                  required
+                  value={url}
+                  onChange={(e) => setUrl(e.target.value)}
+                  className="appearance-none rounded-md relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm"
+                  placeholder="Enter press release URL"
+                />
+                <label className="mt-2 flex items-center text-xs text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={reprocess}
+                    onChange={(e) => setReprocess(e.target.checked)}
+                    className="mr-2"
+                  />
+                  Re-process if this URL was already submitted (updates its existing row)
+                </label>
+              </div>
+            )}
+  
+            <div>
+              <button
+                type="submit"
+                disabled={isSubmitting || isJobActive} // ✅ FIXED: Added disabled attribute
+                className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSubmitting || isJobActive ? 'Processing...' : 'Submit for Analysis'}
+              </button>
             </div>
-          )}
-        </form>
+  
+            {message && (
+              <div className={`mt-4 p-3 rounded-md ${
+                message.includes('Error')
+                  ? 'bg-red-50 text-red-800'
+                  : 'bg-green-50 text-green-800'
+              }`}>
+                {message}
+              </div>
+            )}
+  
+            {job && (
+              <div className={`mt-4 p-3 rounded-md text-sm ${
+                job.status === 'failed'
+                  ? 'bg-red-50 text-red-800'
+                  : job.status === 'saved'
+                    ? 'bg-green-50 text-green-800'
+                    : job.status === 'skipped'
+                      ? 'bg-yellow-50 text-yellow-800'
+                      : 'bg-indigo-50 text-indigo-800'
+              }`}>
+                <p className="font-medium">{STATUS_LABELS[job.status]}</p>
+                <p className="mt-1 text-xs break-all opacity-75">{job.sourceType ? `${SOURCE_TYPE_LABELS[job.sourceType]}${job.sourceName ? `: ${job.sourceName}` : ''}` : job.url}</p>
+  
+                {job.status === 'failed' && (
+                  <p className="mt-2">Reason: {job.error || 'Unknown error'}</p>
+                )}
+
+                {job.status === 'skipped' && (
+                  <p className="mt-2">{job.skipReason}</p>
+                )}
+  
+                {job.dedup && job.dedup.decision === 'updated' && (
+                  <p className="mt-2">Updated the existing record for this URL</p>
+                )}
+
+                {job.dedup && ['skipped', 'merged', 'linked'].includes(job.dedup.decision) && (
+                  <p className="mt-2">Duplicate {job.dedup.decision}: {job.dedup.reason}</p>
+                )}
+
+                {job.deals && (
+                  <div className="mt-2">
+                    <p className="font-medium">Found {job.deals.length} deals in this article</p>
+                    <ul className="mt-1 list-disc list-inside">
+                      {job.deals.map((deal, index) => (
+                        <li key={index}>
+                          {deal.result.companyName}: {deal.result.amountRaised}
+                          {deal.result.leadInvestor !== 'NOT FOUND' ? `, led by ${deal.result.leadInvestor}` : ''}
+                          {deal.error
+                            ? ` (not saved: ${deal.error})`
+                            : deal.dedup && deal.dedup.decision !== 'new' ? ` (duplicate ${deal.dedup.decision})` : ''}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {job.status === 'saved' && !job.deals && job.result?.acquisition && (
+                  <dl className="mt-2 space-y-1">
+                    <div><dt className="inline font-medium">Acquirer: </dt><dd className="inline">{job.result.acquisition.acquirer}</dd></div>
+                    <div><dt className="inline font-medium">Target: </dt><dd className="inline">{job.result.acquisition.target}</dd></div>
+                    <div><dt className="inline font-medium">Deal Type: </dt><dd className="inline">{job.result.acquisition.dealType}</dd></div>
+                    <div><dt className="inline font-medium">Deal Value: </dt><dd className="inline">{job.result.acquisition.dealValue?.display || 'Undisclosed'}</dd></div>
+                    <div><dt className="inline font-medium">Announced: </dt><dd className="inline">{job.result.announcementDate || 'Unknown'}</dd></div>
+                    <div><dt className="inline font-medium">Target Headquarters: </dt><dd className="inline">{job.result.acquisition.targetHeadquarters}</dd></div>
+                    <div><dt className="inline font-medium">Rationale: </dt><dd className="inline">{job.result.acquisition.rationale}</dd></div>
+                    <div><dt className="inline font-medium">Confidence: </dt><dd className="inline">{job.result.confidence}%</dd></div>
+                  </dl>
+                )}
+
+                {job.status === 'saved' && !job.deals && job.result?.fundClose && (
+                  <dl className="mt-2 space-y-1">
+                    <div><dt className="inline font-medium">Firm: </dt><dd className="inline">{job.result.fundClose.firmName}</dd></div>
+                    <div><dt className="inline font-medium">Fund: </dt><dd className="inline">{job.result.fundClose.fundName}</dd></div>
+                    <div><dt className="inline font-medium">Fund Size: </dt><dd className="inline">{job.result.fundClose.fundSize?.display || 'Undisclosed'}</dd></div>
+                    <div><dt className="inline font-medium">Limited Partners: </dt><dd className="inline">{job.result.fundClose.limitedPartners.join(', ') || 'None named'}</dd></div>
+                    <div><dt className="inline font-medium">Strategy: </dt><dd className="inline">{job.result.fundClose.strategy}</dd></div>
+                    <div><dt className="inline font-medium">Announced: </dt><dd className="inline">{job.result.announcementDate || 'Unknown'}</dd></div>
+                    <div><dt className="inline font-medium">Confidence: </dt><dd className="inline">{job.result.confidence}%</dd></div>
+                  </dl>
+                )}
+
+                {job.status === 'saved' && !job.deals && job.result && !job.result.acquisition && !job.result.fundClose && (
+                  <dl className="mt-2 space-y-1">
+                    <div><dt className="inline font-medium">Company: </dt><dd className="inline">{job.result.companyName}</dd></div>
+                    <div>
+                      <dt className="inline font-medium">Amount Raised: </dt>
+                      <dd className="inline">
+                        {job.result.amountRaised}
+                        {job.result.amount && job.result.amount.currency !== 'USD' && job.result.amountUsd
+                          ? ` (≈ $${job.result.amountUsd.toLocaleString('en-US')})`
+                          : ''}
+                      </dd>
+                    </div>
+                    <div><dt className="inline font-medium">Round: </dt><dd className="inline">{job.result.roundType}</dd></div>
+                    <div><dt className="inline font-medium">Announced: </dt><dd className="inline">{job.result.announcementDate || 'Unknown'}</dd></div>
+                    {job.result.postMoneyValuation && (
+                      <div><dt className="inline font-medium">Post-Money Valuation: </dt><dd className="inline">{job.result.postMoneyValuation.display}</dd></div>
+                    )}
+                    <div><dt className="inline font-medium">Headquarters: </dt><dd className="inline">{job.result.headquarters}</dd></div>
+                    <div><dt className="inline font-medium">Use of Funds: </dt><dd className="inline">{job.result.useOfFunds}</dd></div>
+                    <div><dt className="inline font-medium">Lead Investor: </dt><dd className="inline">{job.result.leadInvestor}</dd></div>
+                    <div><dt className="inline font-medium">Follow-on Investors: </dt><dd className="inline">{job.result.followOnInvestors.join(', ') || 'None'}</dd></div>
+                    <div><dt className="inline font-medium">Classification: </dt><dd className="inline">{job.result.classification}{secondaryLabelsNote(job.result)}</dd></div>
+                    <div><dt className="inline font-medium">CEO Email: </dt><dd className="inline">{job.result.ceoEmail}{contactNote(job.result, 'CEO')}</dd></div>
+                    <div><dt className="inline font-medium">CMO Email: </dt><dd className="inline">{job.result.cmoEmail}{contactNote(job.result, 'CMO')}</dd></div>
+                    <div><dt className="inline font-medium">Confidence: </dt><dd className="inline">{job.result.confidence}%</dd></div>
+                    {job.result.riskScore !== undefined && (
+                      <div><dt className="inline font-medium">Risk Score: </dt><dd className="inline">{job.result.riskScore}/100</dd></div>
+                    )}
+                    {job.result.isScam && (
+                      <div className="font-medium text-yellow-800">Flagged as suspicious</div>
+                    )}
+                    {(job.result.riskReasons || []).length > 0 && (
+                      <ul className="list-disc list-inside text-yellow-800">
+                        {job.result.riskReasons.map(reason => <li key={reason}>{reason}</li>)}
+                      </ul>
+                    )}
+                  </dl>
+                )}
+              </div>
+            )}
+          </form>
+        )}
 
         <div className="mt-8 text-center text-xs text-gray-500">
           <p>Data will be automatically extracted and added to your spreadsheet</p>
           <p className="mt-2">Contact extraction prioritizes CEO and CMO emails</p>
         </div>
+
+        <ApolloUsagePanel />
+        <TaxonomyPanel />
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
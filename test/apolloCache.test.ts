@@ -0,0 +1,41 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { ApolloUsage } from '../lib/apolloCache';
+import { tempDir } from './helpers';
+
+function readUsage(filePath: string): Record<string, { creditsUsed: number; deferred: number }> {
+  return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+}
+
+describe('Apollo credit budget', () => {
+  it('releases a credit against the day it was reserved', async () => {
+    const filePath = path.join(tempDir(), 'apollo-usage.json');
+    // A lookup reserved a credit just before midnight and finished after it
+    fs.writeFileSync(filePath, JSON.stringify({
+      '2024-03-04': { date: '2024-03-04', creditsUsed: 3, cacheHits: 0, cacheMisses: 3, deferred: 0 }
+    }));
+    const usage = new ApolloUsage(filePath, { daily: null, monthly: null });
+
+    const today = await usage.reserveCredit();
+    assert.match(today!, /^\d{4}-\d{2}-\d{2}$/);
+    await usage.releaseCredit('2024-03-04');
+
+    const days = readUsage(filePath);
+    assert.equal(days['2024-03-04'].creditsUsed, 2);
+    assert.equal(days[today!].creditsUsed, 1);
+  });
+
+  it('returns null and counts a deferral once the daily budget is spent', async () => {
+    const filePath = path.join(tempDir(), 'apollo-usage.json');
+    const usage = new ApolloUsage(filePath, { daily: 1, monthly: null });
+
+    const reservedOn = await usage.reserveCredit();
+    assert.ok(reservedOn);
+    assert.equal(await usage.reserveCredit(), null);
+
+    await usage.releaseCredit(reservedOn!);
+    assert.deepEqual(readUsage(filePath)[reservedOn!], { date: reservedOn, creditsUsed: 0, cacheHits: 0, cacheMisses: 0, deferred: 1 });
+  });
+});
@@ -0,0 +1,57 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ContactProvider, ContactProviderChain, ContactQuery } from '../lib/contactProvider';
+import { ExecutiveRole, FoundContact } from '../lib/types';
+import { silenceConsole } from './helpers';
+
+const QUERY = { companyName: 'Acme Robotics', releaseLinks: ['https://www.acmerobotics.com/'], releaseText: '' };
+
+function contact(role: ExecutiveRole, email: string, overrides: Partial<FoundContact> = {}): FoundContact {
+  return { role, name: `${role} Person`, email, title: role, confidence: 80, emailSource: 'apollo', sourceUrl: null, ...overrides };
+}
+
+// Returns fixed contacts and records the roles it was asked for
+function provider(name: string, contacts: FoundContact[], asked: ExecutiveRole[][] = []): ContactProvider {
+  return {
+    name,
+    async findExecutives(query: ContactQuery) {
+      asked.push(query.roles);
+      return contacts;
+    }
+  };
+}
+
+before(() => {
+  silenceConsole();
+});
+
+describe('contact provider chain', () => {
+  it('keeps asking later providers when a contact is on another domain', async () => {
+    const asked: ExecutiveRole[][] = [];
+    const chain = new ContactProviderChain([
+      provider('first', [contact('CEO', 'jane@acme-holdings.com'), contact('CMO', 'max@acmerobotics.com')]),
+      provider('second', [contact('CEO', 'jane.doe@acmerobotics.com', { confidence: 60 })], asked)
+    ]);
+
+    const executives = await chain.findExecutives(QUERY);
+
+    assert.deepEqual(asked, [['CEO']]);
+    assert.deepEqual(executives.map(found => [found.role, found.email, found.emailStatus]), [
+      ['CEO', 'jane.doe@acmerobotics.com', 'verified-by-provider'],
+      ['CMO', 'max@acmerobotics.com', 'verified-by-provider']
+    ]);
+  });
+
+  it('falls back to a mismatched-domain contact when no provider has a better one', async () => {
+    const chain = new ContactProviderChain([
+      provider('first', [contact('CEO', 'jane@acme-holdings.com')]),
+      provider('second', [])
+    ]);
+
+    const executives = await chain.findExecutives(QUERY, ['CEO']);
+
+    assert.equal(executives.length, 1);
+    assert.equal(executives[0].emailStatus, 'mismatched-domain');
+    assert.deepEqual(executives[0].emailIssues, ['domain does not match acmerobotics.com']);
+  });
+});
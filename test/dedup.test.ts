@@ -0,0 +1,102 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { DealRegistry, canonicalizeUrl, dealFingerprint } from '../lib/dedup';
+import { prData, silenceConsole, tempDir } from './helpers';
+
+const URL = 'https://www.businesswire.com/news/home/20240305005123/en/Acme-Robotics-Raises-25M';
+
+before(() => {
+  silenceConsole();
+});
+
+describe('canonicalizeUrl', () => {
+  it('drops tracking parameters, fragments, ports and www', () => {
+    assert.equal(
+      canonicalizeUrl('http://WWW.Example.com:8080/news/acme-raises/?utm_source=x&b=2&fbclid=abc&mc_cid=7&a=1#top'),
+      'https://example.com/news/acme-raises?a=1&b=2'
+    );
+  });
+
+  it('maps AMP copies to the article URL', () => {
+    assert.equal(canonicalizeUrl('https://amp.example.com/news/acme-raises/amp/'), 'https://example.com/news/acme-raises');
+    assert.equal(canonicalizeUrl('https://example.com/news/acme-raises?outputType=amp&id=5'), 'https://example.com/news/acme-raises?id=5');
+    assert.equal(
+      canonicalizeUrl('https://www-example-com.cdn.ampproject.org/c/s/www.example.com/news/acme-raises.amp.html'),
+      'https://example.com/news/acme-raises.html'
+    );
+  });
+
+  it('keeps parameters and path segments that can identify the page', () => {
+    assert.equal(canonicalizeUrl('https://example.com/article?source=4821'), 'https://example.com/article?source=4821');
+    assert.equal(canonicalizeUrl('https://example.com/story?ref=acme-raises&src=feed'), 'https://example.com/story?ref=acme-raises&src=feed');
+    assert.equal(canonicalizeUrl('https://example.com/news/amp/acme-raises'), 'https://example.com/news/amp/acme-raises');
+    assert.equal(canonicalizeUrl('https://example.com/report?output=pdf'), 'https://example.com/report?output=pdf');
+    assert.notEqual(canonicalizeUrl('https://example.com/article?source=1'), canonicalizeUrl('https://example.com/article?source=2'));
+  });
+
+  it('leaves text that is not a URL as it is', () => {
+    assert.equal(canonicalizeUrl(' text:3f2a '), 'text:3f2a');
+  });
+});
+
+describe('dealFingerprint', () => {
+  it('normalizes the company, amount and lead investor', () => {
+    assert.equal(
+      dealFingerprint(prData({ companyName: 'Acme Robotics, Inc.', amountRaised: '$25 million', leadInvestor: 'Sequoia Capital' })),
+      'acme robotics|25000000USD|sequoia'
+    );
+    assert.equal(dealFingerprint(prData({ amountRaised: 'NOT FOUND', leadInvestor: 'NOT FOUND' })), 'acme robotics||');
+  });
+
+  it('keeps acquisitions apart from funding rounds', () => {
+    const acquisition = {
+      acquirer: 'Globex Corporation', target: 'Acme Robotics', dealValue: { amount: 120000000, currency: 'USD', display: '$120M' },
+      dealValueUsd: 120000000, dealType: 'Acquisition', targetHeadquarters: 'NOT FOUND', rationale: 'NOT FOUND'
+    };
+    assert.equal(dealFingerprint(prData({ acquisition })), 'acquisition:acme robotics|120000000USD|globex');
+  });
+});
+
+describe('deal registry', () => {
+  it('matches another source of a deal by its fingerprint', async () => {
+    const registry = new DealRegistry(path.join(tempDir(), 'deals.json'));
+    const first = await registry.resolve(prData(), URL, 'job-1', { action: 'merge' });
+
+    const sameUrl = await registry.resolve(prData(), `${URL}?utm_source=newsletter`, 'job-2', { action: 'merge' });
+    assert.equal(sameUrl.result.decision, 'skipped');
+
+    // Unknown lead, same amount: the same round reported elsewhere
+    const merged = await registry.resolve(prData({ leadInvestor: 'NOT FOUND', followOnInvestors: ['Accel'] }), 'https://example.com/acme', 'job-3', { action: 'merge' });
+    assert.equal(merged.result.decision, 'merged');
+    assert.equal(merged.record.id, first.record.id);
+    assert.deepEqual(merged.record.data.followOnInvestors, ['Accel']);
+
+    // A different lead investor or only the company name is a different round
+    const otherLead = await registry.resolve(prData({ leadInvestor: 'Accel' }), 'https://example.com/acme-2', 'job-4', { action: 'merge' });
+    assert.equal(otherLead.result.decision, 'new');
+    const nameOnly = await registry.resolve(prData({ amountRaised: 'NOT FOUND', leadInvestor: 'NOT FOUND' }), 'https://example.com/acme-3', 'job-5', { action: 'merge' });
+    assert.equal(nameOnly.result.decision, 'new');
+  });
+
+  it('replaces a re-processed deal and keeps its original key', async () => {
+    const registry = new DealRegistry(path.join(tempDir(), 'deals.json'));
+    const first = await registry.resolve(prData({ followOnInvestors: ['Wrong Ventures'] }), URL, 'job-1', { action: 'merge' });
+    assert.equal(first.result.decision, 'new');
+
+    const corrected = prData({ leadInvestor: 'Accel', investors: [], followOnInvestors: [] });
+    const { result, record } = await registry.resolve(corrected, URL, 'job-2', { action: 'merge', reprocess: true });
+
+    assert.equal(result.decision, 'updated');
+    assert.equal(record.id, first.record.id);
+    assert.equal(record.data.leadInvestor, 'Accel');
+    assert.deepEqual(record.data.followOnInvestors, []);
+    assert.equal(record.fingerprint, 'acme robotics|25000000USD|accel');
+    // Sink rows stay keyed by the fingerprint they were first written under
+    assert.equal(record.dealKey, 'acme robotics|25000000USD|sequoia');
+
+    // The old fingerprint no longer matches another source of the wrong deal
+    const other = await registry.resolve(prData(), 'https://example.com/acme-sequoia', 'job-3', { action: 'merge' });
+    assert.equal(other.result.decision, 'new');
+  });
+});
@@ -0,0 +1,922 @@
+import { before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { PRExtractor } from '../lib/prExtractor';
+import { HttpTransport } from '../lib/httpTransport';
+import { CsvSink } from '../lib/csvSink';
+import { JsonlSink } from '../lib/jsonlSink';
+import { formatRiskFlags, formatSecondaryLabels, toResultRow } from '../lib/resultSink';
+import { createContactProviderChain } from '../lib/contactConfig';
+import { ApolloCache, ApolloUsage } from '../lib/apolloCache';
+import { resolveInvestors } from '../lib/investors';
+import { extractWithRules, findRoundupSections } from '../lib/ruleExtractor';
+import { RollupStore } from '../lib/rollups';
+import { FeedStore } from '../lib/feedStore';
+import { FeedWatcher, isFundingItem } from '../lib/feedWatcher';
+import { parseFeed } from '../lib/feedParser';
+import { parseEml } from '../lib/emlParser';
+import { inputIdentifier } from '../lib/inputStore';
+import { extractPdfText, structurePdfRelease } from '../lib/pdfText';
+import { DealRegistry, canonicalizeUrl, dealFingerprint } from '../lib/dedup';
+import { RiskScorer } from '../lib/riskScoring';
+import { Job } from '../lib/types';
+import {
+  FIXTURES_DIR, apolloNoPeople, cassettePath, claudeError, claudeExchange, dealJson, networkError,
+  pageExchange, pdfExchange, readPage, silenceConsole, tempDir
+} from './helpers';
+
+const BUSINESSWIRE_URL = 'https://www.businesswire.com/news/home/20240305005123/en/Acme-Robotics-Raises-25-Million-Series-B';
+const GENERIC_URL = 'https://news.example.com/2024/03/acme-robotics-raises-25m-series-b';
+
+before(() => {
+  silenceConsole();
+  // Cassettes record the public API host
+  delete process.env.ANTHROPIC_BASE_URL;
+  process.env.ANTHROPIC_API_KEY = 'test-anthropic-key';
+  process.env.APOLLO_API_KEY = 'test-apollo-key';
+  process.env.EXTRACTION_CROSS_CHECK = 'true';
+  process.env.CONTACT_PROVIDERS = 'csv,apollo,website';
+  // Keep retry backoff and rate limits from slowing the suite down
+  process.env.OUTBOUND_RETRY_BASE_MS = '1';
+  process.env.OUTBOUND_RATE_LIMITS = 'default=100/s';
+  // Cassettes don't carry RDAP lookups; the risk test turns this back on
+  process.env.RISK_DOMAIN_AGE_CHECK = 'false';
+  process.env.KNOWN_CONTACTS_PATH = path.join(tempDir(), 'known-contacts.csv');
+});
+
+// Each test starts with an empty Apollo cache, usage log and roll-up store
+beforeEach(() => {
+  const dir = tempDir();
+  process.env.APOLLO_CACHE_PATH = path.join(dir, 'apollo-cache.json');
+  process.env.APOLLO_USAGE_PATH = path.join(dir, 'apollo-usage.json');
+  process.env.ROLLUP_STORE_PATH = path.join(dir, 'rollup-deals.json');
+});
+
+describe('extractPRData with recorded responses', () => {
+  it('extracts a Business Wire release end to end and writes it to the sinks', async () => {
+    const transport = new HttpTransport('replay', cassettePath('businesswire-acme-robotics'));
+    const data = await new PRExtractor(transport).extractPRData(BUSINESSWIRE_URL);
+
+    assert.equal(data.companyName, 'Acme Robotics');
+    assert.equal(data.leadInvestor, 'Sequoia Capital');
+    assert.deepEqual(data.followOnInvestors, ['Index Ventures', 'Accel', 'Y Combinator']);
+    assert.deepEqual(data.investors.map(investor => investor.id), ['sequoia-capital', 'index-ventures', 'accel', 'y-combinator']);
+    assert.deepEqual(data.amount, { amount: 25000000, currency: 'USD', display: '$25M' });
+    assert.equal(data.amountUsd, 25000000);
+    assert.equal(data.roundType, 'Series B');
+    assert.equal(data.announcementDate, '2024-03-05');
+    assert.equal(data.postMoneyValuation, null);
+    assert.equal(data.classification, 'AI Company');
+    assert.equal(data.ceoEmail, 'jane.doe@acmerobotics.com');
+    assert.equal(data.cmoEmail, 'priya@acmerobotics.com');
+    assert.deepEqual(data.executives.map(c => [c.role, c.name, c.emailSource]), [['CEO', 'Jane Doe', 'apollo'], ['CMO', 'Priya Shah', 'apollo']]);
+    assert.equal(data.confidence, 92);
+    assert.equal(data.riskScore, 0);
+    assert.equal(data.isScam, false);
+    assert.deepEqual(data.extractionErrors, []);
+    assert.deepEqual(transport.unusedExchanges(), []);
+
+    const dir = tempDir();
+    const context = { sourceUrl: BUSINESSWIRE_URL, dealKey: 'acme robotics|25000000USD|sequoia', jobId: 'job-1', processedAt: '2024-03-05T14:00:00.000Z' };
+    await new CsvSink(path.join(dir, 'results.csv')).write(data, context);
+    await new JsonlSink(path.join(dir, 'results.jsonl')).write(data, context);
+
+    const csv = fs.readFileSync(path.join(dir, 'results.csv'), 'utf8').trim().split('\n');
+    assert.equal(csv.length, 2);
+    assert.match(csv[1], /^2024-03-05T14:00:00\.000Z,https:\/\/www\.businesswire\.com\/.*,Acme Robotics,jane\.doe@acmerobotics\.com,/);
+
+    const record = JSON.parse(fs.readFileSync(path.join(dir, 'results.jsonl'), 'utf8'));
+    assert.equal(record.companyName, 'Acme Robotics');
+    assert.equal(record.dealKey, context.dealKey);
+    assert.equal(record.jobId, 'job-1');
+
+    const investors = fs.readFileSync(path.join(dir, 'results-investors.csv'), 'utf8').trim().split('\n');
+    assert.equal(investors[0], 'investorId,investor,leadDeals,participantDeals,totalDeals,totalCapitalUsd,ledCapitalUsd,leadsByCategory,lastDealDate,companies');
+    assert.equal(investors[1], 'sequoia-capital,Sequoia Capital,1,0,1,25000000,25000000,AI Company (1),2024-03-05,Acme Robotics');
+    const rollups = JSON.parse(fs.readFileSync(path.join(dir, 'results.rollups.json'), 'utf8'));
+    assert.deepEqual(rollups.categories, [
+      { classification: 'AI Company', quarter: '2024-Q1', deals: 1, totalCapitalUsd: 25000000, averageRoundUsd: 25000000, topLeadInvestors: 'Sequoia Capital (1)' }
+    ]);
+  });
+
+  it('unwraps a fenced JSON answer and notes it', async () => {
+    const transport = HttpTransport.fromExchanges([
+      pageExchange(BUSINESSWIRE_URL, 200, readPage('businesswire-acme-robotics.html')),
+      claudeExchange('Here is the extracted data:\n```json\n' + dealJson() + '\n```\nLet me know if you need anything else.'),
+      apolloNoPeople(),
+      apolloNoPeople()
+    ]);
+
+    const data = await new PRExtractor(transport).extractPRData(BUSINESSWIRE_URL);
+
+    assert.equal(data.companyName, 'Acme Robotics');
+    assert.equal(data.ceoEmail, 'EMAIL NOT FOUND');
+    assert.deepEqual(data.extractionErrors, ['Extracted JSON from surrounding text in LLM response']);
+  });
+
+  it('asks for a repair when the answer fails validation', async () => {
+    const transport = HttpTransport.fromExchanges([
+      pageExchange(BUSINESSWIRE_URL, 200, readPage('businesswire-acme-robotics.html')),
+      claudeExchange(dealJson({ primaryCategory: 'robotics', categoryScores: { robotics: 90, ai: 120 }, confidence: 140 })),
+      claudeExchange(dealJson()),
+      apolloNoPeople(),
+      apolloNoPeople()
+    ]);
+
+    const data = await new PRExtractor(transport).extractPRData(BUSINESSWIRE_URL);
+
+    assert.equal(data.classification, 'AI Company');
+    assert.equal(data.confidence, 90);
+    assert.equal(data.extractionErrors.length, 1);
+    assert.match(data.extractionErrors[0], /^Repaired LLM response \(primaryCategory must be one of: .*; categoryScores has unknown category IDs: robotics .*; confidence must be at most 100/);
+  });
+
+  it('resolves investor aliases, misspellings and combined names to canonical IDs', async () => {
+    const transport = HttpTransport.fromExchanges([
+      pageExchange(BUSINESSWIRE_URL, 200, readPage('businesswire-acme-robotics.html')),
+      claudeExchange(dealJson({
+        leadInvestor: 'a16z and Accel',
+        followOnInvestors: ['Andreessen Horowitz (a16z)', 'Sequoia Capital India', 'Andresen Horowitz', 'Smith & Jones Capital', 'Kleiner Perkins Caufield & Byers']
+      })),
+      apolloNoPeople(),
+      apolloNoPeople()
+    ]);
+
+    const data = await new PRExtractor(transport).extractPRData(BUSINESSWIRE_URL);
+
+    assert.equal(data.leadInvestor, 'Andreessen Horowitz');
+    assert.deepEqual(data.followOnInvestors, ['Accel', 'Peak XV Partners', 'Smith & Jones Capital', 'Kleiner Perkins']);
+    assert.deepEqual(data.investors.map(investor => [investor.id, investor.role, investor.raw, investor.match]), [
+      ['andreessen-horowitz', 'lead', 'a16z', 'alias'],
+      ['accel', 'follow-on', 'Accel', 'alias'],
+      ['peak-xv-partners', 'follow-on', 'Sequoia Capital India', 'alias'],
+      ['smith-and-jones-capital', 'follow-on', 'Smith & Jones Capital', 'unlisted'],
+      ['kleiner-perkins', 'follow-on', 'Kleiner Perkins Caufield & Byers', 'alias']
+    ]);
+    assert.equal(resolveInvestors('NOT FOUND', ['Andresen Horowitz']).investors[0].match, 'fuzzy');
+    assert.equal(toResultRow(data, { sourceUrl: BUSINESSWIRE_URL, processedAt: '2024-03-05T14:00:00.000Z' }).investorIds,
+      'andreessen-horowitz; accel; peak-xv-partners; smith-and-jones-capital; kleiner-perkins');
+  });
+
+  it('keeps firms apart that differ only by Capital, Ventures or Fund', () => {
+    const resolved = resolveInvestors('Paradigm Capital', ['Founders Capital', 'Index Capital', 'Smith Capital', 'Smith Ventures', 'Smith Capital LLC', 'Paradigm']);
+
+    assert.deepEqual(resolved.investors.map(investor => [investor.id, investor.raw, investor.match]), [
+      ['paradigm-capital', 'Paradigm Capital', 'unlisted'],
+      ['founders-capital', 'Founders Capital', 'unlisted'],
+      ['index-capital', 'Index Capital', 'unlisted'],
+      ['smith-capital', 'Smith Capital', 'unlisted'],
+      ['smith-ventures', 'Smith Ventures', 'unlisted'],
+      ['paradigm', 'Paradigm', 'alias']
+    ]);
+    assert.equal(resolveInvestors('Paradigm, L.P.', []).investors[0].id, 'paradigm');
+  });
+
+  it('keeps a follow-on that differs from the lead only by its suffix in rule-based extraction', () => {
+    const deal = extractWithRules(
+      'Smith Robotics today announced a $10 million Series A led by Smith Capital with participation from Smith Ventures and Smith Capital LLC.',
+      'https://example.com/smith-robotics'
+    );
+    assert.equal(deal.leadInvestor, 'Smith Capital');
+    assert.deepEqual(deal.followOnInvestors, ['Smith Ventures']);
+  });
+
+  it('rebuilds roll-ups per deal without double counting re-processed deals', async () => {
+    const transport = HttpTransport.fromExchanges([
+      pageExchange(BUSINESSWIRE_URL, 200, readPage('businesswire-acme-robotics.html')),
+      claudeExchange(dealJson()),
+      apolloNoPeople(),
+      apolloNoPeople()
+    ]);
+    const acme = await new PRExtractor(transport).extractPRData(BUSINESSWIRE_URL);
+    const store = new RollupStore();
+    const context = (dealKey: string) => ({ sourceUrl: `https://example.com/${dealKey}`, dealKey, processedAt: '2024-04-01T00:00:00.000Z' });
+
+    await store.record(acme, context('acme'));
+    await store.record({ ...acme, companyName: 'Beta Pay', classification: 'Fintech Company', announcementDate: '2024-05-02' }, context('beta'));
+    await store.record({ ...acme, companyName: 'Moon Coin', isScam: true }, context('moon'));
+    // Re-processing Acme replaces its earlier numbers
+    const [investors, companies, categories] = await store.record({ ...acme, amountUsd: 30000000 }, context('acme'));
+
+    assert.deepEqual(investors.rows.map(row => [row.investorId, row.leadDeals, row.participantDeals, row.totalCapitalUsd, row.leadsByCategory]), [
+      ['sequoia-capital', 2, 0, 55000000, 'AI Company (1), Fintech Company (1)'],
+      ['index-ventures', 0, 2, 55000000, '']
+    ]);
+    assert.deepEqual(companies.rows.map(row => [row.company, row.rounds, row.latestRoundDate]), [['Beta Pay', 1, '2024-05-02'], ['Acme Robotics', 1, '2024-03-05']]);
+    assert.deepEqual(categories.rows.map(row => [row.classification, row.quarter, row.deals]), [['Fintech Company', '2024-Q2', 1], ['AI Company', '2024-Q1', 1]]);
+  });
+
+  it('keeps secondary category labels that score above the minimum', async () => {
+    const transport = HttpTransport.fromExchanges([
+      pageExchange(BUSINESSWIRE_URL, 200, readPage('businesswire-acme-robotics.html')),
+      claudeExchange(dealJson({ primaryCategory: 'fintech', categoryScores: { fintech: 88, saas: 55, ai: 72, software: 20 } })),
+      apolloNoPeople(),
+      apolloNoPeople()
+    ]);
+
+    const data = await new PRExtractor(transport).extractPRData(BUSINESSWIRE_URL);
+
+    assert.equal(data.classification, 'Fintech Company');
+    assert.deepEqual(data.categories, [
+      { id: 'fintech', label: 'Fintech Company', score: 88 },
+      { id: 'ai', label: 'AI Company', score: 72 },
+      { id: 'saas', label: 'SaaS Company', score: 55 }
+    ]);
+    assert.equal(formatSecondaryLabels(data), 'AI Company (72), SaaS Company (55)');
+  });
+
+  it('falls back to the rule-based extractor when the JSON cannot be repaired', async () => {
+    const transport = HttpTransport.fromExchanges([
+      pageExchange(BUSINESSWIRE_URL, 200, readPage('businesswire-acme-robotics.html')),
+      claudeExchange('{"companyName": "Acme Robotics", "amountRaised": '),
+      claudeExchange('Sorry, I cannot help with that.'),
+      apolloNoPeople(),
+      apolloNoPeople()
+    ]);
+
+    const data = await new PRExtractor(transport).extractPRData(BUSINESSWIRE_URL);
+
+    assert.equal(data.companyName, 'Acme Robotics');
+    assert.equal(data.leadInvestor, 'Sequoia Capital');
+    assert.equal(data.amount?.amount, 25000000);
+    assert.equal(data.roundType, 'Series B');
+    assert.ok(data.confidence <= 60);
+    assert.match(data.extractionErrors[0], /^Used rule-based extraction: .*failed validation after repair/);
+  });
+
+  it('lowers confidence when the rule-based cross-check disagrees', async () => {
+    const transport = HttpTransport.fromExchanges([
+      pageExchange(BUSINESSWIRE_URL, 200, readPage('businesswire-acme-robotics.html')),
+      claudeExchange(dealJson({ amountRaised: '$40M' })),
+      apolloNoPeople(),
+      apolloNoPeople()
+    ]);
+
+    const data = await new PRExtractor(transport).extractPRData(BUSINESSWIRE_URL);
+
+    assert.equal(data.confidence, 75);
+    assert.match(data.extractionErrors[0], /cross-check disagrees on amount/);
+  });
+});
+
+describe('executive lookup', () => {
+  it('falls back to the company website linked from the release when Apollo finds nobody', async () => {
+    const transport = HttpTransport.fromExchanges([
+      pageExchange(BUSINESSWIRE_URL, 200, readPage('businesswire-acme-robotics.html')),
+      claudeExchange(dealJson()),
+      apolloNoPeople(),
+      apolloNoPeople(),
+      pageExchange('https://acmerobotics.com/', 200, '<html><body><h1>Acme Robotics</h1><p>Picking robots for every warehouse.</p></body></html>'),
+      pageExchange('https://acmerobotics.com/about', 404),
+      pageExchange('https://acmerobotics.com/team', 200, readPage('acmerobotics-team.html')),
+      claudeExchange(JSON.stringify({
+        ceoName: 'Jane Doe',
+        ceoTitle: 'CEO & Co-Founder',
+        ceoEmail: 'jane@acmerobotics.com',
+        cmoName: 'Priya Shah',
+        cmoTitle: 'VP Marketing',
+        cmoEmail: 'priya.shah@acmerobotics.com'
+      }))
+    ]);
+
+    const data = await new PRExtractor(transport).extractPRData(BUSINESSWIRE_URL);
+
+    assert.equal(data.ceoEmail, 'jane@acmerobotics.com');
+    assert.equal(data.cmoEmail, 'priya.shah@acmerobotics.com');
+    assert.deepEqual(data.executives, [
+      {
+        role: 'CEO', name: 'Jane Doe', email: 'jane@acmerobotics.com', title: 'CEO & Co-Founder', confidence: 80,
+        emailSource: 'website', sourceUrl: 'https://acmerobotics.com/team', emailStatus: 'found-on-site', emailIssues: []
+      },
+      {
+        role: 'CMO', name: 'Priya Shah', email: 'priya.shah@acmerobotics.com', title: 'VP Marketing', confidence: 40,
+        emailSource: 'constructed', sourceUrl: 'https://acmerobotics.com/team', emailStatus: 'pattern-guessed', emailIssues: []
+      }
+    ]);
+  });
+
+  it('uses the known contacts file first and only asks Apollo for the rest', async () => {
+    fs.writeFileSync(process.env.KNOWN_CONTACTS_PATH!, [
+      'company,domain,role,name,title,email',
+      'Acme Robotics Inc.,acmerobotics.com,CEO,Jane Doe,"CEO, Co-Founder",jane@acmerobotics.com',
+      'Other Co,other.com,CMO,Sam Lee,CMO,sam@other.com'
+    ].join('\n'));
+
+    try {
+      const transport = HttpTransport.fromExchanges([
+        pageExchange(BUSINESSWIRE_URL, 200, readPage('businesswire-acme-robotics.html')),
+        claudeExchange(dealJson()),
+        // A single search: Apollo is only asked for the CMO
+        apolloNoPeople()
+      ]);
+
+      const data = await new PRExtractor(transport, createContactProviderChain(transport, undefined, ['csv', 'apollo'])).extractPRData(BUSINESSWIRE_URL);
+
+      assert.equal(data.ceoEmail, 'jane@acmerobotics.com');
+      assert.equal(data.cmoEmail, 'EMAIL NOT FOUND');
+      assert.deepEqual(data.executives.map(c => [c.role, c.title, c.emailSource]), [['CEO', 'CEO, Co-Founder', 'csv']]);
+      assert.deepEqual(transport.unusedExchanges(), []);
+    } finally {
+      fs.unlinkSync(process.env.KNOWN_CONTACTS_PATH!);
+    }
+  });
+  it('assesses each email against the company domain and writes the status with the name and title', async () => {
+    fs.writeFileSync(process.env.KNOWN_CONTACTS_PATH!, [
+      'company,role,name,title,email',
+      'Acme Robotics,CEO,Jane Doe,CEO,not-an-email',
+      'Acme Robotics,CEO,Jane Doe,CEO,jane.doe@gmail.com',
+      'Acme Robotics,CMO,Priya Shah,VP Marketing,info@acmerobotics.com'
+    ].join('\n'));
+
+    try {
+      const transport = HttpTransport.fromExchanges([
+        pageExchange(BUSINESSWIRE_URL, 200, readPage('businesswire-acme-robotics.html')),
+        claudeExchange(dealJson())
+      ]);
+
+      const data = await new PRExtractor(transport, createContactProviderChain(transport, undefined, ['csv'])).extractPRData(BUSINESSWIRE_URL);
+
+      // The invalid address is dropped in favour of the next candidate
+      assert.equal(data.ceoEmail, 'jane.doe@gmail.com');
+      assert.deepEqual(data.executives.map(c => [c.role, c.emailStatus, c.emailIssues]), [
+        ['CEO', 'mismatched-domain', ['free-mail domain (gmail.com)', 'domain does not match acmerobotics.com']],
+        ['CMO', 'verified-by-provider', ['role address (info@)']]
+      ]);
+
+      const row = toResultRow(data, { sourceUrl: BUSINESSWIRE_URL, processedAt: '2024-03-05T14:00:00.000Z' });
+      assert.equal(row.ceoName, 'Jane Doe');
+      assert.equal(row.ceoEmailStatus, 'mismatched-domain (free-mail domain (gmail.com); domain does not match acmerobotics.com)');
+      assert.equal(row.cmoTitle, 'VP Marketing');
+      assert.equal(row.cmoEmailStatus, 'verified-by-provider (role address (info@))');
+    } finally {
+      fs.unlinkSync(process.env.KNOWN_CONTACTS_PATH!);
+    }
+  });
+
+  it('serves repeat Apollo lookups from the cache and defers enrichment once the budget is spent', async () => {
+    const recorded = JSON.parse(fs.readFileSync(cassettePath('businesswire-acme-robotics'), 'utf8')).exchanges;
+    const [, claude, ceoSearch, ceoMatch, cmoSearch, cmoMatch] = recorded;
+    const page = pageExchange(BUSINESSWIRE_URL, 200, readPage('businesswire-acme-robotics.html'));
+
+    process.env.APOLLO_DAILY_CREDIT_LIMIT = '1';
+    try {
+      const transport = HttpTransport.fromExchanges([page, claude, ceoSearch, ceoMatch, cmoSearch]);
+      const data = await new PRExtractor(transport, createContactProviderChain(transport, undefined, ['apollo'])).extractPRData(BUSINESSWIRE_URL);
+
+      assert.equal(data.ceoEmail, 'jane.doe@acmerobotics.com');
+      assert.equal(data.cmoEmail, 'EMAIL NOT FOUND');
+      assert.deepEqual(transport.unusedExchanges(), []);
+    } finally {
+      delete process.env.APOLLO_DAILY_CREDIT_LIMIT;
+    }
+
+    // The CEO comes from the cache; only the deferred CMO lookup goes to Apollo
+    const transport = HttpTransport.fromExchanges([page, claude, cmoSearch, cmoMatch]);
+    const data = await new PRExtractor(transport, createContactProviderChain(transport, undefined, ['apollo'])).extractPRData(BUSINESSWIRE_URL);
+
+    assert.equal(data.ceoEmail, 'jane.doe@acmerobotics.com');
+    assert.equal(data.cmoEmail, 'priya@acmerobotics.com');
+    assert.deepEqual(transport.unusedExchanges(), []);
+
+    const summary = await new ApolloUsage().getSummary(new ApolloCache());
+    assert.deepEqual(summary.today, { date: summary.today.date, creditsUsed: 2, cacheHits: 1, cacheMisses: 3, deferred: 1 });
+    assert.equal(summary.cache.entries, 2);
+    assert.equal(summary.cache.hitRate, 25);
+  });
+});
+
+describe('risk scoring', () => {
+  it('scores a suspicious announcement and explains every signal', async () => {
+    const url = 'https://www.einpresswire.com/article/700123/coinvault-raises-500-million-seed-round';
+    const html = `<html><head><title>CoinVault Raises $500 Million Seed Round</title></head><body>
+      <div class="article"><h1 class="article-title">CoinVault Raises $500 Million Seed Round</h1>
+      <time datetime="2024-03-05T09:00:00Z">March 5, 2024</time>
+      <div class="article-content">
+        <p>MIAMI, March 5, 2024 (EIN Presswire) -- CoinVault, a next-generation digital asset platform, today announced that it has raised $80 million in seed funding from undisclosed private investors ahead of its public token sale.</p>
+        <p>Early participants in the presale will receive staking rewards and guaranteed returns as the platform grows. Visit <a href="https://coinvault.io/">coinvault.io</a> to join the whitelist.</p>
+        <p>Media contact: coinvault.media@gmail.com</p>
+      </div></div></body></html>`;
+
+    process.env.RISK_DOMAIN_AGE_CHECK = 'true';
+    try {
+      const transport = HttpTransport.fromExchanges([
+        pageExchange(url, 200, html),
+        claudeExchange(dealJson({
+          companyName: 'CoinVault',
+          leadInvestor: 'Undisclosed private investors',
+          followOnInvestors: [],
+          amountRaised: '$80M',
+          roundType: 'Seed',
+          primaryCategory: 'web3',
+          categoryScores: { web3: 95 }
+        })),
+        {
+          request: { method: 'GET', url: 'https://rdap.org/domain/coinvault.io' },
+          response: { status: 200, headers: { 'content-type': 'application/rdap+json' }, body: { events: [{ eventAction: 'registration', eventDate: '2024-02-20T10:00:00Z' }] } }
+        }
+      ]);
+
+      const data = await new PRExtractor(transport, createContactProviderChain(transport, undefined, ['csv'])).extractPRData(url);
+
+      assert.equal(data.riskScore, 100);
+      assert.equal(data.isScam, true);
+      assert.deepEqual(data.riskReasons, [
+        '$80M is implausibly large for a Seed round',
+        'Crypto/token-sale language: token sale, presale, staking rewards, guaranteed returns, whitelist',
+        'Company domain coinvault.io was registered on 2024-02-20, 14 day(s) before the announcement',
+        'Investors are not identified (Undisclosed private investors)',
+        'Media contact uses a free-mail address (coinvault.media@gmail.com)',
+        'Published on a pay-to-publish wire (einpresswire.com)',
+        "Headline amount $500M doesn't match the body's $80M"
+      ]);
+      assert.deepEqual(transport.unusedExchanges(), []);
+
+      const flags = formatRiskFlags(data).split('\n');
+      assert.equal(flags[0], 'FLAGGED AS SUSPICIOUS (risk 100/100)');
+      assert.equal(flags.length, 8);
+    } finally {
+      process.env.RISK_DOMAIN_AGE_CHECK = 'false';
+    }
+  });
+
+  it('only checks the media contact for free-mail addresses', async () => {
+    const transport = HttpTransport.fromExchanges([]);
+    const scorer = new RiskScorer(transport.http);
+    const deal = { companyName: 'Acme Robotics', investors: [], amount: null, amountUsd: null, roundType: 'Series B' as const, announcementDate: '2024-03-05' };
+    const content = 'Customers can reach the founders at acme.founders@gmail.com during the beta.';
+
+    const body = await scorer.score({
+      url: 'https://www.businesswire.com/news/acme', content: `${content} Media contact: press@acmerobotics.com`,
+      structured: null, releaseLinks: [], deal, modelFlagged: false
+    });
+    assert.ok(!body.reasons.some(reason => reason.startsWith('Media contact uses a free-mail address')));
+
+    const contact = await scorer.score({
+      url: 'https://www.businesswire.com/news/acme', content: `${content} Press contact: acme.pr@yahoo.com`,
+      structured: null, releaseLinks: [], deal, modelFlagged: false
+    });
+    assert.ok(contact.reasons.includes('Media contact uses a free-mail address (acme.pr@yahoo.com)'));
+  });
+});
+
+describe('pasted and uploaded releases', () => {
+  it('reads the HTML part of an .eml message and records the source type', async () => {
+    const raw = fs.readFileSync(path.join(FIXTURES_DIR, 'emails', 'acme-robotics-release.eml'), 'utf8');
+
+    const email = parseEml(raw);
+    assert.equal(email.subject, 'Acme Robotics Raises $25 Million Series B — Led by Sequoia Capital');
+    assert.equal(email.date, '2024-03-05T14:00:00.000Z');
+    assert.match(email.html!, /the maker of autonomous warehouse robots/);
+    assert.match(email.html!, /“Warehouses need automation that works on day one,” said Jane Doe/);
+    assert.match(email.text!, /has raised \$25 million in Series B funding/);
+    assert.doesNotMatch(email.html! + email.text!, /JVBERi0/);
+
+    const transport = HttpTransport.fromExchanges([claudeExchange(dealJson()), apolloNoPeople(), apolloNoPeople()]);
+    const data = await new PRExtractor(transport).extractPRData({ type: 'eml', content: raw, fileName: 'acme-robotics-release.eml' });
+
+    assert.equal(data.sourceType, 'eml');
+    assert.equal(data.companyName, 'Acme Robotics');
+    assert.equal(data.amountUsd, 25000000);
+    assert.deepEqual(data.extractionErrors, []);
+    assert.deepEqual(transport.unusedExchanges(), []);
+
+    const row = toResultRow(data, { sourceUrl: inputIdentifier({ type: 'eml', content: raw }), processedAt: '2024-03-05T14:00:00.000Z' });
+    assert.equal(row.sourceType, 'eml');
+    assert.match(String(row.sourceUrl), /^eml:[0-9a-f]{16}$/);
+  });
+
+  it('extracts pasted text and rejects text too short to use', async () => {
+    const text = [
+      'Acme Robotics Raises $25 Million Series B',
+      '',
+      'SAN FRANCISCO, March 5, 2024 -- Acme Robotics today announced it has raised $25 million in Series B funding led by Sequoia Capital.'
+    ].join('\n');
+
+    // Line endings don't change the identifier; the input type does
+    assert.equal(inputIdentifier({ type: 'text', content: text }), inputIdentifier({ type: 'text', content: text.replace(/\n/g, '\r\n') }));
+    assert.notEqual(inputIdentifier({ type: 'text', content: text }), inputIdentifier({ type: 'html', content: text }));
+
+    const transport = HttpTransport.fromExchanges([
+      claudeError(401, 'authentication_error', 'invalid x-api-key'),
+      apolloNoPeople(),
+      apolloNoPeople()
+    ]);
+    const data = await new PRExtractor(transport).extractPRData({ type: 'text', content: text });
+
+    assert.equal(data.sourceType, 'text');
+    assert.equal(data.companyName, 'Acme Robotics');
+    assert.equal(data.amountUsd, 25000000);
+    assert.match(data.extractionErrors[0], /^Used rule-based extraction/);
+
+    const short = await new PRExtractor(HttpTransport.fromExchanges([])).extractPRData({ type: 'text', content: 'Acme raises money' });
+    assert.equal(short.companyName, 'EXTRACTION FAILED');
+    assert.equal(short.sourceType, 'text');
+    assert.deepEqual(short.extractionErrors, ['Not enough text to extract from']);
+  });
+});
+
+describe('PDF releases', () => {
+  const PDF_URL = 'https://investors.acmerobotics.com/static/acme-robotics-series-b.pdf';
+
+  it('keeps headings, paragraph order and sections when reading a PDF', async () => {
+    const pdf = await extractPdfText(fs.readFileSync(path.join(FIXTURES_DIR, 'pages', 'acme-robotics-release.pdf')));
+    const release = structurePdfRelease(pdf);
+
+    assert.equal(release.headline, 'Acme Robotics Raises $25 Million Series B Led by Sequoia Capital');
+    assert.equal(release.subheadline, 'Funding will expand its fleet of warehouse robots');
+    assert.equal(release.publishedAt, '2024-03-05T14:00:00.000Z');
+    assert.deepEqual(release.paragraphs.map(paragraph => paragraph.substring(0, 30)), [
+      'SAN FRANCISCO, March 5, 2024 -',
+      'The company will use the fundi',
+      'Customer Momentum',
+      'Acme Robotics now runs in 40 w',
+      '"Warehouses need automation th'
+    ]);
+    assert.match(release.paragraphs[0], /the maker of autonomous warehouse robots/);
+    assert.deepEqual(release.boilerplates.map(boilerplate => boilerplate.company), ['Acme Robotics']);
+    assert.equal(release.mediaContact, 'Priya Shah, press@acmerobotics.com');
+    assert.deepEqual(pdf.links, ['https://www.acmerobotics.com/']);
+  });
+
+  it('detects a PDF behind a URL and extracts it like an HTML page', async () => {
+    const transport = HttpTransport.fromExchanges([
+      pdfExchange(PDF_URL, 'acme-robotics-release.pdf', 'application/octet-stream'),
+      claudeExchange(dealJson()),
+      apolloNoPeople(),
+      apolloNoPeople()
+    ]);
+
+    const data = await new PRExtractor(transport).extractPRData(PDF_URL);
+
+    assert.equal(data.sourceType, 'url');
+    assert.equal(data.companyName, 'Acme Robotics');
+    assert.equal(data.leadInvestor, 'Sequoia Capital');
+    assert.equal(data.amountUsd, 25000000);
+    assert.equal(data.roundType, 'Series B');
+    assert.deepEqual(data.extractionErrors, []);
+    assert.deepEqual(transport.unusedExchanges(), []);
+  });
+
+  it('reads an uploaded PDF with the rule-based extractor', async () => {
+    const content = fs.readFileSync(path.join(FIXTURES_DIR, 'pages', 'acme-robotics-release.pdf')).toString('base64');
+    const transport = HttpTransport.fromExchanges([
+      claudeError(401, 'authentication_error', 'invalid x-api-key'),
+      apolloNoPeople(),
+      apolloNoPeople()
+    ]);
+
+    const data = await new PRExtractor(transport).extractPRData({ type: 'pdf', content, fileName: 'acme-robotics-series-b.pdf' });
+
+    assert.equal(data.sourceType, 'pdf');
+    assert.equal(data.companyName, 'Acme Robotics');
+    assert.equal(data.amountUsd, 25000000);
+    assert.equal(data.roundType, 'Series B');
+    assert.equal(data.announcementDate, '2024-03-05');
+    assert.match(data.extractionErrors[0], /^Used rule-based extraction/);
+  });
+});
+
+describe('announcement types', () => {
+  const ACQUISITION_TEXT = [
+    'Globex to Acquire Acme Robotics for $120 Million',
+    '',
+    'SAN FRANCISCO, March 5, 2024 -- Globex Corporation today announced a definitive agreement to acquire Acme Robotics, the maker of autonomous warehouse robots, for $120 million in cash.'
+  ].join('\n');
+
+  it('routes an acquisition to its own schema and roll-up table', async () => {
+    const transport = HttpTransport.fromExchanges([
+      claudeExchange(JSON.stringify({
+        acquirer: 'Globex Corporation',
+        target: 'Acme Robotics',
+        dealValue: '$120M',
+        dealType: 'Acquisition',
+        announcementDate: '2024-03-05',
+        targetHeadquarters: 'San Francisco, USA',
+        rationale: 'Adds autonomous warehouse robots to Globex logistics software.',
+        confidence: 90
+      }))
+    ]);
+    const data = await new PRExtractor(transport).extractPRData({ type: 'text', content: ACQUISITION_TEXT });
+
+    assert.equal(data.announcementType, 'acquisition');
+    assert.equal(data.companyName, 'Acme Robotics');
+    assert.equal(data.amountRaised, 'NOT FOUND');
+    assert.equal(data.acquisition!.acquirer, 'Globex Corporation');
+    assert.equal(data.acquisition!.dealValueUsd, 120000000);
+    assert.equal(data.announcementDate, '2024-03-05');
+    // Classified by the headline, so the only model call is the extraction
+    assert.deepEqual(transport.unusedExchanges(), []);
+    assert.equal(dealFingerprint(data), 'acquisition:acme robotics|120000000USD|globex');
+
+    const dir = tempDir();
+    const sink = new CsvSink(path.join(dir, 'results.csv'));
+    await sink.write(data, { sourceUrl: 'text:acquisition', processedAt: '2024-03-05T14:00:00.000Z' });
+
+    const csv = fs.readFileSync(path.join(dir, 'results.csv'), 'utf8').trim().split('\n');
+    assert.ok(csv[1].endsWith(',text,acquisition,'));
+    const acquisitions = fs.readFileSync(path.join(dir, 'results-acquisitions.csv'), 'utf8').trim().split('\n');
+    assert.equal(acquisitions[0], 'announcementDate,acquirer,target,dealType,dealValue,dealValueUsd,targetHeadquarters,rationale,sourceUrl');
+    assert.ok(acquisitions[1].startsWith('2024-03-05,Globex Corporation,Acme Robotics,Acquisition,$120M,120000000,'));
+    // Funding roll-ups only count funding rounds
+    assert.equal(fs.readFileSync(path.join(dir, 'results-companies.csv'), 'utf8').trim().split('\n').length, 1);
+  });
+
+  it('extracts a fund close from the URL with the rules when Claude is unavailable', async () => {
+    const url = 'https://www.businesswire.com/news/home/20240305005123/en/FTV-Capital-Completes-Record-%244.05-Billion-Growth-Equity-Fundraise';
+    const transport = HttpTransport.fromExchanges([
+      pageExchange(url, 403, '<html><body>Access denied</body></html>'),
+      claudeError(401, 'authentication_error', 'invalid x-api-key')
+    ]);
+    const data = await new PRExtractor(transport).extractPRData(url);
+
+    assert.equal(data.announcementType, 'fund_close');
+    assert.equal(data.companyName, 'FTV Capital');
+    assert.equal(data.fundClose!.firmName, 'FTV Capital');
+    assert.equal(data.fundClose!.fundSizeUsd, 4050000000);
+    assert.equal(data.fundClose!.fundName, 'NOT FOUND');
+    assert.match(data.extractionErrors[0], /^Used rule-based extraction/);
+    // No contact lookup or funding extraction for a fund close
+    assert.deepEqual(transport.unusedExchanges(), []);
+  });
+
+  it('asks the model about an ambiguous headline and reports a product launch as not relevant', async () => {
+    const text = [
+      'Acme Robotics Launches Pallet Mover in Partnership with Globex',
+      '',
+      'SAN FRANCISCO, March 5, 2024 -- Acme Robotics today launched Pallet Mover, an autonomous robot built in partnership with Globex, now available to warehouse operators in the United States.'
+    ].join('\n');
+
+    const transport = HttpTransport.fromExchanges([
+      claudeExchange(JSON.stringify({ type: 'product_launch', confidence: 85, reason: 'Announces a new robot' }))
+    ]);
+    const data = await new PRExtractor(transport).extractPRData({ type: 'text', content: text });
+
+    assert.equal(data.announcementType, 'product_launch');
+    assert.equal(data.announcementReason, 'Announces a new robot');
+    assert.equal(data.acquisition, undefined);
+    assert.deepEqual(transport.unusedExchanges(), []);
+  });
+});
+
+describe('funding roundups', () => {
+  const ROUNDUP_TEXT = [
+    'This Week in Funding: 3 Startups That Raised',
+    '',
+    'March 8, 2024 -- Here are the startups that raised money this week.',
+    'Acme Robotics raised $25 million in Series B funding led by Sequoia Capital. The San Francisco-based company builds warehouse robots.',
+    'Beta Health, a digital clinic operator, secured €8 million in seed funding led by Index Ventures.',
+    'Gamma Energy has raised $40 million in a Series C round led by Breakthrough Energy Ventures, with participation from Accel.'
+  ].join('\n');
+
+  it('returns one deal per company with the sentence it came from', async () => {
+    const deals = [
+      { companyName: 'Acme Robotics', evidence: 'Acme Robotics raised $25 million in Series B funding led by Sequoia Capital.' },
+      { companyName: 'Beta Health', leadInvestor: 'Index Ventures', followOnInvestors: [], amountRaised: '€8M', roundType: 'Seed', evidence: 'Beta Health, a digital clinic operator, secured €8 million in seed funding led by Index Ventures.' },
+      { companyName: 'Gamma Energy', leadInvestor: 'Breakthrough Energy Ventures', followOnInvestors: ['Accel'], amountRaised: '$40M', roundType: 'Series C', evidence: 'Gamma Energy has raised $40 million in a Series C round led by Breakthrough Energy Ventures, with participation from Accel.' }
+    ].map(overrides => JSON.parse(dealJson(overrides)));
+
+    const transport = HttpTransport.fromExchanges([
+      claudeExchange(JSON.stringify({ deals })),
+      ...Array.from({ length: 6 }, apolloNoPeople)
+    ]);
+    const data = await new PRExtractor(transport).extractDeals({ type: 'text', content: ROUNDUP_TEXT });
+
+    assert.deepEqual(data.map(deal => deal.companyName), ['Acme Robotics', 'Beta Health', 'Gamma Energy']);
+    assert.deepEqual(data.map(deal => deal.amount?.currency), ['USD', 'EUR', 'USD']);
+    assert.deepEqual(data[2].followOnInvestors, ['Accel']);
+    assert.match(data[1].evidence!, /^Beta Health, a digital clinic operator, secured €8 million/);
+    assert.equal(toResultRow(data[2], { sourceUrl: 'text:roundup', processedAt: '2024-03-08T12:00:00.000Z' }).evidence, deals[2].evidence);
+    assert.deepEqual(transport.unusedExchanges(), []);
+  });
+
+  it('splits the article by company with the rules when Claude is unavailable', async () => {
+    const transport = HttpTransport.fromExchanges([
+      claudeError(401, 'authentication_error', 'invalid x-api-key'),
+      ...Array.from({ length: 6 }, apolloNoPeople)
+    ]);
+    const data = await new PRExtractor(transport).extractDeals({ type: 'text', content: ROUNDUP_TEXT });
+
+    assert.deepEqual(data.map(deal => [deal.companyName, deal.amountRaised, deal.leadInvestor]), [
+      ['Acme Robotics', '$25M', 'Sequoia Capital'],
+      ['Beta Health', '€8M', 'Index Ventures'],
+      ['Gamma Energy', '$40M', 'Breakthrough Energy Ventures']
+    ]);
+    assert.deepEqual(data.map(deal => deal.announcementDate), ['2024-03-08', '2024-03-08', '2024-03-08']);
+    assert.match(data[0].extractionErrors[0], /^Used rule-based extraction/);
+
+    // Deals from the same article are told apart by company, not URL
+    const registry = new DealRegistry(path.join(tempDir(), 'deals.json'));
+    for (const deal of data) {
+      const { result } = await registry.resolve(deal, 'text:roundup', 'job-1', { sharedUrl: true });
+      assert.equal(result.decision, 'new');
+    }
+    assert.equal((await registry.findAllByUrl('text:roundup')).length, 3);
+    const again = await registry.resolve(data[1], 'text:roundup', 'job-2', { sharedUrl: true });
+    assert.equal(again.result.decision, 'skipped');
+    assert.equal(again.record.data.companyName, 'Beta Health');
+
+    // A single-company release that mentions an earlier round is not a roundup
+    assert.deepEqual(findRoundupSections('Title: Acme Robotics Raises $25 Million Content: Acme Robotics raised $25 million. Sequoia Capital raised $8 billion for its fund last year.'), []);
+  });
+
+  it('checks each deal against its own part of the article', async () => {
+    const deals = [
+      { companyName: 'Acme Robotics', amountRaised: 'NOT FOUND', evidence: 'Acme Robotics raised $25 million in Series B funding led by Sequoia Capital.' },
+      { companyName: 'Beta Health', leadInvestor: 'Index Ventures', followOnInvestors: [], amountRaised: 'NOT FOUND', roundType: 'Seed', evidence: 'Beta Health secured funding led by Index Ventures.' },
+      { companyName: 'Gamma Energy', leadInvestor: 'Breakthrough Energy Ventures', followOnInvestors: ['Accel'], amountRaised: '$40M', roundType: 'Series C', evidence: 'Gamma Energy has raised $40 million in a Series C round led by Breakthrough Energy Ventures.' }
+    ].map(overrides => JSON.parse(dealJson(overrides)));
+    const text = ROUNDUP_TEXT.replace('with participation from Accel.', 'with participation from Accel. Investors in its token sale were promised guaranteed returns.');
+
+    const transport = HttpTransport.fromExchanges([
+      claudeExchange(JSON.stringify({ deals })),
+      ...Array.from({ length: 6 }, apolloNoPeople)
+    ]);
+    const data = await new PRExtractor(transport).extractDeals({ type: 'text', content: text });
+
+    // Amounts the model left out come from the company's own section
+    assert.deepEqual(data.map(deal => deal.amountRaised), ['$25M', '€8M', '$40M']);
+    assert.deepEqual(data.map(deal => deal.riskReasons.some(reason => reason.startsWith('Crypto/token-sale language'))), [false, false, true]);
+  });
+
+  it('returns every round of a joint release that does not look like a roundup', async () => {
+    const text = [
+      'Acme Robotics and Beta Health Announce New Funding',
+      '',
+      'SAN FRANCISCO, March 5, 2024 -- Acme Robotics raised $25 million in Series B funding led by Sequoia Capital. Its partner Beta Health secured €8 million in seed funding led by Index Ventures.'
+    ].join('\n');
+    assert.deepEqual(findRoundupSections(text), []);
+
+    const otherDeals = [JSON.parse(dealJson({
+      companyName: 'Beta Health', leadInvestor: 'Index Ventures', followOnInvestors: [], amountRaised: '€8M', roundType: 'Seed',
+      evidence: 'Its partner Beta Health secured €8 million in seed funding led by Index Ventures.'
+    }))];
+    const transport = HttpTransport.fromExchanges([
+      claudeExchange(JSON.stringify({ type: 'funding', confidence: 90, reason: 'Two companies report rounds' })),
+      claudeExchange(dealJson({ followOnInvestors: [], evidence: 'Acme Robotics raised $25 million in Series B funding led by Sequoia Capital.', otherDeals })),
+      ...Array.from({ length: 4 }, apolloNoPeople)
+    ]);
+    const data = await new PRExtractor(transport).extractDeals({ type: 'text', content: text });
+
+    assert.deepEqual(data.map(deal => [deal.companyName, deal.amountRaised, deal.leadInvestor]), [
+      ['Acme Robotics', '$25M', 'Sequoia Capital'],
+      ['Beta Health', '€8M', 'Index Ventures']
+    ]);
+    assert.deepEqual(transport.unusedExchanges(), []);
+  });
+});
+
+describe('extractPRData error paths', () => {
+  it('uses the URL when the page returns 403', async () => {
+    const transport = HttpTransport.fromExchanges([
+      pageExchange(GENERIC_URL, 403, '<html><body>Access denied</body></html>'),
+      claudeExchange(dealJson({ leadInvestor: 'NOT FOUND', followOnInvestors: [], confidence: 40 })),
+      apolloNoPeople(),
+      apolloNoPeople()
+    ]);
+
+    const data = await new PRExtractor(transport).extractPRData(GENERIC_URL);
+
+    assert.equal(data.companyName, 'Acme Robotics');
+    assert.equal(data.leadInvestor, 'NOT FOUND');
+    assert.equal(data.confidence, 40);
+    assert.deepEqual(transport.unusedExchanges(), []);
+  });
+
+  it('uses the URL when the page returns 404 and the rules when Claude rejects the key', async () => {
+    const transport = HttpTransport.fromExchanges([
+      pageExchange(GENERIC_URL, 404, '<html><body>Not found</body></html>'),
+      claudeError(401, 'authentication_error', 'invalid x-api-key'),
+      apolloNoPeople(),
+      apolloNoPeople()
+    ]);
+
+    const data = await new PRExtractor(transport).extractPRData(GENERIC_URL);
+
+    assert.equal(data.companyName, 'Acme Robotics');
+    assert.equal(data.amount, null);
+    assert.match(data.extractionErrors[0], /^Used rule-based extraction: Claude extraction failed: 401/);
+  });
+
+  it('retries a timed out page and then uses the URL', async () => {
+    const timeout = networkError('GET', GENERIC_URL, 'ECONNABORTED', 'timeout of 30000ms exceeded');
+    const transport = HttpTransport.fromExchanges([
+      timeout,
+      timeout,
+      timeout,
+      claudeExchange(dealJson()),
+      apolloNoPeople(),
+      apolloNoPeople()
+    ]);
+
+    const data = await new PRExtractor(transport).extractPRData(GENERIC_URL);
+
+    assert.equal(data.companyName, 'Acme Robotics');
+    assert.equal(data.amountRaised, '$25M');
+    assert.deepEqual(transport.unusedExchanges(), []);
+  });
+
+  it('retries a 503 and honours a short Retry-After', async () => {
+    const transport = HttpTransport.fromExchanges([
+      {
+        request: { method: 'GET', url: BUSINESSWIRE_URL },
+        response: { status: 503, headers: { 'retry-after': '0.05' }, body: 'Service Unavailable' }
+      },
+      pageExchange(BUSINESSWIRE_URL, 200, readPage('businesswire-acme-robotics.html')),
+      claudeExchange(dealJson()),
+      apolloNoPeople(),
+      apolloNoPeople()
+    ]);
+
+    const started = Date.now();
+    const data = await new PRExtractor(transport, createContactProviderChain(transport, undefined, ['apollo'])).extractPRData(BUSINESSWIRE_URL);
+
+    assert.ok(Date.now() - started >= 50);
+    assert.equal(data.leadInvestor, 'Sequoia Capital');
+    assert.deepEqual(data.extractionErrors, []);
+    assert.deepEqual(transport.unusedExchanges(), []);
+  });
+
+  it('pauses Apollo when it rate limits with a long Retry-After', async () => {
+    const transport = HttpTransport.fromExchanges([
+      pageExchange(BUSINESSWIRE_URL, 200, readPage('businesswire-acme-robotics.html')),
+      claudeExchange(dealJson()),
+      {
+        request: { method: 'POST', url: 'https://api.apollo.io/api/v1/mixed_people/search' },
+        response: { status: 429, headers: { 'retry-after': '60' }, body: { error: 'rate limit exceeded' } }
+      },
+      {
+        request: { method: 'POST', url: 'https://api.apollo.io/api/v1/mixed_people/search' },
+        response: { status: 429, headers: { 'retry-after': '60' }, body: { error: 'rate limit exceeded' } }
+      }
+    ]);
+
+    const data = await new PRExtractor(transport, createContactProviderChain(transport, undefined, ['apollo'])).extractPRData(BUSINESSWIRE_URL);
+
+    assert.equal(data.companyName, 'Acme Robotics');
+    assert.equal(data.ceoEmail, 'EMAIL NOT FOUND');
+    assert.equal(data.cmoEmail, 'EMAIL NOT FOUND');
+    // A 60s Retry-After is longer than we wait, so the CEO search isn't
+    // retried and the CMO search is refused while Apollo is paused
+    assert.equal(transport.unusedExchanges().length, 1);
+  });
+});
+
+describe('feed watcher', () => {
+  const FEED_URL = 'https://feed.businesswire.com/rss/home/?rss=G1QFDERJXkJeEF9YXA==';
+
+  it('queues new funding items once and skips processed URLs', async () => {
+    const feeds = new FeedStore(path.join(tempDir(), 'feeds.json'));
+    const feed = await feeds.create({ name: 'Business Wire VC', url: FEED_URL });
+    const queued: { url: string; feedId?: string }[] = [];
+    const queue = {
+      enqueue: async (url: string, options: { feedId?: string }) => {
+        queued.push({ url, feedId: options.feedId });
+        return { id: `job-${queued.length}` } as Job;
+      },
+      processedUrls: async () => new Set([canonicalizeUrl('https://www.businesswire.com/news/home/20240304005050/en/Beta-Pay-Secures-10M-Seed-Funding')])
+    };
+    const xml = fs.readFileSync(path.join(FIXTURES_DIR, 'pages', 'newswire-funding-feed.xml'), 'utf8');
+    const transport = HttpTransport.fromExchanges([pageExchange(FEED_URL, 200, xml), pageExchange(FEED_URL, 200, xml)]);
+    const watcher = new FeedWatcher(feeds, queue, transport);
+
+    const first = await watcher.poll(feed);
+
+    assert.deepEqual(queued, [{ url: BUSINESSWIRE_URL, feedId: feed.id }]);
+    assert.equal(first.itemsSeen, 3);
+    assert.equal(first.matched, 2);
+    assert.deepEqual(first.duplicates, ['https://www.businesswire.com/news/home/20240304005050/en/Beta-Pay-Secures-10M-Seed-Funding?utm_source=rss']);
+
+    // The cursor keeps the second poll from considering the same items again
+    const second = await watcher.poll((await feeds.get(feed.id))!);
+    assert.equal(second.newItems, 0);
+    assert.equal(queued.length, 1);
+
+    const stats = (await feeds.get(feed.id))!.stats;
+    assert.deepEqual([stats.polls, stats.itemsSeen, stats.itemsMatched, stats.itemsQueued, stats.duplicatesSkipped], [2, 3, 2, 1, 1]);
+    assert.equal((await feeds.get(feed.id))!.lastSeenAt, '2024-03-05T13:00:00.000Z');
+  });
+
+  it('reads Atom entries', () => {
+    const items = parseFeed(`<?xml version="1.0"?>
+      <feed xmlns="http://www.w3.org/2005/Atom">
+        <entry>
+          <id>tag:vc.example.com,2024:post-42</id>
+          <title>Why we led Acme Robotics&apos; Series B</title>
+          <link rel="alternate" href="https://vc.example.com/blog/acme-robotics"/>
+          <published>2024-03-05T15:00:00Z</published>
+          <summary type="html">&lt;p&gt;We are excited to lead the round.&lt;/p&gt;</summary>
+        </entry>
+      </feed>`);
+
+    assert.deepEqual(items, [{
+      id: 'tag:vc.example.com,2024:post-42',
+      title: "Why we led Acme Robotics' Series B",
+      link: 'https://vc.example.com/blog/acme-robotics',
+      summary: 'We are excited to lead the round.',
+      publishedAt: '2024-03-05T15:00:00.000Z'
+    }]);
+    assert.equal(isFundingItem(items[0]), false);
+    assert.equal(isFundingItem(items[0], ['led acme']), true);
+  });
+});
@@ -0,0 +1,143 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { RecordedExchange } from '../lib/httpTransport';
+import { PRData } from '../lib/types';
+
+export const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+
+export const ANTHROPIC_MESSAGES_URL = 'https://api.anthropic.com/v1/messages';
+export const APOLLO_SEARCH_URL = 'https://api.apollo.io/api/v1/mixed_people/search';
+
+export function cassettePath(name: string): string {
+  return path.join(FIXTURES_DIR, 'cassettes', `${name}.json`);
+}
+
+export function readPage(name: string): string {
+  return fs.readFileSync(path.join(FIXTURES_DIR, 'pages', name), 'utf8');
+}
+
+export function pageExchange(url: string, status: number, html = ''): RecordedExchange {
+  return {
+    request: { method: 'GET', url },
+    response: { status, headers: { 'content-type': 'text/html; charset=utf-8' }, body: html }
+  };
+}
+
+// Servers don't always label PDFs correctly, so the content type is a parameter
+export function pdfExchange(url: string, name: string, contentType = 'application/pdf'): RecordedExchange {
+  return {
+    request: { method: 'GET', url },
+    response: { status: 200, headers: { 'content-type': contentType }, bodyBase64: fs.readFileSync(path.join(FIXTURES_DIR, 'pages', name)).toString('base64') }
+  };
+}
+
+export function networkError(method: string, url: string, code: string, message: string): RecordedExchange {
+  return { request: { method, url }, error: { code, message } };
+}
+
+// A Messages API response whose only content block is `text`
+export function claudeExchange(text: string): RecordedExchange {
+  return {
+    request: { method: 'POST', url: ANTHROPIC_MESSAGES_URL },
+    response: {
+      status: 200,
+      headers: { 'content-type': 'application/json' },
+      body: {
+        id: 'msg_test',
+        type: 'message',
+        role: 'assistant',
+        model: 'claude-3-5-sonnet-20241022',
+        content: [{ type: 'text', text }],
+        stop_reason: 'end_turn',
+        stop_sequence: null,
+        usage: { input_tokens: 1500, output_tokens: 150 }
+      }
+    }
+  };
+}
+
+export function claudeError(status: number, type: string, message: string): RecordedExchange {
+  return {
+    request: { method: 'POST', url: ANTHROPIC_MESSAGES_URL },
+    response: {
+      status,
+      headers: { 'content-type': 'application/json' },
+      body: { type: 'error', error: { type, message } }
+    }
+  };
+}
+
+export function apolloNoPeople(): RecordedExchange {
+  return {
+    request: { method: 'POST', url: APOLLO_SEARCH_URL },
+    response: {
+      status: 200,
+      headers: { 'content-type': 'application/json' },
+      body: { people: [], pagination: { page: 1, per_page: 5, total_entries: 0, total_pages: 0 } }
+    }
+  };
+}
+
+export function dealJson(overrides: Record<string, unknown> = {}): string {
+  return JSON.stringify({
+    companyName: 'Acme Robotics',
+    leadInvestor: 'Sequoia Capital',
+    followOnInvestors: ['Index Ventures'],
+    amountRaised: '$25M',
+    roundType: 'Series B',
+    announcementDate: '2024-03-05',
+    postMoneyValuation: 'NOT FOUND',
+    headquarters: 'San Francisco, USA',
+    useOfFunds: 'Hire engineers.',
+    primaryCategory: 'ai',
+    categoryScores: { ai: 90 },
+    isScam: false,
+    confidence: 90,
+    ...overrides
+  }, null, 2);
+}
+
+// A saved funding round, for tests that start after extraction
+export function prData(overrides: Partial<PRData> = {}): PRData {
+  return {
+    companyName: 'Acme Robotics',
+    ceoEmail: 'EMAIL NOT FOUND',
+    cmoEmail: 'EMAIL NOT FOUND',
+    leadInvestor: 'Sequoia Capital',
+    followOnInvestors: [],
+    investors: [{ id: 'sequoia-capital', name: 'Sequoia Capital', role: 'lead', raw: 'Sequoia Capital', match: 'alias' }],
+    amountRaised: '$25M',
+    amount: { amount: 25000000, currency: 'USD', display: '$25M' },
+    amountUsd: 25000000,
+    roundType: 'Series B',
+    announcementDate: '2024-03-05',
+    postMoneyValuation: null,
+    headquarters: 'San Francisco, USA',
+    useOfFunds: 'NOT FOUND',
+    classification: 'AI Company',
+    categories: [{ id: 'ai', label: 'AI Company', score: 90 }],
+    isScam: false,
+    confidence: 90,
+    extractionErrors: [],
+    executives: [],
+    riskScore: 0,
+    riskReasons: [],
+    sourceType: 'url',
+    announcementType: 'funding',
+    announcementReason: '',
+    ...overrides
+  };
+}
+
+export function tempDir(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), 'pr-extractor-test-'));
+}
+
+// The extractor logs every step; keep test output readable unless asked for
+export function silenceConsole(): void {
+  if (process.env.TEST_VERBOSE) return;
+  for (const method of ['log', 'error', 'warn'] as const) {
+    console[method] = () => undefined;
+  }
+}
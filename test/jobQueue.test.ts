@@ -0,0 +1,157 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { JobQueue } from '../lib/jobQueue';
+import { JobStore, TERMINAL_STATUSES } from '../lib/jobStore';
+import { BatchStore } from '../lib/batchStore';
+import { DealRegistry } from '../lib/dedup';
+import { InputStore } from '../lib/inputStore';
+import { Job } from '../lib/types';
+import { prData, silenceConsole, tempDir } from './helpers';
+
+const URL = 'https://www.businesswire.com/news/home/20240305005123/en/Acme-Robotics-Raises-25M';
+
+before(() => {
+  silenceConsole();
+});
+
+function createQueue(dir = tempDir()): { queue: JobQueue; store: JobStore; deals: DealRegistry } {
+  const store = new JobStore(path.join(dir, 'jobs.json'));
+  const deals = new DealRegistry(path.join(dir, 'deals.json'));
+  const queue = new JobQueue(store, new BatchStore(path.join(dir, 'batches.json')), deals, new InputStore(path.join(dir, 'inputs')));
+  return { queue, store, deals };
+}
+
+// Jobs run in the background; poll until this one finishes
+async function finished(store: JobStore, id: string): Promise<Job> {
+  for (let i = 0; i < 100; i++) {
+    const job = await store.get(id);
+    if (job && TERMINAL_STATUSES.includes(job.status)) return job;
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+  throw new Error(`Job ${id} did not finish`);
+}
+
+describe('job status', () => {
+  it('records each status change once and completes on a terminal status', async () => {
+    const store = new JobStore(path.join(tempDir(), 'jobs.json'));
+    const job = await store.create(URL, { reprocess: true });
+    assert.equal(job.status, 'queued');
+    assert.equal(job.reprocess, true);
+
+    await store.setStatus(job.id, 'fetching');
+    await store.setStatus(job.id, 'extracting');
+    const extracting = await store.setStatus(job.id, 'extracting');
+    assert.equal(extracting.completedAt, undefined);
+
+    const saved = await store.setStatus(job.id, 'saved', { errors: ['Used rule-based extraction: timeout'] });
+    assert.deepEqual(saved.history.map(change => change.status), ['queued', 'fetching', 'extracting', 'saved']);
+    assert.ok(saved.completedAt);
+    assert.deepEqual(saved.errors, ['Used rule-based extraction: timeout']);
+
+    await assert.rejects(store.setStatus('missing', 'failed'), /Job not found: missing/);
+  });
+});
+
+describe('batch submission', () => {
+  it('queues each new URL once and reports invalid and duplicate entries', async () => {
+    const { queue, store, deals } = createQueue();
+    await deals.resolve(prData(), URL, 'job-0', { action: 'merge' });
+    const earlier = await store.create('https://example.com/earlier');
+    await store.setStatus(earlier.id, 'saved');
+
+    const batch = await queue.enqueueBatch([`${URL}?utm_source=newsletter`, 'not a url', `${URL}#top`, 'https://example.com/earlier/', '']);
+
+    assert.deepEqual(batch.entries.map(entry => [entry.outcome, entry.reason]), [
+      ['queued', undefined],
+      ['invalid', 'Invalid URL'],
+      ['duplicate', 'Duplicate within batch'],
+      ['duplicate', 'Already processed'],
+      ['invalid', 'Invalid URL']
+    ]);
+    await finished(store, batch.entries[0].jobId!);
+
+    const status = await queue.getBatch(batch.id);
+    assert.equal(status!.summary.total, 5);
+    assert.equal(status!.summary.invalid, 2);
+    assert.equal(status!.summary.pending, 0);
+    // The queued URL was already a known deal
+    assert.equal(status!.summary.duplicatesSkipped, 3);
+  });
+
+  it('rejects a batch over the size limit', async () => {
+    const { queue } = createQueue();
+    await assert.rejects(queue.enqueueBatch(Array.from({ length: 501 }, (_, i) => `https://example.com/${i}`)), /Batch too large: 501 URLs/);
+  });
+});
+
+describe('job retry', () => {
+  it('accepts a failed URL again but not one that is saved or in progress', async () => {
+    const { queue, store } = createQueue();
+    const failed = await store.create('https://example.com/failed');
+    await store.setStatus(failed.id, 'failed', { error: 'Article not found (404)' });
+    const saved = await store.create('https://example.com/saved');
+    await store.setStatus(saved.id, 'saved');
+    await store.create('https://example.com/queued');
+
+    const processed = await queue.processedUrls();
+
+    assert.ok(!processed.has('https://example.com/failed'));
+    assert.ok(processed.has('https://example.com/saved'));
+    assert.ok(processed.has('https://example.com/queued'));
+  });
+
+  it('resumes a job interrupted by a restart', async () => {
+    const dir = tempDir();
+    const { store, deals } = createQueue(dir);
+    // Already a known deal, so the resumed job finishes without fetching
+    await deals.resolve(prData(), URL, 'job-0', { action: 'merge' });
+    const job = await store.create(URL);
+    await store.setStatus(job.id, 'extracting');
+
+    const { queue } = createQueue(dir);
+    await queue.resumePending();
+    const resumed = await finished(store, job.id);
+
+    assert.equal(resumed.status, 'saved');
+    assert.deepEqual(resumed.history.map(change => change.status), ['queued', 'extracting', 'queued', 'saved']);
+    assert.equal(resumed.dedup!.decision, 'skipped');
+    assert.equal(resumed.result!.companyName, 'Acme Robotics');
+  });
+});
+
+describe('saving re-processed deals', () => {
+  it('rebuilds the CSV and JSONL roll-ups without logging another row', async () => {
+    const dir = tempDir();
+    process.env.RESULT_SINKS = 'csv,jsonl';
+    process.env.RESULT_CSV_PATH = path.join(dir, 'results.csv');
+    process.env.RESULT_JSONL_PATH = path.join(dir, 'results.jsonl');
+    process.env.ROLLUP_STORE_PATH = path.join(dir, 'rollup-deals.json');
+    // Rule-based extraction and no contact lookups keep this offline
+    delete process.env.ANTHROPIC_API_KEY;
+    process.env.CONTACT_PROVIDERS = 'csv';
+    process.env.KNOWN_CONTACTS_PATH = path.join(dir, 'known-contacts.csv');
+
+    const { queue, store } = createQueue(dir);
+    const release = (investors: string) => `SAN FRANCISCO, March 5, 2024 -- Acme Robotics today announced a $25 million Series B led by ${investors}. ` +
+      'The company builds autonomous warehouse robots and will use the funding to expand into Europe.';
+    const first = await queue.enqueueInput({ type: 'text', content: release('Sequoia Capital') });
+    assert.equal((await finished(store, first.id)).dedup!.decision, 'new');
+
+    // Another copy of the release names a follow-on investor
+    const second = await queue.enqueueInput({ type: 'text', content: release('Sequoia Capital with participation from Accel') }, { reprocess: true });
+    assert.equal((await finished(store, second.id)).dedup!.decision, 'merged');
+
+    assert.equal(fs.readFileSync(path.join(dir, 'results.csv'), 'utf8').trim().split('\n').length, 2);
+    assert.equal(fs.readFileSync(path.join(dir, 'results.jsonl'), 'utf8').trim().split('\n').length, 1);
+
+    const investors = fs.readFileSync(path.join(dir, 'results-investors.csv'), 'utf8').trim().split('\n');
+    assert.deepEqual(investors.slice(1).map(line => line.split(',').slice(0, 5).join(',')), [
+      'sequoia-capital,Sequoia Capital,1,0,1',
+      'accel,Accel,0,1,1'
+    ]);
+    const rollups = JSON.parse(fs.readFileSync(path.join(dir, 'results.rollups.json'), 'utf8'));
+    assert.deepEqual(rollups.investors.map((row: { investorId: string }) => row.investorId), ['sequoia-capital', 'accel']);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { findMoneyInText, formatMoney, parseMoney } from '../lib/money';
+
+describe('parseMoney', () => {
+  it('reads currency symbols, codes and words', () => {
+    assert.deepEqual(parseMoney('$1.2 billion'), { amount: 1200000000, currency: 'USD', display: '$1.2B' });
+    assert.deepEqual(parseMoney('USD 5M'), { amount: 5000000, currency: 'USD', display: '$5M' });
+    assert.deepEqual(parseMoney('€40 million'), { amount: 40000000, currency: 'EUR', display: '€40M' });
+    assert.deepEqual(parseMoney('8,5 Mio. Euro'), { amount: 8500000, currency: 'EUR', display: '€8.5M' });
+    assert.equal(parseMoney('CHF 8.5M')!.display, 'CHF 8.5M');
+  });
+
+  it('reads crore and lakh as rupees and displays them the same way', () => {
+    assert.deepEqual(parseMoney('₹250 crore'), { amount: 2500000000, currency: 'INR', display: '₹250 crore' });
+    assert.deepEqual(parseMoney('Rs 40 lakh'), { amount: 4000000, currency: 'INR', display: '₹40 lakh' });
+    assert.equal(parseMoney('1,200 crore')!.display, '₹1200 crore');
+    assert.equal(formatMoney(2500000000, 'INR'), '₹250 crore');
+  });
+
+  it('applies the default currency only to amounts with a unit', () => {
+    assert.equal(parseMoney('25M', { defaultCurrency: 'USD' })!.display, '$25M');
+    assert.equal(parseMoney('in 2024', { defaultCurrency: 'USD' }), null);
+    assert.equal(parseMoney('Founded in 2019', { defaultCurrency: 'EUR' }), null);
+    assert.equal(parseMoney('25M'), null);
+  });
+});
+
+describe('findMoneyInText', () => {
+  it('picks the amount nearest the funding language', () => {
+    assert.equal(findMoneyInText('After reaching revenue of $5M last year, Acme raised €12M in Series A funding.')!.display, '€12M');
+    assert.equal(findMoneyInText('Acme raised $25 million at a $500 million valuation.')!.display, '$25M');
+  });
+
+  it('prefers a sentence about the round over earlier mentions', () => {
+    assert.equal(findMoneyInText('Acme sold $3 million of robots in 2023. It has now raised $20 million.')!.display, '$20M');
+    assert.equal(findMoneyInText('Acme sold $3 million of robots in 2023.')!.display, '$3M');
+    assert.equal(findMoneyInText('Acme was founded in 2019 and raised a seed round.'), null);
+  });
+});
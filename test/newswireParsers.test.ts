@@ -0,0 +1,31 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { splitSections } from '../lib/newswireParsers';
+
+describe('splitSections', () => {
+  it('keeps body paragraphs that start with "About" in the body', () => {
+    const sections = splitSections([
+      'SAN FRANCISCO--(BUSINESS WIRE)--Acme Robotics today announced a $25 million Series B led by Sequoia Capital.',
+      'About 200 enterprises already use Acme.',
+      'About half of the new funding will go to hiring engineers.',
+      'The company will use the funding to expand into Europe.',
+      'About Acme Robotics, Inc.',
+      'Acme Robotics builds autonomous warehouse robots.',
+      'About the Investors: Sequoia Capital helps daring founders build legendary companies.',
+      'Media Contact:',
+      'press@acmerobotics.com'
+    ]);
+
+    assert.deepEqual(sections.paragraphs, [
+      'Acme Robotics today announced a $25 million Series B led by Sequoia Capital.',
+      'About 200 enterprises already use Acme.',
+      'About half of the new funding will go to hiring engineers.',
+      'The company will use the funding to expand into Europe.'
+    ]);
+    assert.deepEqual(sections.boilerplates, [
+      { company: 'Acme Robotics, Inc', text: 'Acme Robotics builds autonomous warehouse robots.' },
+      { company: 'the Investors', text: 'Sequoia Capital helps daring founders build legendary companies.' }
+    ]);
+    assert.equal(sections.mediaContact, 'press@acmerobotics.com');
+  });
+});
@@ -0,0 +1,114 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import initSqlJs from 'sql.js';
+import { promises as fs } from 'fs';
+import { SqliteSink } from '../lib/sqliteSink';
+import { isSameDealRow } from '../lib/resultSink';
+import { prData, silenceConsole, tempDir } from './helpers';
+
+const ROUNDUP_URL = 'https://news.example.com/2024/03/funding-roundup';
+
+before(() => {
+  silenceConsole();
+  process.env.ROLLUP_STORE_PATH = path.join(tempDir(), 'rollup-deals.json');
+});
+
+async function sqliteRows(filePath: string): Promise<Record<string, unknown>[]> {
+  const SQL = await initSqlJs({ locateFile: file => path.join(process.cwd(), 'node_modules', 'sql.js', 'dist', file) });
+  const db = new SQL.Database(await fs.readFile(filePath));
+  try {
+    const [result] = db.exec('SELECT companyName, amountRaised, dealKey, sourceUrl, processedAt FROM results ORDER BY id');
+    return (result?.values || []).map(row => Object.fromEntries(result.columns.map((column, i) => [column, row[i]])));
+  } finally {
+    db.close();
+  }
+}
+
+describe('upsert row matching', () => {
+  const row = { dealKey: 'acme robotics|25000000USD|sequoia', sourceUrls: ['https://www.example.com/acme?utm_source=x'] };
+
+  it('matches on the deal key or a canonically equal source URL', () => {
+    assert.ok(isSameDealRow(row, { sourceUrl: 'https://other.com/a', dealKey: row.dealKey, processedAt: '' }));
+    assert.ok(isSameDealRow(row, { sourceUrl: 'http://example.com/acme/', dealKey: 'beta|', processedAt: '' }));
+    assert.ok(isSameDealRow(row, { sourceUrl: 'https://other.com/a', sourceUrls: ['https://other.com/a', 'https://example.com/acme'], processedAt: '' }));
+    assert.ok(!isSameDealRow(row, { sourceUrl: 'https://other.com/a', dealKey: 'beta|', processedAt: '' }));
+  });
+
+  it('ignores the URL when several deals share it', () => {
+    assert.ok(!isSameDealRow(row, { sourceUrl: 'https://example.com/acme', dealKey: 'beta|', sharedUrl: true, processedAt: '' }));
+    assert.ok(isSameDealRow(row, { sourceUrl: 'https://example.com/acme', dealKey: row.dealKey, sharedUrl: true, processedAt: '' }));
+  });
+});
+
+describe('SQLite sink', () => {
+  it('keeps one row per deal from a roundup article', async () => {
+    const filePath = path.join(tempDir(), 'results.sqlite');
+    const sink = new SqliteSink(filePath);
+    const deals = [
+      prData({ companyName: 'Acme Robotics', amountRaised: '$25M' }),
+      prData({ companyName: 'Beta Health', amountRaised: '€8M' }),
+      prData({ companyName: 'Gamma Energy', amountRaised: '$40M' })
+    ];
+
+    for (const deal of deals) {
+      await sink.write(deal, { sourceUrl: ROUNDUP_URL, dealKey: deal.companyName.toLowerCase(), sharedUrl: true, processedAt: '2024-03-08T12:00:00.000Z' });
+    }
+    // Re-processing one of them updates only its own row
+    await sink.write(prData({ companyName: 'Beta Health', amountRaised: '€9M' }), {
+      sourceUrl: ROUNDUP_URL, dealKey: 'beta health', sharedUrl: true, processedAt: '2024-03-09T12:00:00.000Z'
+    });
+
+    const rows = await sqliteRows(filePath);
+    assert.deepEqual(rows.map(row => [row.companyName, row.amountRaised]), [
+      ['Acme Robotics', '$25M'],
+      ['Beta Health', '€9M'],
+      ['Gamma Energy', '$40M']
+    ]);
+  });
+
+  it('updates the row of a single-deal URL seen under a new deal key', async () => {
+    const filePath = path.join(tempDir(), 'results.sqlite');
+    const sink = new SqliteSink(filePath);
+    const url = 'https://news.example.com/acme-raises';
+
+    await sink.write(prData(), { sourceUrl: url, dealKey: 'acme robotics||', processedAt: '2024-03-05T12:00:00.000Z' });
+    await sink.write(prData({ amountRaised: '$30M' }), { sourceUrl: url, dealKey: 'acme robotics|30000000USD|', processedAt: '2024-03-06T12:00:00.000Z' });
+
+    const rows = await sqliteRows(filePath);
+    assert.equal(rows.length, 1);
+    assert.equal(rows[0].amountRaised, '$30M');
+  });
+
+  it('matches a re-submitted URL that differs only by tracking or AMP parts', async () => {
+    const filePath = path.join(tempDir(), 'results.sqlite');
+    const sink = new SqliteSink(filePath);
+    const url = 'https://news.example.com/acme-raises?utm_source=newsletter';
+
+    await sink.write(prData(), { sourceUrl: url, dealKey: 'acme robotics||', processedAt: '2024-03-05T12:00:00.000Z' });
+    await sink.write(prData({ amountRaised: '$30M' }), {
+      sourceUrl: 'https://amp.news.example.com/acme-raises/amp/', dealKey: 'acme robotics|30000000USD|', processedAt: '2024-03-06T12:00:00.000Z'
+    });
+
+    const rows = await sqliteRows(filePath);
+    assert.deepEqual(rows.map(row => [row.amountRaised, row.sourceUrl]), [['$30M', url]]);
+  });
+
+  it('updates a merged deal in place and keeps when and where it was first seen', async () => {
+    const filePath = path.join(tempDir(), 'results.sqlite');
+    const sink = new SqliteSink(filePath);
+    const first = 'https://www.businesswire.com/news/acme-raises';
+    const second = 'https://news.example.com/acme-raises';
+    const dealKey = 'acme robotics|25000000USD|sequoia';
+
+    await sink.write(prData(), { sourceUrl: first, dealKey, processedAt: '2024-03-05T12:00:00.000Z' });
+    await sink.write(prData({ followOnInvestors: ['Accel'] }), { sourceUrl: second, sourceUrls: [first, second], dealKey, processedAt: '2024-03-06T12:00:00.000Z' });
+    await sink.write(prData({ companyName: 'Beta Health' }), { sourceUrl: second.replace('acme', 'beta'), dealKey: 'beta health|25000000USD|sequoia', processedAt: '2024-03-06T12:00:00.000Z' });
+
+    const rows = await sqliteRows(filePath);
+    assert.deepEqual(rows.map(row => [row.companyName, row.sourceUrl, row.processedAt]), [
+      ['Acme Robotics', first, '2024-03-05T12:00:00.000Z'],
+      ['Beta Health', 'https://news.example.com/beta-raises', '2024-03-06T12:00:00.000Z']
+    ]);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { isValidUrl, parseUrlCsv, parseUrlList, splitCsvRow } from '../lib/urlUtils';
+
+describe('batch input parsing', () => {
+  it('reads a pasted list, skipping blank lines and comments', () => {
+    const text = '# March rounds\r\nhttps://example.com/a\n\n  https://example.com/b  \n#https://example.com/c\nnot a url';
+    assert.deepEqual(parseUrlList(text), ['https://example.com/a', 'https://example.com/b', 'not a url']);
+  });
+
+  it('takes the first URL cell of each CSV row and skips a header', () => {
+    const csv = [
+      'company,url,notes',
+      'Acme Robotics,https://example.com/acme,"Series B, led by Sequoia"',
+      '"Beta; Health";https://example.com/beta',
+      'Gamma\thttps://example.com/gamma\thttps://example.com/other',
+      'Delta,no link here',
+      ''
+    ].join('\n');
+
+    assert.deepEqual(parseUrlCsv(csv), [
+      'https://example.com/acme',
+      'https://example.com/beta',
+      'https://example.com/gamma',
+      // Kept so the batch reports it as invalid
+      'Delta,no link here'
+    ]);
+  });
+
+  it('keeps a first row that holds a URL', () => {
+    assert.deepEqual(parseUrlCsv('https://example.com/a\nhttps://example.com/b'), ['https://example.com/a', 'https://example.com/b']);
+  });
+
+  it('splits quoted cells with escaped quotes', () => {
+    assert.deepEqual(splitCsvRow('"Acme ""AR"" Robotics", https://example.com/a ,'), ['Acme "AR" Robotics', 'https://example.com/a', '']);
+  });
+
+  it('validates URLs', () => {
+    assert.ok(isValidUrl('https://example.com/a'));
+    assert.ok(!isValidUrl('example.com/a'));
+    assert.ok(!isValidUrl('Delta,no link here'));
+  });
+});